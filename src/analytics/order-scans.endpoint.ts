@@ -0,0 +1,143 @@
+import type { Endpoint } from 'payload'
+
+import { isValidTimeZone } from '../i18n/formatDate'
+import { isAdmin } from '../payload/access'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 365
+const DEFAULT_TIMEZONE = 'Europe/Paris'
+
+/**
+ * Formats a date as `YYYY-MM-DD` in the given IANA timezone.
+ * The `en-CA` locale is used only because it formats dates in ISO order.
+ */
+function toDayKey(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date)
+}
+
+/**
+ * Per-order tap analytics — GET /api/orders/:id/scans
+ *
+ * Returns, for every plate of the order, the total number of taps and the
+ * daily counts over the requested window.
+ *
+ * Query params:
+ * - days: window size in days (default 30, max 365)
+ * - tz:   IANA timezone used to bucket days (default Europe/Paris)
+ *
+ * Bot requests (link previews, crawlers) are excluded, consistently with
+ * the `plates.scanCount` rollup.
+ *
+ * Admin only. Shop admins only reach the orders of their shops.
+ */
+export const orderScansEndpoint: Endpoint = {
+  path: '/:id/scans',
+  method: 'get',
+
+  handler: async (req) => {
+    if (!isAdmin(req)) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const orderId = String(req.routeParams?.id ?? '')
+
+    const daysRaw = Number(req.searchParams?.get('days') ?? DEFAULT_DAYS)
+    const days =
+      Number.isFinite(daysRaw) && daysRaw > 0 ? Math.min(Math.floor(daysRaw), MAX_DAYS) : DEFAULT_DAYS
+
+    const tzParam = req.searchParams?.get('tz') || DEFAULT_TIMEZONE
+    if (!isValidTimeZone(tzParam)) {
+      return Response.json({ error: 'Invalid timezone' }, { status: 400 })
+    }
+
+    let order: any
+    try {
+      order = await req.payload.findByID({
+        collection: 'orders',
+        id: orderId,
+        depth: 0,
+        overrideAccess: false,
+        user: req.user,
+      })
+    } catch {
+      order = null
+    }
+    if (!order) {
+      return Response.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    const plates = await req.payload.find({
+      collection: 'plates',
+      where: { order: { equals: order.id } },
+      limit: 500,
+      depth: 0,
+    })
+
+    const now = new Date()
+    const from = new Date(now.getTime() - (days - 1) * DAY_MS)
+
+    // Pre-fill every day of the window so charts get explicit zeros
+    const dayKeys: string[] = []
+    for (let i = 0; i < days; i++) {
+      const key = toDayKey(new Date(from.getTime() + i * DAY_MS), tzParam)
+      if (!dayKeys.includes(key)) dayKeys.push(key)
+    }
+
+    const perPlate = new Map<string, Map<string, number>>()
+    for (const p of plates.docs) {
+      perPlate.set(String(p.id), new Map(dayKeys.map((k) => [k, 0])))
+    }
+
+    if (plates.docs.length) {
+      const scans = await req.payload.find({
+        collection: 'plate-scans',
+        where: {
+          and: [
+            { plate: { in: plates.docs.map((p: any) => p.id) } },
+            { scannedAt: { greater_than_equal: toDayStartIso(from) } },
+            { userAgentClass: { not_equals: 'bot' } },
+          ],
+        },
+        pagination: false,
+        depth: 0,
+      })
+
+      for (const s of scans.docs as any[]) {
+        const buckets = perPlate.get(String(s.plate))
+        if (!buckets) continue
+        const key = toDayKey(new Date(s.scannedAt), tzParam)
+        if (buckets.has(key)) buckets.set(key, (buckets.get(key) ?? 0) + 1)
+      }
+    }
+
+    return Response.json({
+      orderNumber: order.orderNumber,
+      timezone: tzParam,
+      from: dayKeys[0],
+      to: dayKeys[dayKeys.length - 1],
+      plates: plates.docs.map((p: any) => ({
+        id: p.id,
+        slug: p.slug,
+        totalScans: p.scanCount ?? 0,
+        lastScanAt: p.lastScanAt ?? null,
+        daily: Array.from(perPlate.get(String(p.id)) ?? [], ([date, count]) => ({ date, count })),
+      })),
+    })
+  },
+}
+
+/**
+ * Start of the first day of the window, with one extra day of margin so that
+ * timezone offsets never cut scans from the first bucket (they are filtered by key).
+ */
+function toDayStartIso(date: Date): string {
+  const d = new Date(date.getTime() - DAY_MS)
+  d.setUTCHours(0, 0, 0, 0)
+  return d.toISOString()
+}
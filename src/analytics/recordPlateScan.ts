@@ -0,0 +1,71 @@
+import type { Payload } from 'payload'
+
+import { classifyUserAgent } from '../utils/classifyUserAgent'
+import { getClientIp } from '../utils/getClientIp'
+import { getShopifyHeader } from '../utils/getShopifyHeader'
+import { hashIp } from '../utils/hashIp'
+
+export type ScanOutcome = 'redirected' | 'pending' | 'disabled' | 'forwarded'
+
+/**
+ * Records one NFC tap and refreshes the rollup counters on the plate.
+ *
+ * IMPORTANT:
+ * - This is best effort: analytics must NEVER break or delay the redirect.
+ *   The redirect does not await it (the count grows with the plate's history);
+ *   errors are logged and swallowed here, it never rejects.
+ * - Request headers are read before the first write, while the request is live.
+ * - `scanCount` is recomputed from `plate-scans` instead of being incremented,
+ *   so concurrent taps cannot lose updates and the counter self-heals.
+ * - Bot requests (link previews, crawlers) are stored but not counted.
+ */
+export async function recordPlateScan(
+  payload: Payload,
+  req: any,
+  plate: { id: string | number; order?: any; shop?: any },
+  outcome: ScanOutcome,
+): Promise<void> {
+  try {
+    const now = new Date().toISOString()
+    const userAgentClass = classifyUserAgent(getShopifyHeader(req, 'user-agent'))
+    const referrer = getShopifyHeader(req, 'referer')
+
+    await payload.create({
+      collection: 'plate-scans',
+      data: {
+        plate: plate.id,
+        order: typeof plate.order === 'object' ? plate.order?.id : plate.order,
+        shop: typeof plate.shop === 'object' ? plate.shop?.id : plate.shop,
+        scannedAt: now,
+        ipHash: hashIp(getClientIp(req)),
+        userAgentClass,
+        referrer: referrer ? String(referrer).slice(0, 512) : undefined,
+        outcome,
+      },
+      overrideAccess: true,
+    })
+
+    if (userAgentClass === 'bot') return
+
+    const { totalDocs } = await payload.count({
+      collection: 'plate-scans',
+      where: {
+        and: [{ plate: { equals: plate.id } }, { userAgentClass: { not_equals: 'bot' } }],
+      },
+      overrideAccess: true,
+    })
+
+    await payload.update({
+      collection: 'plates',
+      id: plate.id,
+      data: {
+        scanCount: totalDocs,
+        lastScanAt: now,
+      },
+      overrideAccess: true,
+    })
+  } catch (e) {
+    // Observability only — the visitor must still be redirected
+    payload.logger?.error?.(e, 'Failed to record plate scan')
+  }
+}
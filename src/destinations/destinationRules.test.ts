@@ -0,0 +1,292 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+import { normalizeDestinationRules, selectPlateDestination } from './destinationRules'
+
+const REVIEW_URL = 'https://search.google.com/local/writereview?placeid=ChIJN1t_tDeuEmsRUsoyG83frY4'
+const MENU_URL = 'https://chez-paul.fr/menu.pdf'
+const TRIPADVISOR_URL = 'https://www.tripadvisor.fr/Restaurant_Review-g187147-d1234567-Reviews-Chez_Paul.html'
+
+const menu = { destinationType: 'menu', destinationUrl: MENU_URL }
+const tripadvisor = { destinationType: 'tripadvisor', destinationUrl: TRIPADVISOR_URL }
+
+/**
+ * Plate served by default (Google review), with the given rules.
+ * No timezone: Europe/Paris, UTC+1 in January.
+ */
+function plate(destinationRules: any[], extra: Record<string, unknown> = {}) {
+  return { destinationType: 'google_review', googleReviewUrl: REVIEW_URL, destinationRules, ...extra }
+}
+
+function served(p: any, now: string, seed = 'visitor|slug'): string | null {
+  const { destination } = selectPlateDestination(p, { now: new Date(now), seed })
+  return destination && 'url' in destination ? destination.url : null
+}
+
+// 2026-01-05 is a Monday
+const MONDAY_NOON_PARIS = '2026-01-05T11:00:00Z'
+
+describe('selectPlateDestination — time windows', () => {
+  const lunch = plate([{ kind: 'time_window', startTime: '11:30', endTime: '14:30', ...menu }])
+
+  it('serves the rule inside the window', () => {
+    assert.equal(served(lunch, MONDAY_NOON_PARIS), MENU_URL)
+  })
+
+  it('serves the default outside the window', () => {
+    assert.equal(served(lunch, '2026-01-05T14:00:00Z'), REVIEW_URL) // 15:00 Paris
+    assert.equal(served(lunch, '2026-01-05T10:29:00Z'), REVIEW_URL) // 11:29 Paris
+  })
+
+  it('includes the start and excludes the end', () => {
+    assert.equal(served(lunch, '2026-01-05T10:30:00Z'), MENU_URL) // 11:30 Paris
+    assert.equal(served(lunch, '2026-01-05T13:30:00Z'), REVIEW_URL) // 14:30 Paris
+  })
+
+  it("evaluates the window in the plate's timezone", () => {
+    const newYork = { ...lunch, timeZone: 'America/New_York' }
+    assert.equal(served(newYork, MONDAY_NOON_PARIS), REVIEW_URL) // 06:00 New York
+    assert.equal(served(newYork, '2026-01-05T17:00:00Z'), MENU_URL) // 12:00 New York
+  })
+
+  it('falls back to Europe/Paris for an invalid timezone', () => {
+    assert.equal(served({ ...lunch, timeZone: 'Mars/Olympus' }, MONDAY_NOON_PARIS), MENU_URL)
+  })
+
+  it('ignores a window with malformed times', () => {
+    const broken = plate([{ kind: 'time_window', startTime: '25:00', endTime: '14:30', ...menu }])
+    assert.equal(served(broken, MONDAY_NOON_PARIS), REVIEW_URL)
+  })
+
+  describe('crossing midnight', () => {
+    // 22:00–02:00 on Fridays: the window belongs to the day it starts
+    const fridayNight = plate([
+      { kind: 'time_window', startTime: '22:00', endTime: '02:00', days: ['fri'], ...menu },
+    ])
+
+    it('matches before midnight on the listed day', () => {
+      assert.equal(served(fridayNight, '2026-01-09T22:00:00Z'), MENU_URL) // Fri 23:00 Paris
+    })
+
+    it('matches after midnight on the next day', () => {
+      assert.equal(served(fridayNight, '2026-01-10T00:30:00Z'), MENU_URL) // Sat 01:30 Paris
+    })
+
+    it('does not match the next night', () => {
+      assert.equal(served(fridayNight, '2026-01-10T22:00:00Z'), REVIEW_URL) // Sat 23:00 Paris
+    })
+
+    it('does not match the early hours of the listed day', () => {
+      assert.equal(served(fridayNight, '2026-01-09T00:30:00Z'), REVIEW_URL) // Fri 01:30 Paris (Thursday night)
+    })
+
+    it('ends at the end time', () => {
+      assert.equal(served(fridayNight, '2026-01-10T01:00:00Z'), REVIEW_URL) // Sat 02:00 Paris
+    })
+
+    it('matches every night without days', () => {
+      const everyNight = plate([{ kind: 'time_window', startTime: '22:00', endTime: '02:00', ...menu }])
+      assert.equal(served(everyNight, '2026-01-06T00:30:00Z'), MENU_URL) // Tue 01:30 Paris
+      assert.equal(served(everyNight, '2026-01-06T12:00:00Z'), REVIEW_URL)
+    })
+  })
+})
+
+describe('selectPlateDestination — days of the week', () => {
+  const weekend = plate([{ kind: 'days_of_week', days: ['sat', 'sun'], ...tripadvisor }])
+
+  it('serves the rule on the listed days', () => {
+    assert.equal(served(weekend, '2026-01-10T12:00:00Z'), TRIPADVISOR_URL) // Saturday
+    assert.equal(served(weekend, '2026-01-11T12:00:00Z'), TRIPADVISOR_URL) // Sunday
+  })
+
+  it('serves the default on other days', () => {
+    assert.equal(served(weekend, MONDAY_NOON_PARIS), REVIEW_URL)
+  })
+
+  it("uses the plate's timezone for the day", () => {
+    // Sunday 23:30 in New York, already Monday in Paris
+    const instant = '2026-01-12T04:30:00Z'
+    assert.equal(served(weekend, instant), REVIEW_URL)
+    assert.equal(served({ ...weekend, timeZone: 'America/New_York' }, instant), TRIPADVISOR_URL)
+  })
+})
+
+describe('selectPlateDestination — weighted split', () => {
+  const split = plate([
+    {
+      kind: 'split',
+      variants: [
+        { weight: 3, ...tripadvisor },
+        { weight: 1, ...menu },
+      ],
+    },
+  ])
+
+  it('is deterministic for a fixed seed', () => {
+    for (const seed of ['a', 'b', 'visitor-42|slug', '']) {
+      const first = served(split, MONDAY_NOON_PARIS, seed)
+      for (let i = 0; i < 5; i++) assert.equal(served(split, MONDAY_NOON_PARIS, seed), first)
+    }
+  })
+
+  it('does not depend on the time', () => {
+    const seed = 'visitor-42|slug'
+    assert.equal(served(split, '2026-01-10T03:00:00Z', seed), served(split, MONDAY_NOON_PARIS, seed))
+  })
+
+  it('follows the weights over many visitors', () => {
+    const runs = 10_000
+    let tripadvisorCount = 0
+    for (let i = 0; i < runs; i++) {
+      if (served(split, MONDAY_NOON_PARIS, `visitor-${i}|slug`) === TRIPADVISOR_URL) tripadvisorCount++
+    }
+    const share = tripadvisorCount / runs
+    assert.ok(share > 0.72 && share < 0.78, `expected ~75% TripAdvisor, got ${(share * 100).toFixed(1)}%`)
+  })
+
+  it('never picks a variant without weight', () => {
+    const onlyMenu = plate([
+      {
+        kind: 'split',
+        variants: [
+          { weight: 0, ...tripadvisor },
+          { weight: 2, ...menu },
+        ],
+      },
+    ])
+    for (let i = 0; i < 200; i++) assert.equal(served(onlyMenu, MONDAY_NOON_PARIS, `visitor-${i}`), MENU_URL)
+  })
+
+  it('falls back to the default when no variant has a weight', () => {
+    const empty = plate([{ kind: 'split', variants: [{ weight: 0, ...menu }] }])
+    assert.equal(served(empty, MONDAY_NOON_PARIS), REVIEW_URL)
+  })
+})
+
+describe('selectPlateDestination — rule order and default', () => {
+  it('serves the first matching rule', () => {
+    const p = plate([
+      { kind: 'days_of_week', days: ['mon'], ...tripadvisor },
+      { kind: 'time_window', startTime: '11:30', endTime: '14:30', ...menu },
+    ])
+    assert.deepEqual(selectPlateDestination(p, { now: new Date(MONDAY_NOON_PARIS), seed: 'x' }), {
+      destination: { type: 'tripadvisor', url: TRIPADVISOR_URL },
+      ruleIndex: 0,
+    })
+  })
+
+  it('skips rules that do not match', () => {
+    const p = plate([
+      { kind: 'days_of_week', days: ['sun'], ...tripadvisor },
+      { kind: 'time_window', startTime: '11:30', endTime: '14:30', ...menu },
+    ])
+    assert.equal(selectPlateDestination(p, { now: new Date(MONDAY_NOON_PARIS), seed: 'x' }).ruleIndex, 1)
+  })
+
+  it('falls through a matching rule with an unusable destination', () => {
+    const p = plate([
+      { kind: 'days_of_week', days: ['mon'], destinationType: 'menu', destinationUrl: 'javascript:alert(1)' },
+      { kind: 'days_of_week', days: ['mon'], ...tripadvisor },
+    ])
+    assert.equal(served(p, MONDAY_NOON_PARIS), TRIPADVISOR_URL)
+  })
+
+  it("serves the plate's destination when no rule matches", () => {
+    const p = plate([{ kind: 'days_of_week', days: ['sun'], ...tripadvisor }])
+    assert.deepEqual(selectPlateDestination(p, { now: new Date(MONDAY_NOON_PARIS), seed: 'x' }), {
+      destination: { type: 'google_review', url: REVIEW_URL },
+      ruleIndex: null,
+    })
+  })
+
+  it("serves the plate's destination without rules", () => {
+    assert.equal(served(plate([]), MONDAY_NOON_PARIS), REVIEW_URL)
+    assert.equal(served({ googleReviewUrl: REVIEW_URL }, MONDAY_NOON_PARIS), REVIEW_URL) // legacy plate
+  })
+
+  it('ignores rules of an unknown kind', () => {
+    assert.equal(served(plate([{ kind: 'moon_phase', ...menu }]), MONDAY_NOON_PARIS), REVIEW_URL)
+  })
+})
+
+describe('normalizeDestinationRules', () => {
+  it('normalizes every destination', async () => {
+    const result = await normalizeDestinationRules([
+      {
+        kind: 'time_window',
+        startTime: '11:30',
+        endTime: '14:30',
+        destinationType: 'instagram',
+        destinationUrl: '@chezpaul',
+      },
+      { kind: 'split', variants: [{ weight: 1, ...tripadvisor }, { weight: 1, ...menu }] },
+    ])
+
+    assert.equal(result.ok, true)
+    const rules = result.ok ? result.rules : []
+    assert.equal(rules[0].destinationUrl, 'https://www.instagram.com/chezpaul/')
+    assert.equal(rules[0].startTime, '11:30')
+    assert.equal(rules[1].variants.length, 2)
+    assert.equal(rules[1].variants[1].destinationUrl, MENU_URL)
+  })
+
+  it('accepts no rules', async () => {
+    assert.deepEqual(await normalizeDestinationRules([]), { ok: true, rules: [] })
+  })
+
+  const INVALID: Array<{ name: string; rules: any[]; message: string }> = [
+    {
+      name: 'malformed time',
+      rules: [{ kind: 'time_window', startTime: '11h30', endTime: '14:30', ...menu }],
+      message: 'Rule 1: start and end times must be HH:MM (24h)',
+    },
+    {
+      name: 'missing end time',
+      rules: [{ kind: 'time_window', startTime: '11:30', ...menu }],
+      message: 'Rule 1: start and end times must be HH:MM (24h)',
+    },
+    {
+      name: 'no days',
+      rules: [{ kind: 'days_of_week', days: [], ...menu }],
+      message: 'Rule 1: pick at least one day',
+    },
+    {
+      name: 'single variant',
+      rules: [{ kind: 'split', variants: [{ weight: 1, ...menu }] }],
+      message: 'Rule 1: a split needs at least two variants',
+    },
+    {
+      name: 'non-positive weight',
+      rules: [{ kind: 'split', variants: [{ weight: 1, ...menu }, { weight: 0, ...tripadvisor }] }],
+      message: 'Rule 1: variant weights must be positive numbers',
+    },
+    {
+      name: 'unknown kind',
+      rules: [{ kind: 'moon_phase', ...menu }],
+      message: 'Rule 1: unknown rule kind moon_phase',
+    },
+  ]
+
+  for (const c of INVALID) {
+    it(`rejects: ${c.name}`, async () => {
+      assert.deepEqual(await normalizeDestinationRules(c.rules), { ok: false, message: c.message })
+    })
+  }
+
+  it('rejects an invalid destination with its rule and variant number', async () => {
+    const result = await normalizeDestinationRules([
+      { kind: 'days_of_week', days: ['sat'], ...menu },
+      {
+        kind: 'split',
+        variants: [
+          { weight: 1, ...tripadvisor },
+          { weight: 1, destinationType: 'menu', destinationUrl: 'http://chez-paul.fr/menu.pdf' },
+        ],
+      },
+    ])
+
+    assert.equal(result.ok, false)
+    assert.match(result.ok ? '' : result.message, /^Rule 2, variant 2: invalid menu destination \(/)
+  })
+})
@@ -0,0 +1,211 @@
+import crypto from 'crypto'
+
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '../i18n/formatDate'
+import { normalizeDestination, type Destination } from './normalizeDestination'
+import { destinationToPlateData, plateDestinationInput, readPlateDestination } from './plateDestination'
+
+/**
+ * Ordered destination rules of a plate (`plates.destinationRules`).
+ *
+ * - time_window:  between `startTime` and `endTime` (HH:MM, plate timezone), optionally on some `days` only.
+ *                 `endTime` <= `startTime` crosses midnight: 22:00–02:00 on Friday also covers
+ *                 Saturday 01:00, since `days` refer to the day the window starts
+ * - days_of_week: on the listed `days`
+ * - split:        always matches; picks one of `variants` by `weight`
+ *
+ * The first matching rule wins. When none matches, or the matched
+ * destination is unusable, the plate's own destination is the default.
+ */
+export const DESTINATION_RULE_KINDS = ['time_window', 'days_of_week', 'split'] as const
+
+export type DestinationRuleKind = (typeof DESTINATION_RULE_KINDS)[number]
+
+export const DESTINATION_RULE_KIND_OPTIONS = [
+  { label: { fr: 'Plage horaire', en: 'Time window', de: 'Zeitfenster' }, value: 'time_window' },
+  { label: { fr: 'Jours de la semaine', en: 'Days of the week', de: 'Wochentage' }, value: 'days_of_week' },
+  { label: { fr: 'Répartition A/B', en: 'A/B split', de: 'A/B-Aufteilung' }, value: 'split' },
+]
+
+export const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const
+
+export type Weekday = (typeof WEEKDAYS)[number]
+
+export const WEEKDAY_OPTIONS = [
+  { label: { fr: 'Lundi', en: 'Monday', de: 'Montag' }, value: 'mon' },
+  { label: { fr: 'Mardi', en: 'Tuesday', de: 'Dienstag' }, value: 'tue' },
+  { label: { fr: 'Mercredi', en: 'Wednesday', de: 'Mittwoch' }, value: 'wed' },
+  { label: { fr: 'Jeudi', en: 'Thursday', de: 'Donnerstag' }, value: 'thu' },
+  { label: { fr: 'Vendredi', en: 'Friday', de: 'Freitag' }, value: 'fri' },
+  { label: { fr: 'Samedi', en: 'Saturday', de: 'Samstag' }, value: 'sat' },
+  { label: { fr: 'Dimanche', en: 'Sunday', de: 'Sonntag' }, value: 'sun' },
+]
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/
+
+/**
+ * Minutes since midnight of an `HH:MM` time, or null when malformed.
+ */
+export function parseTimeOfDay(value: unknown): number | null {
+  const match = TIME_PATTERN.exec(String(value ?? '').trim())
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
+/**
+ * Weekday and time of day of an instant, in a timezone.
+ */
+function localClock(now: Date, timeZone: string): { weekday: Weekday; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now)
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? ''
+
+  return {
+    weekday: part('weekday').toLowerCase().slice(0, 3) as Weekday,
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  }
+}
+
+function previousDay(day: Weekday): Weekday {
+  return WEEKDAYS[(WEEKDAYS.indexOf(day) + WEEKDAYS.length - 1) % WEEKDAYS.length]
+}
+
+/**
+ * Rules without days apply every day.
+ */
+function isOnDay(rule: any, day: Weekday): boolean {
+  const days: unknown[] = Array.isArray(rule.days) ? rule.days : []
+  return days.length === 0 || days.includes(day)
+}
+
+function matchesTimeWindow(rule: any, clock: { weekday: Weekday; minutes: number }): boolean {
+  const start = parseTimeOfDay(rule.startTime)
+  const end = parseTimeOfDay(rule.endTime)
+  if (start === null || end === null) return false
+
+  if (start < end) {
+    return clock.minutes >= start && clock.minutes < end && isOnDay(rule, clock.weekday)
+  }
+
+  // Crosses midnight (or lasts 24h when start === end)
+  return (
+    (clock.minutes >= start && isOnDay(rule, clock.weekday)) ||
+    (clock.minutes < end && isOnDay(rule, previousDay(clock.weekday)))
+  )
+}
+
+/**
+ * Picks a split variant from a stable hash of the seed: the same visitor
+ * keeps getting the same variant, and the result is reproducible.
+ */
+function pickVariant(variants: any[], seed: string): any | null {
+  const weighted = variants.filter((v) => Number(v?.weight) > 0)
+  const total = weighted.reduce((sum, v) => sum + Number(v.weight), 0)
+  if (!total) return null
+
+  const hash = crypto.createHash('sha256').update(seed).digest().readUInt32BE(0)
+  let point = (hash / 0x100000000) * total
+  for (const variant of weighted) {
+    point -= Number(variant.weight)
+    if (point < 0) return variant
+  }
+  return weighted[weighted.length - 1]
+}
+
+export type DestinationSelection = {
+  destination: Destination | null
+  /** Index of the rule that served the destination, null for the plate's own destination. */
+  ruleIndex: number | null
+}
+
+/**
+ * Destination to serve for a plate at `now`.
+ *
+ * Pure and deterministic: the clock and the split seed are inputs
+ * (`/p/:slug` passes the visitor's salted IP hash and the slug).
+ */
+export function selectPlateDestination(plate: any, opts: { now: Date; seed: string }): DestinationSelection {
+  const rules: any[] = Array.isArray(plate?.destinationRules) ? plate.destinationRules : []
+  const timeZone = plate?.timeZone && isValidTimeZone(plate.timeZone) ? plate.timeZone : DEFAULT_TIME_ZONE
+  const clock = localClock(opts.now, timeZone)
+
+  for (const [index, rule] of rules.entries()) {
+    let source: any = null
+
+    switch (rule?.kind) {
+      case 'time_window':
+        if (matchesTimeWindow(rule, clock)) source = rule
+        break
+      case 'days_of_week':
+        if (Array.isArray(rule.days) && rule.days.includes(clock.weekday)) source = rule
+        break
+      case 'split':
+        source = pickVariant(Array.isArray(rule.variants) ? rule.variants : [], `${opts.seed}|${index}`)
+        break
+    }
+
+    // An unusable destination falls through to the next rule
+    const destination = source ? readPlateDestination(source) : null
+    if (destination) return { destination, ruleIndex: index }
+  }
+
+  return { destination: readPlateDestination(plate), ruleIndex: null }
+}
+
+/**
+ * Kind-specific settings of a rule, or a description of the problem.
+ */
+function checkRuleSettings(rule: any): string | null {
+  switch (rule?.kind) {
+    case 'time_window':
+      return parseTimeOfDay(rule.startTime) === null || parseTimeOfDay(rule.endTime) === null
+        ? 'start and end times must be HH:MM (24h)'
+        : null
+    case 'days_of_week':
+      return Array.isArray(rule.days) && rule.days.length ? null : 'pick at least one day'
+    case 'split': {
+      const variants: any[] = Array.isArray(rule.variants) ? rule.variants : []
+      if (variants.length < 2) return 'a split needs at least two variants'
+      return variants.every((v) => Number(v?.weight) > 0) ? null : 'variant weights must be positive numbers'
+    }
+    default:
+      return `unknown rule kind ${rule?.kind}`
+  }
+}
+
+/**
+ * Validates rules on write: kind-specific settings, then every destination
+ * with the same per-type rules as the plate's own destination (normalized in place).
+ *
+ * Returns the first problem, with a 1-based rule number for the admin.
+ */
+export async function normalizeDestinationRules(
+  rules: any[],
+): Promise<{ ok: true; rules: any[] } | { ok: false; message: string }> {
+  const normalized: any[] = []
+
+  for (const [index, rule] of rules.entries()) {
+    const where = `Rule ${index + 1}`
+    const problem = checkRuleSettings(rule)
+    if (problem) return { ok: false, message: `${where}: ${problem}` }
+
+    // Split variants hold the destinations; other kinds hold one themselves
+    const rows: any[] = rule.kind === 'split' ? rule.variants : [rule]
+    const normalizedRows: any[] = []
+    for (const [i, row] of rows.entries()) {
+      const result = await normalizeDestination(plateDestinationInput(row))
+      if (!result.ok) {
+        const label = rule.kind === 'split' ? `${where}, variant ${i + 1}` : where
+        return { ok: false, message: `${label}: invalid ${row?.destinationType} destination (${result.message})` }
+      }
+      normalizedRows.push({ ...row, ...destinationToPlateData(result.destination) })
+    }
+
+    normalized.push(rule.kind === 'split' ? { ...rule, variants: normalizedRows } : normalizedRows[0])
+  }
+
+  return { ok: true, rules: normalized }
+}
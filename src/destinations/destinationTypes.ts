@@ -0,0 +1,86 @@
+/**
+ * What a plate opens when tapped.
+ *
+ * - google_review: Google "write a review" page (historical and default type)
+ * - tripadvisor:   TripAdvisor listing / review page
+ * - trustpilot:    Trustpilot "write a review" page
+ * - instagram:     Instagram profile
+ * - menu:          hosted menu, usually a PDF
+ * - wifi:          Wi-Fi credentials, shown on a join page (nothing to redirect to)
+ */
+export const DESTINATION_TYPES = ['google_review', 'tripadvisor', 'trustpilot', 'instagram', 'menu', 'wifi'] as const
+
+export type DestinationType = (typeof DESTINATION_TYPES)[number]
+
+/**
+ * Plates created before destination types existed are Google review plates.
+ */
+export const DEFAULT_DESTINATION_TYPE: DestinationType = 'google_review'
+
+/**
+ * Types whose destination is a single URL stored in `plates.destinationUrl`
+ * (Google reviews keep their historical `googleReviewUrl` field).
+ */
+export const URL_DESTINATION_TYPES: readonly DestinationType[] = ['tripadvisor', 'trustpilot', 'instagram', 'menu']
+
+export const DESTINATION_TYPE_LABELS: Record<DestinationType, { fr: string; en: string; de: string }> = {
+  google_review: { fr: 'Avis Google', en: 'Google review', de: 'Google-Bewertung' },
+  tripadvisor: { fr: 'Avis TripAdvisor', en: 'TripAdvisor review', de: 'TripAdvisor-Bewertung' },
+  trustpilot: { fr: 'Avis Trustpilot', en: 'Trustpilot review', de: 'Trustpilot-Bewertung' },
+  instagram: { fr: 'Profil Instagram', en: 'Instagram profile', de: 'Instagram-Profil' },
+  menu: { fr: 'Menu (PDF)', en: 'Menu (PDF)', de: 'Speisekarte (PDF)' },
+  wifi: { fr: 'Wi-Fi', en: 'Wi-Fi', de: 'WLAN' },
+}
+
+/**
+ * Options for `select` fields storing a destination type.
+ */
+export const DESTINATION_TYPE_OPTIONS = DESTINATION_TYPES.map((type) => ({
+  label: DESTINATION_TYPE_LABELS[type],
+  value: type,
+}))
+
+/**
+ * Spellings accepted in the Shopify `destination_type` line item property,
+ * on top of the canonical values (themes and product forms vary).
+ */
+const ALIASES: Record<string, DestinationType> = {
+  google: 'google_review',
+  google_reviews: 'google_review',
+  trip_advisor: 'tripadvisor',
+  insta: 'instagram',
+  menu_pdf: 'menu',
+  pdf: 'menu',
+  wi_fi: 'wifi',
+  wlan: 'wifi',
+}
+
+export function isDestinationType(value: unknown): value is DestinationType {
+  return typeof value === 'string' && (DESTINATION_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Reads a destination type written by a human (`Wi-Fi`, `TripAdvisor`, `menu pdf`...).
+ * Returns null when the value matches no type.
+ */
+export function toDestinationType(value: unknown): DestinationType | null {
+  const key = String(value ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_')
+  if (isDestinationType(key)) return key
+  return ALIASES[key] ?? null
+}
+
+/**
+ * Wi-Fi security, as written in `WIFI:` QR payloads (`nopass` = open network).
+ */
+export const WIFI_SECURITY_TYPES = ['WPA', 'WEP', 'nopass'] as const
+
+export type WifiSecurity = (typeof WIFI_SECURITY_TYPES)[number]
+
+export const WIFI_SECURITY_OPTIONS = [
+  { label: 'WPA / WPA2 / WPA3', value: 'WPA' },
+  { label: 'WEP', value: 'WEP' },
+  { label: { fr: 'Aucune (réseau ouvert)', en: 'None (open network)', de: 'Keine (offenes Netz)' }, value: 'nopass' },
+]
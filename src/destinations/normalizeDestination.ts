@@ -0,0 +1,286 @@
+import {
+  normalizeGoogleReviewLink,
+  type GoogleReviewLinkErrorCode,
+  type ShortLinkResolver,
+} from '../utils/normalizeGoogleReviewLink'
+import { toDestinationType, type DestinationType, type WifiSecurity } from './destinationTypes'
+
+/**
+ * Validates and normalizes a plate destination, per destination type.
+ *
+ * Canonical outputs:
+ * - google_review: see `normalizeGoogleReviewLink`
+ * - tripadvisor:   https://www.tripadvisor.{tld}/{path} (query and fragment dropped)
+ * - trustpilot:    https://www.trustpilot.com/evaluate/{domain} (the write-a-review form)
+ * - instagram:     https://www.instagram.com/{handle}/ (from a URL, `@handle` or `handle`)
+ * - menu:          any https URL (hosted PDF, online menu)
+ * - wifi:          `{ ssid, password, security, hidden }`, checked against 802.11 limits
+ *
+ * Like the Google normalizer, rejected inputs return a typed error (never throw).
+ */
+
+export type WifiConfig = {
+  ssid: string
+  password: string | null
+  security: WifiSecurity
+  hidden: boolean
+}
+
+export type Destination =
+  | { type: Exclude<DestinationType, 'wifi'>; url: string }
+  | { type: 'wifi'; wifi: WifiConfig }
+
+/**
+ * Raw destination, as entered in Shopify, the portal or the admin.
+ * `type` is free text until validated.
+ */
+export type DestinationInput = {
+  type: string | null | undefined
+  url?: string | null
+  wifi?: {
+    ssid?: string | null
+    password?: string | null
+    security?: string | null
+    hidden?: boolean | string | null
+  } | null
+}
+
+export type DestinationErrorCode =
+  | GoogleReviewLinkErrorCode
+  | 'UNKNOWN_TYPE'
+  | 'INVALID_PATH'
+  | 'INVALID_HANDLE'
+  | 'INVALID_SSID'
+  | 'INVALID_SECURITY'
+  | 'INVALID_PASSWORD'
+
+type DestinationError = { ok: false; code: DestinationErrorCode; message: string }
+
+export type DestinationResult = { ok: true; destination: Destination } | DestinationError
+
+function fail(code: DestinationErrorCode, message: string): DestinationError {
+  return { ok: false, code, message }
+}
+
+/**
+ * Same leniency as the Google normalizer: customers often paste links without the protocol.
+ */
+function parseUrl(input: string | null | undefined): URL | null | 'EMPTY' {
+  const trimmed = String(input ?? '').trim()
+  if (!trimmed) return 'EMPTY'
+  const withProtocol = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+  try {
+    return new URL(withProtocol)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parses a URL and checks its protocol and host.
+ */
+function parseWebUrl(
+  input: string | null | undefined,
+  opts: { host?: RegExp; httpsOnly?: boolean } = {},
+): URL | DestinationError {
+  const u = parseUrl(input)
+  if (u === 'EMPTY') return fail('EMPTY', 'No URL provided')
+  if (!u) return fail('INVALID_URL', 'Not a valid URL')
+
+  const allowed = opts.httpsOnly ? ['https:'] : ['https:', 'http:']
+  if (!allowed.includes(u.protocol)) {
+    return fail('UNSUPPORTED_PROTOCOL', `Unsupported protocol: ${u.protocol}`)
+  }
+  if (opts.host && !opts.host.test(u.hostname.toLowerCase())) {
+    return fail('UNSUPPORTED_HOST', `Unsupported host: ${u.hostname}`)
+  }
+  return u
+}
+
+/* ------------------------------------------------------------------ */
+/* URL TYPES                                                           */
+/* ------------------------------------------------------------------ */
+
+/**
+ * `tripadvisor.com`, `tripadvisor.fr`, `www.tripadvisor.co.uk`, `fr.tripadvisor.ch`...
+ */
+const TRIPADVISOR_HOST_PATTERN = /^(?:www\.|[a-z]{2}\.)?tripadvisor\.(?:[a-z]{2,3}|co\.[a-z]{2}|com\.[a-z]{2})$/
+
+function normalizeTripadvisor(input: string | null | undefined): DestinationResult {
+  const u = parseWebUrl(input, { host: TRIPADVISOR_HOST_PATTERN })
+  if (!(u instanceof URL)) return u
+
+  // Listing pages look like /Restaurant_Review-g187147-d1234567-Reviews-Name.html
+  if (u.pathname === '/' || !/-d\d+/.test(u.pathname)) {
+    return fail('INVALID_PATH', 'TripAdvisor URL does not point to a listing (expected a …-d123456-… page)')
+  }
+
+  const host = u.hostname.toLowerCase().replace(/^[a-z]{2}\./, 'www.')
+  const canonicalHost = host.startsWith('www.') ? host : `www.${host}`
+  return { ok: true, destination: { type: 'tripadvisor', url: `https://${canonicalHost}${u.pathname}` } }
+}
+
+const TRUSTPILOT_HOST_PATTERN = /^(?:www\.|[a-z]{2}\.)?trustpilot\.com$/
+
+/**
+ * Reviewed domains, as they appear in Trustpilot URLs (`example.com`, `shop.example.fr`).
+ */
+const DOMAIN_PATTERN = /^(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,}$/
+
+function normalizeTrustpilot(input: string | null | undefined): DestinationResult {
+  const u = parseWebUrl(input, { host: TRUSTPILOT_HOST_PATTERN })
+  if (!(u instanceof URL)) return u
+
+  // /review/{domain} (company page) or /evaluate/{domain} (review form)
+  const [section, domain] = u.pathname.split('/').filter(Boolean)
+  const normalizedDomain = String(domain ?? '').toLowerCase()
+  if ((section !== 'review' && section !== 'evaluate') || !DOMAIN_PATTERN.test(normalizedDomain)) {
+    return fail('INVALID_PATH', 'Trustpilot URL does not point to a company (expected /review/{domain})')
+  }
+
+  return {
+    ok: true,
+    destination: { type: 'trustpilot', url: `https://www.trustpilot.com/evaluate/${normalizedDomain}` },
+  }
+}
+
+const INSTAGRAM_HOST_PATTERN = /^(?:www\.|m\.)?instagram\.com$|^instagr\.am$/
+
+/**
+ * Instagram usernames: letters, digits, periods and underscores, 30 characters at most.
+ */
+const INSTAGRAM_HANDLE_PATTERN = /^(?!\.)(?!.*\.\.)[a-z0-9._]{1,30}(?<!\.)$/
+
+/**
+ * Paths that are Instagram pages, not profiles.
+ */
+const INSTAGRAM_RESERVED_PATHS = new Set(['p', 'reel', 'reels', 'stories', 'explore', 'accounts', 'direct', 'tv'])
+
+function normalizeInstagram(input: string | null | undefined): DestinationResult {
+  const raw = String(input ?? '').trim()
+  if (!raw) return fail('EMPTY', 'No Instagram profile provided')
+
+  let handle: string
+  if (raw.startsWith('@') || !(raw.includes('/') || /instagram\.com|instagr\.am/i.test(raw))) {
+    // `@handle` or a bare handle (which may contain periods, like a domain)
+    handle = raw.replace(/^@/, '')
+  } else {
+    const u = parseWebUrl(raw, { host: INSTAGRAM_HOST_PATTERN })
+    if (!(u instanceof URL)) return u
+    handle = u.pathname.split('/').filter(Boolean)[0] ?? ''
+    if (INSTAGRAM_RESERVED_PATHS.has(handle.toLowerCase())) {
+      return fail('INVALID_PATH', 'Instagram URL does not point to a profile')
+    }
+  }
+
+  handle = handle.toLowerCase()
+  if (!INSTAGRAM_HANDLE_PATTERN.test(handle)) {
+    return fail('INVALID_HANDLE', 'Not a valid Instagram username')
+  }
+
+  return { ok: true, destination: { type: 'instagram', url: `https://www.instagram.com/${handle}/` } }
+}
+
+/**
+ * Menus are hosted anywhere (own website, Google Drive, Dropbox...), so any
+ * host is accepted. https only: phones warn on or block plain http downloads.
+ */
+function normalizeMenu(input: string | null | undefined): DestinationResult {
+  const u = parseWebUrl(input, { httpsOnly: true })
+  if (!(u instanceof URL)) return u
+  u.hash = ''
+  return { ok: true, destination: { type: 'menu', url: u.toString() } }
+}
+
+/* ------------------------------------------------------------------ */
+/* WI-FI                                                               */
+/* ------------------------------------------------------------------ */
+
+function isTruthy(value: unknown): boolean {
+  return value === true || ['true', '1', 'yes', 'oui', 'ja'].includes(String(value ?? '').trim().toLowerCase())
+}
+
+function toWifiSecurity(value: unknown): WifiSecurity | null {
+  const key = String(value ?? '')
+    .trim()
+    .toUpperCase()
+  if (!key || key.startsWith('WPA') || key === 'SAE') return 'WPA'
+  if (key === 'WEP') return 'WEP'
+  if (key === 'NOPASS' || key === 'NONE' || key === 'OPEN') return 'nopass'
+  return null
+}
+
+/**
+ * 802.11 limits: SSIDs are 1–32 bytes, WPA passphrases 8–63 printable ASCII
+ * characters (or a 64 hex digit key), WEP keys 5 / 13 characters or 10 / 26 hex digits.
+ */
+function normalizeWifi(input: DestinationInput['wifi']): DestinationResult {
+  const ssid = String(input?.ssid ?? '')
+  if (!ssid.trim()) return fail('INVALID_SSID', 'No network name (SSID) provided')
+  if (new TextEncoder().encode(ssid).length > 32) {
+    return fail('INVALID_SSID', 'Network name (SSID) is longer than 32 bytes')
+  }
+
+  const security = toWifiSecurity(input?.security)
+  if (!security) return fail('INVALID_SECURITY', `Unsupported Wi-Fi security: ${input?.security}`)
+
+  const password = String(input?.password ?? '')
+  const hidden = isTruthy(input?.hidden)
+
+  if (security === 'nopass') {
+    return { ok: true, destination: { type: 'wifi', wifi: { ssid, password: null, security, hidden } } }
+  }
+
+  const validPassword =
+    security === 'WPA'
+      ? /^[\x20-\x7e]{8,63}$/.test(password) || /^[0-9a-f]{64}$/i.test(password)
+      : /^(?:[\x20-\x7e]{5}|[\x20-\x7e]{13}|[0-9a-f]{10}|[0-9a-f]{26})$/i.test(password)
+  if (!validPassword) {
+    return fail(
+      'INVALID_PASSWORD',
+      security === 'WPA'
+        ? 'WPA password must be 8 to 63 characters'
+        : 'WEP key must be 5 or 13 characters (or 10 / 26 hex digits)',
+    )
+  }
+
+  return { ok: true, destination: { type: 'wifi', wifi: { ssid, password, security, hidden } } }
+}
+
+/* ------------------------------------------------------------------ */
+/* ENTRY POINT                                                         */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Validates a destination of any type.
+ *
+ * Only Google reviews may need the network (share links): the resolver is
+ * injectable, as in `normalizeGoogleReviewLink`.
+ */
+export async function normalizeDestination(
+  input: DestinationInput,
+  opts: { resolveShortLink?: ShortLinkResolver } = {},
+): Promise<DestinationResult> {
+  const type = toDestinationType(input.type)
+
+  switch (type) {
+    case 'google_review': {
+      const normalized = await normalizeGoogleReviewLink(input.url, opts)
+      return normalized.ok
+        ? { ok: true, destination: { type, url: normalized.url } }
+        : fail(normalized.code, normalized.message)
+    }
+    case 'tripadvisor':
+      return normalizeTripadvisor(input.url)
+    case 'trustpilot':
+      return normalizeTrustpilot(input.url)
+    case 'instagram':
+      return normalizeInstagram(input.url)
+    case 'menu':
+      return normalizeMenu(input.url)
+    case 'wifi':
+      return normalizeWifi(input.wifi)
+    default:
+      return fail('UNKNOWN_TYPE', `Unknown destination type: ${input.type}`)
+  }
+}
@@ -0,0 +1,133 @@
+import crypto from 'crypto'
+
+import { DEFAULT_DESTINATION_TYPE, toDestinationType } from './destinationTypes'
+import type { Destination, DestinationInput, WifiConfig } from './normalizeDestination'
+
+/**
+ * Mapping between the typed destination model and the plate fields.
+ *
+ * Storage (see the plates collection):
+ * - `destinationType`: the type (empty on legacy plates = Google review)
+ * - `googleReviewUrl`: Google review URL (historical field, kept as is)
+ * - `destinationUrl`:  URL of the other URL types
+ * - `wifi`:            `{ ssid, password, security, hidden }`
+ *
+ * Fields of the other types are cleared on every write, so a plate never
+ * holds a stale destination that a type switch could bring back.
+ */
+export function destinationToPlateData(destination: Destination) {
+  return {
+    destinationType: destination.type,
+    googleReviewUrl: destination.type === 'google_review' ? destination.url : null,
+    destinationUrl: destination.type !== 'google_review' && destination.type !== 'wifi' ? destination.url : null,
+    wifi:
+      destination.type === 'wifi'
+        ? destination.wifi
+        : { ssid: null, password: null, security: null, hidden: false },
+  }
+}
+
+/**
+ * Raw destination of a stored plate, e.g. to validate an update merged with it.
+ */
+export function plateDestinationInput(plate: any): DestinationInput {
+  const type = plate?.destinationType || DEFAULT_DESTINATION_TYPE
+  return {
+    type,
+    url: type === DEFAULT_DESTINATION_TYPE ? plate?.googleReviewUrl : plate?.destinationUrl,
+    wifi: plate?.wifi ?? null,
+  }
+}
+
+/**
+ * Only absolute http(s) URLs are redirected to.
+ * Anything else stored on a plate (manual admin typo, legacy data) is treated
+ * as unusable rather than turned into an open redirect.
+ */
+function isRedirectableUrl(value: unknown): value is string {
+  if (typeof value !== 'string' || !value.trim()) return false
+  try {
+    const u = new URL(value.trim())
+    return u.protocol === 'https:' || u.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Destination served by `/p/:slug`, or null when the plate has no usable one.
+ *
+ * Stored values were validated on write; this only guards against data that
+ * bypassed validation (legacy rows, direct database edits).
+ */
+export function readPlateDestination(plate: any): Destination | null {
+  const type = toDestinationType(plate?.destinationType || DEFAULT_DESTINATION_TYPE)
+
+  if (type === 'google_review') {
+    return isRedirectableUrl(plate.googleReviewUrl) ? { type, url: plate.googleReviewUrl.trim() } : null
+  }
+
+  if (type === 'tripadvisor' || type === 'trustpilot' || type === 'instagram' || type === 'menu') {
+    return isRedirectableUrl(plate.destinationUrl) ? { type, url: plate.destinationUrl.trim() } : null
+  }
+
+  if (type === 'wifi' && typeof plate.wifi?.ssid === 'string' && plate.wifi.ssid) {
+    const wifi: WifiConfig = {
+      ssid: plate.wifi.ssid,
+      password: plate.wifi.password || null,
+      security: plate.wifi.security === 'WEP' || plate.wifi.security === 'nopass' ? plate.wifi.security : 'WPA',
+      hidden: Boolean(plate.wifi.hidden),
+    }
+    return { type, wifi }
+  }
+
+  return null
+}
+
+/**
+ * Stable fingerprint of a raw destination from Shopify, stored in
+ * `plates.sourceDestination` to detect a changed line item property.
+ *
+ * A plain Google review link is stored as-is: it reads well in the admin.
+ * A Wi-Fi password is only kept as a keyed digest: the fingerprint is shown
+ * in the admin, and a changed password must still count as a change.
+ */
+export function describeDestinationSource(input: DestinationInput): string {
+  const type = toDestinationType(input.type) ?? String(input.type ?? '')
+  if (type === 'google_review') return String(input.url ?? '')
+  if (type === 'wifi') {
+    const wifi = input.wifi ?? {}
+    const fields = {
+      ssid: wifi.ssid ?? '',
+      password: wifi.password ? digestWifiPassword(wifi.password) : '',
+      security: wifi.security ?? '',
+      hidden: String(wifi.hidden ?? ''),
+    }
+    return `wifi:${JSON.stringify(fields)}`
+  }
+  return `${type}:${input.url ?? ''}`
+}
+
+/**
+ * Wi-Fi fingerprint written before passwords were digested
+ * (`wifi:["ssid","password",...]`, password in clear).
+ *
+ * Treated like a missing fingerprint: replaced by the current one on the next
+ * order update, without touching the destination.
+ */
+export function isLegacyDestinationSource(value: string | null | undefined): boolean {
+  return typeof value === 'string' && value.startsWith('wifi:[')
+}
+
+/**
+ * HMAC SHA-256 of a Wi-Fi password, keyed with `PAYLOAD_SECRET`: a short
+ * password cannot be brute-forced back from the digest (same reasoning as `hashIp`).
+ */
+function digestWifiPassword(password: string): string {
+  const secret = process.env.PAYLOAD_SECRET
+  if (!secret) {
+    throw new Error('PAYLOAD_SECRET missing')
+  }
+
+  return `hmac:${crypto.createHmac('sha256', secret).update(password, 'utf8').digest('hex').slice(0, 32)}`
+}
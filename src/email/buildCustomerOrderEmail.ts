@@ -0,0 +1,134 @@
+import { DEFAULT_LOCALE, type Locale } from "../i18n/locales";
+import { escapeHtml } from "../utils/escapeHtml";
+
+const MESSAGES: Record<
+  Locale,
+  {
+    subject: (orderNumber: string) => string;
+    attachmentPrefix: string;
+    title: string;
+    orderLine: (orderNumber: string) => string;
+    intro: (count: string) => string;
+    portal: (link: (text: string) => string) => string;
+  }
+> = {
+  fr: {
+    subject: (n) => `Vos plaques NFC — Commande ${n}`,
+    attachmentPrefix: "plaque",
+    title: "Vos plaques NFC sont en préparation",
+    orderLine: (n) => `Commande ${n}`,
+    intro: (count) => `
+          Merci pour votre commande ! Voici le lien de chacune de vos plaques (${count}).
+          Dès réception, vos clients arriveront directement sur la destination choisie (page d'avis, menu,
+          Wi-Fi…) en approchant leur téléphone de la plaque ou en scannant le QR code.`,
+    portal: (link) => `
+          Vous pouvez modifier le lien de destination de vos plaques à tout moment depuis
+          ${link("votre espace client")}.`,
+  },
+  en: {
+    subject: (n) => `Your NFC plates — Order ${n}`,
+    attachmentPrefix: "plate",
+    title: "Your NFC plates are being prepared",
+    orderLine: (n) => `Order ${n}`,
+    intro: (count) => `
+          Thank you for your order! Here is the link of each of your plates (${count}).
+          Once they arrive, your customers will land directly on the destination you chose (review page, menu,
+          Wi-Fi…) by holding their phone near the plate or by scanning the QR code.`,
+    portal: (link) => `
+          You can change the destination link of your plates at any time from
+          ${link("your customer area")}.`,
+  },
+  de: {
+    subject: (n) => `Ihre NFC-Schilder — Bestellung ${n}`,
+    attachmentPrefix: "schild",
+    title: "Ihre NFC-Schilder werden vorbereitet",
+    orderLine: (n) => `Bestellung ${n}`,
+    intro: (count) => `
+          Vielen Dank für Ihre Bestellung! Hier ist der Link zu jedem Ihrer Schilder (${count}).
+          Nach Erhalt gelangen Ihre Kunden direkt zum gewählten Ziel (Bewertungsseite, Speisekarte,
+          WLAN…), indem sie ihr Smartphone an das Schild halten oder den QR-Code scannen.`,
+    portal: (link) => `
+          Sie können den Ziel-Link Ihrer Schilder jederzeit in
+          ${link("Ihrem Kundenbereich")} ändern.`,
+  },
+};
+
+export function buildCustomerOrderEmailSubject(params: { orderNumber: string; locale?: Locale }) {
+  return MESSAGES[params.locale ?? DEFAULT_LOCALE].subject(params.orderNumber);
+}
+
+/**
+ * File name of the QR code attachment of a plate (e.g. `plaque-<slug>.png`).
+ */
+export function buildCustomerOrderQrFilename(params: { slug: string; locale?: Locale }) {
+  return `${MESSAGES[params.locale ?? DEFAULT_LOCALE].attachmentPrefix}-${params.slug}.png`;
+}
+
+/**
+ * Order confirmation email sent to the customer.
+ *
+ * Lists every plate with its public URL and a QR code. QR images are
+ * inline attachments referenced by `cid:` (many mail clients block
+ * `data:` images).
+ *
+ * Written in the language of the Shopify order (`orders.customerLocale`).
+ */
+export function buildCustomerOrderEmailHtml(params: {
+  orderNumber: string;
+  plates: Array<{ slug: string; publicUrl: string; qrCid: string }>;
+  portalUrl?: string;
+  locale?: Locale;
+}) {
+  const { orderNumber, plates, portalUrl } = params;
+  const t = MESSAGES[params.locale ?? DEFAULT_LOCALE];
+
+  const rows = plates
+    .map(
+      (p, idx) => `
+        <tr>
+          <td style="padding:12px 10px; border-bottom:1px solid #eee; font-family: Arial, sans-serif; font-size:14px; color:#111; vertical-align:middle;">
+            ${idx + 1}
+          </td>
+          <td style="padding:12px 10px; border-bottom:1px solid #eee; font-family: Arial, sans-serif; font-size:14px; vertical-align:middle;">
+            <span>ID : ${escapeHtml(p.slug)}</span><br/>
+            <a href="${escapeHtml(p.publicUrl)}" style="color:#0b57d0; text-decoration:none;">${escapeHtml(p.publicUrl)}</a>
+          </td>
+          <td style="padding:12px 10px; border-bottom:1px solid #eee; vertical-align:middle;" align="right">
+            <img src="cid:${escapeHtml(p.qrCid)}" width="120" height="120" alt="QR code ${escapeHtml(p.slug)}" style="display:block;" />
+          </td>
+        </tr>
+      `
+    )
+    .join("");
+
+  const portalBlock = portalUrl
+    ? `
+        <p style="margin:16px 0 0; font-size:13px; color:#444; line-height:1.5;">${t.portal(
+          (text) => `<a href="${escapeHtml(portalUrl)}" style="color:#0b57d0; text-decoration:none;">${escapeHtml(text)}</a>`
+        )}
+        </p>`
+    : "";
+
+  return `
+  <div style="background:#f6f7f9; padding:24px;">
+    <div style="max-width:640px; margin:0 auto; background:#ffffff; border-radius:12px; overflow:hidden; border:1px solid #e9e9e9;">
+      <div style="padding:18px 22px; background:#111827; color:#ffffff; font-family: Arial, sans-serif;">
+        <div style="font-size:16px; font-weight:700;">${escapeHtml(t.title)}</div>
+        <div style="font-size:13px; opacity:.85; margin-top:4px;">${escapeHtml(t.orderLine(orderNumber))}</div>
+      </div>
+
+      <div style="padding:18px 22px; font-family: Arial, sans-serif;">
+        <p style="margin:0 0 10px; font-size:14px; color:#111;">${t.intro(`<strong>${plates.length}</strong>`)}
+        </p>
+
+        <table width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse; margin-top:10px;">
+          <tbody>
+            ${rows}
+          </tbody>
+        </table>
+        ${portalBlock}
+      </div>
+    </div>
+  </div>
+  `;
+}
@@ -0,0 +1,85 @@
+import { DEFAULT_LOCALE, type Locale } from "../i18n/locales";
+import { escapeHtml } from "../utils/escapeHtml";
+
+const MESSAGES: Record<
+  Locale,
+  {
+    subject: string;
+    title: string;
+    intro: string;
+    button: string;
+    expiry: (minutes: number) => string;
+  }
+> = {
+  fr: {
+    subject: "Votre lien de connexion — Plaques NFC",
+    title: "Connexion à votre espace plaques NFC",
+    intro: "Cliquez sur le bouton ci-dessous pour gérer vos plaques NFC (lien de destination, suivi).",
+    button: "Accéder à mes plaques",
+    expiry: (m) => `
+          Ce lien est valable ${m} minutes et ne peut être utilisé qu'une seule fois.
+          Si vous n'êtes pas à l'origine de cette demande, ignorez simplement cet email.`,
+  },
+  en: {
+    subject: "Your sign-in link — NFC plates",
+    title: "Sign in to your NFC plates area",
+    intro: "Click the button below to manage your NFC plates (destination link, tracking).",
+    button: "Go to my plates",
+    expiry: (m) => `
+          This link is valid for ${m} minutes and can only be used once.
+          If you did not request it, simply ignore this email.`,
+  },
+  de: {
+    subject: "Ihr Anmeldelink — NFC-Schilder",
+    title: "Anmeldung in Ihrem NFC-Schilder-Bereich",
+    intro: "Klicken Sie auf die Schaltfläche unten, um Ihre NFC-Schilder zu verwalten (Ziel-Link, Sendungsverfolgung).",
+    button: "Zu meinen Schildern",
+    expiry: (m) => `
+          Dieser Link ist ${m} Minuten gültig und kann nur einmal verwendet werden.
+          Wenn Sie ihn nicht angefordert haben, ignorieren Sie diese E-Mail einfach.`,
+  },
+};
+
+export function buildMagicLinkEmailSubject(params: { locale?: Locale } = {}) {
+  return MESSAGES[params.locale ?? DEFAULT_LOCALE].subject;
+}
+
+/**
+ * Login email for the customer portal.
+ *
+ * The link opens a confirmation page (it does not log in on GET),
+ * so mail scanners prefetching links cannot consume the token.
+ */
+export function buildMagicLinkEmailHtml(params: {
+  loginUrl: string;
+  expiresInMinutes: number;
+  locale?: Locale;
+}) {
+  const { loginUrl, expiresInMinutes } = params;
+  const t = MESSAGES[params.locale ?? DEFAULT_LOCALE];
+
+  return `
+  <div style="background:#f6f7f9; padding:24px;">
+    <div style="max-width:560px; margin:0 auto; background:#ffffff; border-radius:12px; overflow:hidden; border:1px solid #e9e9e9;">
+      <div style="padding:18px 22px; background:#111827; color:#ffffff; font-family: Arial, sans-serif;">
+        <div style="font-size:16px; font-weight:700;">${escapeHtml(t.title)}</div>
+      </div>
+
+      <div style="padding:18px 22px; font-family: Arial, sans-serif;">
+        <p style="margin:0 0 14px; font-size:14px; color:#111;">
+          ${escapeHtml(t.intro)}
+        </p>
+
+        <p style="margin:18px 0;">
+          <a href="${escapeHtml(loginUrl)}" style="display:inline-block; padding:12px 18px; background:#0b57d0; color:#ffffff; border-radius:8px; text-decoration:none; font-size:14px; font-weight:700;">
+            ${escapeHtml(t.button)}
+          </a>
+        </p>
+
+        <p style="margin:16px 0 0; font-size:12px; color:#666; line-height:1.4;">${escapeHtml(t.expiry(expiresInMinutes))}
+        </p>
+      </div>
+    </div>
+  </div>
+  `;
+}
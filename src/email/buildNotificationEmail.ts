@@ -1,22 +1,83 @@
-function escapeHtml(str: string) {
-  return str
-    .replaceAll("&", "&amp;")
-    .replaceAll("<", "&lt;")
-    .replaceAll(">", "&gt;")
-    .replaceAll('"', "&quot;")
-    .replaceAll("'", "&#039;");
+import { DESTINATION_TYPE_LABELS, isDestinationType } from "../destinations/destinationTypes";
+import { DEFAULT_RECIPIENT_PREFERENCES, formatDateTime, type RecipientPreferences } from "../i18n/formatDate";
+import type { Locale } from "../i18n/locales";
+import { escapeHtml } from "../utils/escapeHtml";
+
+const MESSAGES: Record<
+  Locale,
+  {
+    subject: (orderNumber: string) => string;
+    title: string;
+    orderLine: (orderNumber: string, date: string) => string;
+    intro: (count: string) => string;
+    order: string;
+    customer: string;
+    plateCount: string;
+    plateColumn: string;
+    linkColumn: string;
+    retryNote: string;
+  }
+> = {
+  fr: {
+    subject: (n) => `Nouvelles plaques NFC — Commande ${n}`,
+    title: "Nouvelles plaques NFC à configurer",
+    orderLine: (n, date) => `Commande ${n} • ${date}`,
+    intro: (count) => `De nouvelle(s) plaque(s) (${count}) ont été générée(s) suite à un paiement Shopify.`,
+    order: "Commande :",
+    customer: "Client :",
+    plateCount: "Nombre de plaques :",
+    plateColumn: "Plaque",
+    linkColumn: "Lien",
+    retryNote:
+      "Si vous recevez ce message plusieurs fois, cela peut être dû à un retry Shopify — le système reste safe (aucune plaque n'a été dupliquée).",
+  },
+  en: {
+    subject: (n) => `New NFC plates — Order ${n}`,
+    title: "New NFC plates to configure",
+    orderLine: (n, date) => `Order ${n} • ${date}`,
+    intro: (count) => `New plate(s) (${count}) were generated following a Shopify payment.`,
+    order: "Order:",
+    customer: "Customer:",
+    plateCount: "Number of plates:",
+    plateColumn: "Plate",
+    linkColumn: "Link",
+    retryNote:
+      "If you receive this message more than once, it may be due to a Shopify retry — the system stays safe (no plate was duplicated).",
+  },
+  de: {
+    subject: (n) => `Neue NFC-Schilder — Bestellung ${n}`,
+    title: "Neue NFC-Schilder zum Konfigurieren",
+    orderLine: (n, date) => `Bestellung ${n} • ${date}`,
+    intro: (count) => `Nach einer Shopify-Zahlung wurden neue Schilder (${count}) erstellt.`,
+    order: "Bestellung:",
+    customer: "Kunde:",
+    plateCount: "Anzahl Schilder:",
+    plateColumn: "Schild",
+    linkColumn: "Link",
+    retryNote:
+      "Wenn Sie diese Nachricht mehrfach erhalten, liegt das vermutlich an einer erneuten Zustellung durch Shopify — das System bleibt sicher (kein Schild wurde doppelt erstellt).",
+  },
+};
+
+export function buildEmailSubject(params: { orderNumber: string; locale?: Locale }) {
+  return MESSAGES[params.locale ?? DEFAULT_RECIPIENT_PREFERENCES.locale].subject(params.orderNumber);
 }
 
+/**
+ * Internal notification: new plates to configure.
+ * Language and date format follow the recipient (see `loadInternalRecipientPreferences`).
+ */
 export function buildEmailHtml(params: {
   orderNumber: string;
   customerEmail: string;
-  createdPlates: Array<{ slug: string; publicUrl: string; reviewUrl: string }>;
+  createdPlates: Array<{ slug: string; publicUrl: string; destinationType: string }>;
   publicBaseUrl: string;
+  preferences?: RecipientPreferences;
 }) {
   const { orderNumber, customerEmail, createdPlates, publicBaseUrl } = params;
-  const createdAt = new Date().toLocaleString("fr-FR", {
-    timeZone: "Europe/Paris",
-  });
+  const preferences = params.preferences ?? DEFAULT_RECIPIENT_PREFERENCES;
+  const t = MESSAGES[preferences.locale];
+  const createdAt = formatDateTime(new Date(), preferences);
 
   const rows = createdPlates
     .map((p, idx) => {
@@ -25,6 +86,9 @@ export function buildEmailHtml(params: {
         : p.publicUrl;
       const href = absolutePublic;
       const label = escapeHtml(absolutePublic);
+      const destinationLabel = isDestinationType(p.destinationType)
+        ? DESTINATION_TYPE_LABELS[p.destinationType][preferences.locale]
+        : p.destinationType;
 
       return `
         <tr>
@@ -33,7 +97,7 @@ export function buildEmailHtml(params: {
           </td>
           <td style="padding:12px 10px; border-bottom:1px solid #eee; font-family: Arial, sans-serif; font-size:14px;">
             <span>ID: ${escapeHtml(p.slug)}</span><br/>
-           
+            <span style="font-size:12px; color:#666;">${escapeHtml(destinationLabel)}</span>
           </td>
           <td style="padding:12px 10px; border-bottom:1px solid #eee; font-family: Arial, sans-serif; font-size:14px;">
             <a href="${href}" style="color:#0b57d0; text-decoration:none;">${label}</a>
@@ -47,24 +111,22 @@ export function buildEmailHtml(params: {
   <div style="background:#f6f7f9; padding:24px;">
     <div style="max-width:720px; margin:0 auto; background:#ffffff; border-radius:12px; overflow:hidden; border:1px solid #e9e9e9;">
       <div style="padding:18px 22px; background:#111827; color:#ffffff; font-family: Arial, sans-serif;">
-        <div style="font-size:16px; font-weight:700;">Nouvelles plaques NFC à configurer</div>
-        <div style="font-size:13px; opacity:.85; margin-top:4px;">Commande ${escapeHtml(
-          orderNumber
-        )} • ${escapeHtml(createdAt)}</div>
+        <div style="font-size:16px; font-weight:700;">${escapeHtml(t.title)}</div>
+        <div style="font-size:13px; opacity:.85; margin-top:4px;">${escapeHtml(
+          t.orderLine(orderNumber, createdAt)
+        )}</div>
       </div>
 
       <div style="padding:18px 22px; font-family: Arial, sans-serif;">
         <p style="margin:0 0 10px; font-size:14px; color:#111;">
-          De nouvelle(s) plaque(s) (<strong>${
-            createdPlates.length
-          }</strong>) ont été générée(s) suite à un paiement Shopify.
+          ${t.intro(`<strong>${createdPlates.length}</strong>`)}
         </p>
 
         <div style="margin:14px 0; padding:12px 14px; border:1px solid #eee; border-radius:10px; background:#fafafa;">
           <div style="font-size:13px; color:#444; line-height:1.5;">
-            <div><strong>Commande :</strong> ${escapeHtml(orderNumber)}</div>
-            <div><strong>Client :</strong> ${escapeHtml(customerEmail)}</div>
-            <div><strong>Nombre de plaques :</strong> ${
+            <div><strong>${escapeHtml(t.order)}</strong> ${escapeHtml(orderNumber)}</div>
+            <div><strong>${escapeHtml(t.customer)}</strong> ${escapeHtml(customerEmail)}</div>
+            <div><strong>${escapeHtml(t.plateCount)}</strong> ${
               createdPlates.length
             }</div>
           </div>
@@ -74,8 +136,8 @@ export function buildEmailHtml(params: {
           <thead>
             <tr>
               <th align="left" style="padding:10px; border-bottom:1px solid #ddd; font-family: Arial, sans-serif; font-size:12px; color:#555;">#</th>
-              <th align="left" style="padding:10px; border-bottom:1px solid #ddd; font-family: Arial, sans-serif; font-size:12px; color:#555;">Plaque</th>
-              <th align="left" style="padding:10px; border-bottom:1px solid #ddd; font-family: Arial, sans-serif; font-size:12px; color:#555;">Lien</th>
+              <th align="left" style="padding:10px; border-bottom:1px solid #ddd; font-family: Arial, sans-serif; font-size:12px; color:#555;">${escapeHtml(t.plateColumn)}</th>
+              <th align="left" style="padding:10px; border-bottom:1px solid #ddd; font-family: Arial, sans-serif; font-size:12px; color:#555;">${escapeHtml(t.linkColumn)}</th>
             </tr>
           </thead>
           <tbody>
@@ -84,7 +146,7 @@ export function buildEmailHtml(params: {
         </table>
 
         <p style="margin:16px 0 0; font-size:12px; color:#666; line-height:1.4;">
-          Si vous recevez ce message plusieurs fois, cela peut être dû à un retry Shopify — le système reste safe (aucune plaque n'a été dupliquée).
+          ${escapeHtml(t.retryNote)}
         </p>
       </div>
     </div>
@@ -0,0 +1,157 @@
+import { DEFAULT_RECIPIENT_PREFERENCES, formatDateTime, type RecipientPreferences } from "../i18n/formatDate";
+import { DEFAULT_LOCALE, type Locale } from "../i18n/locales";
+import { escapeHtml } from "../utils/escapeHtml";
+
+const MESSAGES: Record<
+  Locale,
+  {
+    subject: (count: number) => string;
+    title: string;
+    checks: Record<string, string>;
+    stuckEvents: string;
+    plateCountMismatches: string;
+    orphanPlates: string;
+    ordersWithoutPayload: string;
+    checkColumn: string;
+    referenceColumn: string;
+    detailColumn: string;
+    reportLink: string;
+  }
+> = {
+  fr: {
+    subject: (count) => `Réconciliation plaques NFC — ${count} anomalie(s)`,
+    title: "Réconciliation : anomalies détectées",
+    checks: {
+      stuck_event: "Webhook bloqué",
+      plate_count_mismatch: "Nombre de plaques incorrect",
+      orphan_plate: "Plaque sans commande",
+    },
+    stuckEvents: "Webhooks bloqués :",
+    plateCountMismatches: "Commandes avec un nombre de plaques incorrect :",
+    orphanPlates: "Plaques sans commande :",
+    ordersWithoutPayload: "Commandes non vérifiables (payload purgé) :",
+    checkColumn: "Contrôle",
+    referenceColumn: "Référence",
+    detailColumn: "Détail",
+    reportLink: "Voir le rapport complet",
+  },
+  en: {
+    subject: (count) => `NFC plates reconciliation — ${count} issue(s)`,
+    title: "Reconciliation: issues found",
+    checks: {
+      stuck_event: "Stuck webhook",
+      plate_count_mismatch: "Wrong plate count",
+      orphan_plate: "Plate without order",
+    },
+    stuckEvents: "Stuck webhooks:",
+    plateCountMismatches: "Orders with a wrong plate count:",
+    orphanPlates: "Plates without order:",
+    ordersWithoutPayload: "Orders that cannot be checked (payload purged):",
+    checkColumn: "Check",
+    referenceColumn: "Reference",
+    detailColumn: "Detail",
+    reportLink: "View the full report",
+  },
+  de: {
+    subject: (count) => `Abgleich NFC-Schilder — ${count} Auffälligkeit(en)`,
+    title: "Abgleich: Auffälligkeiten gefunden",
+    checks: {
+      stuck_event: "Hängender Webhook",
+      plate_count_mismatch: "Falsche Anzahl Schilder",
+      orphan_plate: "Schild ohne Bestellung",
+    },
+    stuckEvents: "Hängende Webhooks:",
+    plateCountMismatches: "Bestellungen mit falscher Anzahl Schilder:",
+    orphanPlates: "Schilder ohne Bestellung:",
+    ordersWithoutPayload: "Nicht prüfbare Bestellungen (Payload gelöscht):",
+    checkColumn: "Prüfung",
+    referenceColumn: "Referenz",
+    detailColumn: "Detail",
+    reportLink: "Vollständigen Bericht ansehen",
+  },
+};
+
+export function buildReconciliationDigestSubject(params: { findingsCount: number; locale?: Locale }) {
+  return MESSAGES[params.locale ?? DEFAULT_LOCALE].subject(params.findingsCount);
+}
+
+/**
+ * Internal digest of a reconciliation run (only sent when issues are found).
+ *
+ * Finding messages come from the report as-is (English, like every
+ * other technical message stored in the database).
+ */
+export function buildReconciliationDigestHtml(params: {
+  runAt: Date;
+  summary: {
+    stuckEvents: number;
+    plateCountMismatches: number;
+    ordersWithoutPayload: number;
+    orphanPlates: number;
+  };
+  findings: Array<{ check: string; reference: string; message: string }>;
+  reportUrl: string;
+  preferences?: RecipientPreferences;
+}) {
+  const { runAt, summary, findings, reportUrl } = params;
+  const preferences = params.preferences ?? DEFAULT_RECIPIENT_PREFERENCES;
+  const t = MESSAGES[preferences.locale];
+  const runAtLabel = formatDateTime(runAt, preferences);
+
+  const rows = findings
+    .map(
+      (f) => `
+        <tr>
+          <td style="padding:10px; border-bottom:1px solid #eee; font-family: Arial, sans-serif; font-size:13px; color:#111;">
+            ${escapeHtml(t.checks[f.check] ?? f.check)}
+          </td>
+          <td style="padding:10px; border-bottom:1px solid #eee; font-family: Arial, sans-serif; font-size:13px; color:#111;">
+            ${escapeHtml(f.reference)}
+          </td>
+          <td style="padding:10px; border-bottom:1px solid #eee; font-family: Arial, sans-serif; font-size:13px; color:#444;">
+            ${escapeHtml(f.message)}
+          </td>
+        </tr>
+      `
+    )
+    .join("");
+
+  return `
+  <div style="background:#f6f7f9; padding:24px;">
+    <div style="max-width:720px; margin:0 auto; background:#ffffff; border-radius:12px; overflow:hidden; border:1px solid #e9e9e9;">
+      <div style="padding:18px 22px; background:#111827; color:#ffffff; font-family: Arial, sans-serif;">
+        <div style="font-size:16px; font-weight:700;">${escapeHtml(t.title)}</div>
+        <div style="font-size:13px; opacity:.85; margin-top:4px;">${escapeHtml(runAtLabel)}</div>
+      </div>
+
+      <div style="padding:18px 22px; font-family: Arial, sans-serif;">
+        <div style="margin:0 0 14px; padding:12px 14px; border:1px solid #eee; border-radius:10px; background:#fafafa;">
+          <div style="font-size:13px; color:#444; line-height:1.5;">
+            <div><strong>${escapeHtml(t.stuckEvents)}</strong> ${summary.stuckEvents}</div>
+            <div><strong>${escapeHtml(t.plateCountMismatches)}</strong> ${summary.plateCountMismatches}</div>
+            <div><strong>${escapeHtml(t.orphanPlates)}</strong> ${summary.orphanPlates}</div>
+            <div><strong>${escapeHtml(t.ordersWithoutPayload)}</strong> ${summary.ordersWithoutPayload}</div>
+          </div>
+        </div>
+
+        <table width="100%" cellpadding="0" cellspacing="0" style="border-collapse:collapse;">
+          <thead>
+            <tr>
+              <th align="left" style="padding:10px; border-bottom:1px solid #ddd; font-family: Arial, sans-serif; font-size:12px; color:#555;">${escapeHtml(t.checkColumn)}</th>
+              <th align="left" style="padding:10px; border-bottom:1px solid #ddd; font-family: Arial, sans-serif; font-size:12px; color:#555;">${escapeHtml(t.referenceColumn)}</th>
+              <th align="left" style="padding:10px; border-bottom:1px solid #ddd; font-family: Arial, sans-serif; font-size:12px; color:#555;">${escapeHtml(t.detailColumn)}</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rows}
+          </tbody>
+        </table>
+
+        <p style="margin:16px 0 0; font-size:13px;">
+          <a href="${escapeHtml(reportUrl)}" style="color:#0b57d0; text-decoration:none;">${escapeHtml(t.reportLink)}</a>
+        </p>
+      </div>
+    </div>
+  </div>
+  `;
+}
@@ -0,0 +1,146 @@
+import { DEFAULT_RECIPIENT_PREFERENCES, formatDateTime, type RecipientPreferences } from "../i18n/formatDate";
+import { DEFAULT_LOCALE, type Locale } from "../i18n/locales";
+import { escapeHtml } from "../utils/escapeHtml";
+import { WEBHOOK_ERROR_CODE_LABELS, type WebhookErrorCode } from "../webhook/pipeline/errorCodes";
+
+const MESSAGES: Record<
+  Locale,
+  {
+    subject: (count: number, label: string) => string;
+    title: string;
+    unclassified: string;
+    count: string;
+    topics: string;
+    lastFailedAt: string;
+    latestError: string;
+    orders: string;
+    unknownOrders: string;
+    eventsLink: string;
+    grouped: string;
+  }
+> = {
+  fr: {
+    subject: (count, label) => `Webhooks en échec — ${label} (${count})`,
+    title: "Webhooks Shopify en échec",
+    unclassified: "Non classé",
+    count: "Événements :",
+    topics: "Topics :",
+    lastFailedAt: "Dernier échec :",
+    latestError: "Dernière erreur :",
+    orders: "Commandes concernées",
+    unknownOrders: "Commandes non créées :",
+    eventsLink: "Voir les événements en échec",
+    grouped: "Les échecs suivants avec ce code sont regroupés dans une seule alerte.",
+  },
+  en: {
+    subject: (count, label) => `Failed webhooks — ${label} (${count})`,
+    title: "Failed Shopify webhooks",
+    unclassified: "Unclassified",
+    count: "Events:",
+    topics: "Topics:",
+    lastFailedAt: "Last failure:",
+    latestError: "Latest error:",
+    orders: "Affected orders",
+    unknownOrders: "Orders not created:",
+    eventsLink: "View the failed events",
+    grouped: "Further failures with this code are grouped into a single alert.",
+  },
+  de: {
+    subject: (count, label) => `Fehlgeschlagene Webhooks — ${label} (${count})`,
+    title: "Fehlgeschlagene Shopify-Webhooks",
+    unclassified: "Nicht klassifiziert",
+    count: "Ereignisse:",
+    topics: "Topics:",
+    lastFailedAt: "Letzter Fehler:",
+    latestError: "Letzte Fehlermeldung:",
+    orders: "Betroffene Bestellungen",
+    unknownOrders: "Nicht angelegte Bestellungen:",
+    eventsLink: "Fehlgeschlagene Ereignisse ansehen",
+    grouped: "Weitere Fehler mit diesem Code werden in einer einzigen Meldung zusammengefasst.",
+  },
+};
+
+function codeLabel(code: WebhookErrorCode | null, locale: Locale): string {
+  return code ? WEBHOOK_ERROR_CODE_LABELS[code][locale] : MESSAGES[locale].unclassified;
+}
+
+export function buildWebhookFailureAlertSubject(params: {
+  errorCode: WebhookErrorCode | null;
+  count: number;
+  locale?: Locale;
+}) {
+  const locale = params.locale ?? DEFAULT_LOCALE;
+  return MESSAGES[locale].subject(params.count, codeLabel(params.errorCode, locale));
+}
+
+/**
+ * Internal alert for failed webhook events sharing an error code.
+ *
+ * Error details come from `webhook-events.error` as-is (English, like every
+ * other technical message stored in the database).
+ */
+export function buildWebhookFailureAlertHtml(params: {
+  errorCode: WebhookErrorCode | null;
+  count: number;
+  topics: string[];
+  lastFailedAt: string | null;
+  latestError: string | null;
+  orders: Array<{ orderNumber: string; url: string }>;
+  unknownOrderNumbers: string[];
+  eventsUrl: string;
+  groupWindowMinutes: number;
+  preferences?: RecipientPreferences;
+}) {
+  const preferences = params.preferences ?? DEFAULT_RECIPIENT_PREFERENCES;
+  const t = MESSAGES[preferences.locale];
+  const label = codeLabel(params.errorCode, preferences.locale);
+
+  const orders = params.orders
+    .map(
+      (o) => `
+        <li style="margin:0 0 4px;">
+          <a href="${escapeHtml(o.url)}" style="color:#0b57d0; text-decoration:none;">${escapeHtml(o.orderNumber)}</a>
+        </li>
+      `
+    )
+    .join("");
+
+  return `
+  <div style="background:#f6f7f9; padding:24px;">
+    <div style="max-width:720px; margin:0 auto; background:#ffffff; border-radius:12px; overflow:hidden; border:1px solid #e9e9e9;">
+      <div style="padding:18px 22px; background:#7f1d1d; color:#ffffff; font-family: Arial, sans-serif;">
+        <div style="font-size:16px; font-weight:700;">${escapeHtml(t.title)}</div>
+        <div style="font-size:13px; opacity:.85; margin-top:4px;">${escapeHtml(label)}${params.errorCode ? ` (${escapeHtml(params.errorCode)})` : ""}</div>
+      </div>
+
+      <div style="padding:18px 22px; font-family: Arial, sans-serif;">
+        <div style="margin:0 0 14px; padding:12px 14px; border:1px solid #eee; border-radius:10px; background:#fafafa;">
+          <div style="font-size:13px; color:#444; line-height:1.5;">
+            <div><strong>${escapeHtml(t.count)}</strong> ${params.count}</div>
+            <div><strong>${escapeHtml(t.topics)}</strong> ${escapeHtml(params.topics.join(", "))}</div>
+            ${params.lastFailedAt ? `<div><strong>${escapeHtml(t.lastFailedAt)}</strong> ${escapeHtml(formatDateTime(new Date(params.lastFailedAt), preferences))}</div>` : ""}
+            ${params.latestError ? `<div><strong>${escapeHtml(t.latestError)}</strong> ${escapeHtml(params.latestError)}</div>` : ""}
+          </div>
+        </div>
+
+        ${
+          orders
+            ? `<div style="font-size:13px; font-weight:700; color:#111; margin:0 0 6px;">${escapeHtml(t.orders)}</div>
+        <ul style="margin:0 0 14px; padding-left:18px; font-size:13px; color:#111;">${orders}</ul>`
+            : ""
+        }
+        ${
+          params.unknownOrderNumbers.length
+            ? `<p style="margin:0 0 14px; font-size:13px; color:#444;"><strong>${escapeHtml(t.unknownOrders)}</strong> ${escapeHtml(params.unknownOrderNumbers.join(", "))}</p>`
+            : ""
+        }
+
+        <p style="margin:16px 0 0; font-size:13px;">
+          <a href="${escapeHtml(params.eventsUrl)}" style="color:#0b57d0; text-decoration:none;">${escapeHtml(t.eventsLink)}</a>
+        </p>
+        <p style="margin:12px 0 0; font-size:12px; color:#666;">${escapeHtml(t.grouped)} (${params.groupWindowMinutes} min)</p>
+      </div>
+    </div>
+  </div>
+  `;
+}
@@ -0,0 +1,44 @@
+/**
+ * Builds a raw NDEF message containing a single URI record (NFC Forum RTD-URI).
+ *
+ * The output is the exact byte sequence written to the tag, and can be loaded
+ * as-is by NFC encoders accepting `.ndef` files.
+ */
+
+/**
+ * URI identifier codes: the prefix is stored as one byte instead of plain text.
+ * Longest prefixes first.
+ */
+const URI_PREFIXES: Array<[string, number]> = [
+  ['https://www.', 0x02],
+  ['http://www.', 0x01],
+  ['https://', 0x04],
+  ['http://', 0x03],
+]
+
+const TNF_WELL_KNOWN = 0x01
+const FLAG_MB = 0x80 // message begin
+const FLAG_ME = 0x40 // message end
+const FLAG_SR = 0x10 // short record (payload length on 1 byte)
+
+export function buildNdefUriMessage(uri: string): Buffer {
+  const prefix = URI_PREFIXES.find(([p]) => uri.startsWith(p))
+  const code = prefix ? prefix[1] : 0x00
+  const rest = prefix ? uri.slice(prefix[0].length) : uri
+
+  const recordPayload = Buffer.concat([Buffer.from([code]), Buffer.from(rest, 'utf8')])
+  const type = Buffer.from('U', 'ascii')
+  const short = recordPayload.length <= 0xff
+
+  const header = short
+    ? Buffer.from([FLAG_MB | FLAG_ME | FLAG_SR | TNF_WELL_KNOWN, type.length, recordPayload.length])
+    : Buffer.alloc(6)
+
+  if (!short) {
+    header[0] = FLAG_MB | FLAG_ME | TNF_WELL_KNOWN
+    header[1] = type.length
+    header.writeUInt32BE(recordPayload.length, 2)
+  }
+
+  return Buffer.concat([header, type, recordPayload])
+}
@@ -0,0 +1,75 @@
+import { crc32 } from '../utils/crc32'
+
+/**
+ * Minimal ZIP writer (no compression, "stored" entries).
+ *
+ * Export manifests are small (a CSV and a few dozen bytes per plate),
+ * so compression is not worth a dependency.
+ */
+
+export type ZipEntry = {
+  name: string
+  data: Buffer
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+export function buildZip(entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer {
+  const dos = toDosDateTime(modifiedAt)
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8')
+    const crc = crc32(entry.data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4) // version needed
+    local.writeUInt16LE(0x0800, 6) // UTF-8 names
+    local.writeUInt16LE(0, 8) // stored
+    local.writeUInt16LE(dos.time, 10)
+    local.writeUInt16LE(dos.date, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(entry.data.length, 18)
+    local.writeUInt32LE(entry.data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4) // version made by
+    central.writeUInt16LE(20, 6) // version needed
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(0, 10)
+    central.writeUInt16LE(dos.time, 12)
+    central.writeUInt16LE(dos.date, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(entry.data.length, 20)
+    central.writeUInt32LE(entry.data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    // extra length, comment length, disk, internal / external attributes: 0
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, name, entry.data)
+    centralParts.push(central, name)
+    offset += local.length + name.length + entry.data.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
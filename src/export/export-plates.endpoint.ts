@@ -0,0 +1,175 @@
+import type { Endpoint, Where } from 'payload'
+
+import { isAdmin } from '../payload/access'
+import { buildNdefUriMessage } from './buildNdefUriMessage'
+import { buildZip } from './buildZip'
+
+const MAX_EXPORT_PLATES = 1000
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/
+
+function csvCell(value: unknown): string {
+  const s = String(value ?? '')
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+/**
+ * Parses a `from` / `to` bound. Date-only values cover the whole day,
+ * so `to=2026-10-19` includes plates created on the 19th.
+ */
+function parseBound(value: unknown, kind: 'from' | 'to'): Date | null {
+  if (typeof value !== 'string' || !value) return null
+  const d = new Date(value)
+  if (Number.isNaN(d.getTime())) return null
+  if (kind === 'to' && DATE_ONLY.test(value)) d.setUTCDate(d.getUTCDate() + 1)
+  return d
+}
+
+/**
+ * Production export — POST /api/export-batches/export
+ *
+ * Body: `{ orderNumber }` or `{ from, to }` (plate creation dates, ISO or YYYY-MM-DD),
+ * plus an optional `shop` id to restrict the export to one shop.
+ *
+ * Returns a ZIP archive for the workshop:
+ * - `manifest.csv`: orderNumber, slug, absolute public URL, NDEF file name
+ * - `ndef/{slug}.ndef`: raw NDEF message (one URI record) to load in the NFC encoder
+ *
+ * Every export creates an `export-batches` record, and each exported plate
+ * points to it (`exportBatch`, `exportedAt`). Disabled plates are never exported.
+ *
+ * Admin only. Shop admins only export the plates of their shops.
+ */
+export const exportPlatesEndpoint: Endpoint = {
+  path: '/export',
+  method: 'post',
+
+  handler: async (req) => {
+    if (!isAdmin(req)) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const publicBaseUrl = (process.env.PUBLIC_APP_URL || '').replace(/\/$/, '')
+    if (!publicBaseUrl) {
+      // Tags must contain absolute URLs
+      return Response.json({ error: 'PUBLIC_APP_URL is not configured' }, { status: 500 })
+    }
+
+    const body: any = await req.json?.().catch(() => null)
+    const orderNumber = typeof body?.orderNumber === 'string' ? body.orderNumber.trim() : ''
+    const from = parseBound(body?.from, 'from')
+    const to = parseBound(body?.to, 'to')
+    const shop = body?.shop ? String(body.shop) : null
+
+    // Access rules apply to every query below: shop admins only see their shops
+    const scope = { overrideAccess: false, user: req.user } as const
+
+    const filters: Where[] = [{ status: { not_equals: 'disabled' } }]
+    if (shop) filters.push({ shop: { equals: shop } })
+    let label: string
+
+    if (orderNumber) {
+      const orders = await req.payload.find({
+        collection: 'orders',
+        where: shop
+          ? { and: [{ orderNumber: { equals: orderNumber } }, { shop: { equals: shop } }] }
+          : { orderNumber: { equals: orderNumber } },
+        limit: 2,
+        depth: 0,
+        ...scope,
+      })
+      if (!orders.docs[0]) {
+        return Response.json({ error: 'Order not found' }, { status: 404 })
+      }
+      if (orders.docs.length > 1) {
+        // Order numbers are only unique per shop
+        return Response.json({ error: 'Order number exists in several shops: provide `shop`' }, { status: 409 })
+      }
+      filters.push({ order: { equals: orders.docs[0].id } })
+      label = `Commande ${orderNumber}`
+    } else if (from && to) {
+      if (from >= to) {
+        return Response.json({ error: '`from` must be before `to`' }, { status: 400 })
+      }
+      filters.push({ createdAt: { greater_than_equal: from.toISOString() } })
+      filters.push({ createdAt: { less_than: to.toISOString() } })
+      label = `${body.from} → ${body.to}`
+    } else {
+      return Response.json({ error: 'Provide `orderNumber`, or both `from` and `to`' }, { status: 400 })
+    }
+
+    const where: Where = { and: filters }
+
+    const total = await req.payload.count({ collection: 'plates', where, ...scope })
+    if (!total.totalDocs) {
+      return Response.json({ error: 'No plates to export' }, { status: 404 })
+    }
+    if (total.totalDocs > MAX_EXPORT_PLATES) {
+      return Response.json(
+        { error: `Too many plates (${total.totalDocs}, max ${MAX_EXPORT_PLATES}): narrow the range` },
+        { status: 400 },
+      )
+    }
+
+    const plates = await req.payload.find({
+      collection: 'plates',
+      where,
+      sort: 'createdAt',
+      pagination: false,
+      depth: 1, // populates `order` for the order number
+      ...scope,
+    })
+
+    const exportedAt = new Date()
+
+    const batch = await req.payload.create({
+      collection: 'export-batches',
+      data: {
+        label,
+        filter: {
+          ...(orderNumber ? { orderNumber } : { from: from!.toISOString(), to: to!.toISOString() }),
+          ...(shop ? { shop } : {}),
+        },
+        shops: [
+          ...new Set(
+            plates.docs
+              .map((p: any) => (typeof p.shop === 'object' ? p.shop?.id : p.shop))
+              .filter((id: unknown) => id !== null && id !== undefined),
+          ),
+        ],
+        plateCount: plates.docs.length,
+        plates: plates.docs.map((p: any) => p.id),
+        createdBy: req.user?.id,
+      },
+    })
+
+    await req.payload.update({
+      collection: 'plates',
+      where: { id: { in: plates.docs.map((p: any) => p.id) } },
+      data: { exportBatch: batch.id, exportedAt: exportedAt.toISOString() },
+      overrideAccess: true,
+    })
+
+    const csvLines = [['orderNumber', 'slug', 'publicUrl', 'ndefFile'].join(',')]
+    const ndefEntries = plates.docs.map((p: any) => {
+      const publicUrl = `${publicBaseUrl}/p/${p.slug}`
+      const file = `ndef/${p.slug}.ndef`
+      csvLines.push([p.order?.orderNumber, p.slug, publicUrl, file].map(csvCell).join(','))
+      return { name: file, data: buildNdefUriMessage(publicUrl) }
+    })
+
+    const zip = buildZip(
+      [{ name: 'manifest.csv', data: Buffer.from(csvLines.join('\r\n') + '\r\n', 'utf8') }, ...ndefEntries],
+      exportedAt,
+    )
+
+    return new Response(new Uint8Array(zip), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="plates-export-${batch.id}.zip"`,
+        'Cache-Control': 'no-store',
+        'X-Export-Batch-Id': String(batch.id),
+      },
+    })
+  },
+}
@@ -0,0 +1,63 @@
+import { DEFAULT_LOCALE, type Locale } from './locales'
+
+export type DateStyle = 'short' | 'medium' | 'long' | 'full'
+
+export const DATE_STYLES: DateStyle[] = ['short', 'medium', 'long', 'full']
+
+export const DEFAULT_TIME_ZONE = 'Europe/Paris'
+
+/**
+ * How one recipient reads an email: language, timezone and date format.
+ *
+ * Customers get the locale of their Shopify order; internal recipients get
+ * the `notification-settings` global, possibly overridden by their shop
+ * (see `loadInternalRecipientPreferences`).
+ */
+export type RecipientPreferences = {
+  locale: Locale
+  timeZone: string
+  dateStyle: DateStyle
+}
+
+export const DEFAULT_RECIPIENT_PREFERENCES: RecipientPreferences = {
+  locale: DEFAULT_LOCALE,
+  timeZone: DEFAULT_TIME_ZONE,
+  dateStyle: 'medium',
+}
+
+/**
+ * Regional conventions used to format dates for each locale.
+ * English uses the British order (day before month), like the other markets.
+ */
+const INTL_LOCALES: Record<Locale, string> = {
+  fr: 'fr-FR',
+  en: 'en-GB',
+  de: 'de-DE',
+}
+
+export function isValidTimeZone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-CA', { timeZone: tz })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function isDateStyle(value: unknown): value is DateStyle {
+  return typeof value === 'string' && (DATE_STYLES as string[]).includes(value)
+}
+
+/**
+ * Formats a date and time for a recipient.
+ * An invalid timezone falls back to the default one rather than throwing.
+ */
+export function formatDateTime(date: Date | string, prefs: RecipientPreferences = DEFAULT_RECIPIENT_PREFERENCES): string {
+  const timeZone = isValidTimeZone(prefs.timeZone) ? prefs.timeZone : DEFAULT_TIME_ZONE
+
+  return new Intl.DateTimeFormat(INTL_LOCALES[prefs.locale] ?? INTL_LOCALES[DEFAULT_LOCALE], {
+    dateStyle: prefs.dateStyle,
+    timeStyle: 'short',
+    timeZone,
+  }).format(new Date(date))
+}
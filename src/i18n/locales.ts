@@ -0,0 +1,62 @@
+/**
+ * Languages used for emails and admin labels.
+ *
+ * The first one is the historical language of the product (French):
+ * it is the fallback whenever a locale is missing or unsupported.
+ */
+export const SUPPORTED_LOCALES = ['fr', 'en', 'de'] as const
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number]
+
+export const DEFAULT_LOCALE: Locale = 'fr'
+
+/**
+ * Options for `select` fields storing a locale.
+ * Language names are written in their own language on purpose.
+ */
+export const LOCALE_OPTIONS = [
+  { label: 'Français', value: 'fr' },
+  { label: 'English', value: 'en' },
+  { label: 'Deutsch', value: 'de' },
+]
+
+export function isSupportedLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value)
+}
+
+/**
+ * Reduces a language tag to a supported locale.
+ *
+ * Accepts what Shopify sends in `customer_locale` (`en`, `en-US`, `de-CH`,
+ * sometimes `pt_BR`): only the language part matters.
+ */
+export function resolveLocale(value: unknown, fallback: Locale = DEFAULT_LOCALE): Locale {
+  const language = String(value ?? '')
+    .trim()
+    .toLowerCase()
+    .split(/[-_]/)[0]
+  return isSupportedLocale(language) ? language : fallback
+}
+
+/**
+ * Picks the preferred supported locale from an `Accept-Language` header.
+ * Entries are tried by decreasing quality (`q=`), then in header order.
+ */
+export function resolveAcceptLanguage(header: string | null | undefined, fallback: Locale = DEFAULT_LOCALE): Locale {
+  const candidates = String(header ?? '')
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';')
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith('q='))
+      const quality = q ? Number(q.slice(2)) : 1
+      return { tag, quality: Number.isFinite(quality) ? quality : 0, index }
+    })
+    .filter((c) => c.tag && c.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+
+  for (const c of candidates) {
+    const language = c.tag.toLowerCase().split(/[-_]/)[0]
+    if (isSupportedLocale(language)) return language
+  }
+  return fallback
+}
@@ -0,0 +1,46 @@
+import type { Payload } from 'payload'
+
+import type { ShopContext } from '../shops/resolveShop'
+import {
+  DEFAULT_RECIPIENT_PREFERENCES,
+  isDateStyle,
+  isValidTimeZone,
+  type RecipientPreferences,
+} from './formatDate'
+import { isSupportedLocale } from './locales'
+
+/**
+ * Preferences of internal recipients (workshop, support, shop notification
+ * address, reconciliation digest).
+ *
+ * Resolution order, field by field:
+ * 1. the shop override (`notificationLocale`, `notificationTimeZone`, `notificationDateStyle`)
+ * 2. the `notification-settings` global
+ * 3. the historical defaults (French, Europe/Paris)
+ *
+ * Never throws: an email in the default language is better than no email.
+ */
+export async function loadInternalRecipientPreferences(
+  payload: Payload,
+  shop: ShopContext | null = null,
+): Promise<RecipientPreferences> {
+  let settings: any = null
+  try {
+    settings = await payload.findGlobal({ slug: 'notification-settings', depth: 0, overrideAccess: true })
+  } catch (e) {
+    payload.logger?.warn?.(`Notification settings unavailable, using defaults: ${String((e as any)?.message ?? e)}`)
+  }
+
+  const pick = <T>(candidates: unknown[], isValid: (v: unknown) => v is T, fallback: T): T =>
+    (candidates.find((c) => isValid(c)) as T | undefined) ?? fallback
+
+  return {
+    locale: pick([shop?.notificationLocale, settings?.internalLocale], isSupportedLocale, DEFAULT_RECIPIENT_PREFERENCES.locale),
+    timeZone: pick(
+      [shop?.notificationTimeZone, settings?.timeZone],
+      (v): v is string => typeof v === 'string' && !!v && isValidTimeZone(v),
+      DEFAULT_RECIPIENT_PREFERENCES.timeZone,
+    ),
+    dateStyle: pick([shop?.notificationDateStyle, settings?.dateStyle], isDateStyle, DEFAULT_RECIPIENT_PREFERENCES.dateStyle),
+  }
+}
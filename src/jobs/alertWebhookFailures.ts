@@ -0,0 +1,239 @@
+import crypto from 'crypto'
+import type { Payload, Where } from 'payload'
+
+import { buildWebhookFailureAlertHtml, buildWebhookFailureAlertSubject } from '../email/buildWebhookFailureAlertEmail'
+import { loadInternalRecipientPreferences } from '../i18n/recipientPreferences'
+import { groupWebhookFailures, type WebhookFailureGroup } from '../webhook/groupWebhookFailures'
+
+type AlertOptions = {
+  /**
+   * Interval between runs.
+   * Default: every 30 seconds.
+   */
+  everyMs?: number
+
+  /**
+   * Once a code was alerted, further failures with that code wait this long
+   * and are sent together: one broken variant gives one alert per window, not one per order.
+   * Default: 15 minutes.
+   */
+  groupWindowMinutes?: number
+
+  /**
+   * Failures older than this are never alerted (first start, alerts enabled later).
+   * Default: 24 hours.
+   */
+  lookbackHours?: number
+}
+
+const MAX_PENDING_EVENTS = 1000
+const WEBHOOK_TIMEOUT_MS = 10_000
+
+function appUrl(path: string): string {
+  return `${(process.env.PUBLIC_APP_URL || '').replace(/\/$/, '')}${path}`
+}
+
+function byErrorCode(code: string | null): Where {
+  return code ? { errorCode: { equals: code } } : { errorCode: { exists: false } }
+}
+
+/**
+ * Admin list of the failed events of a code.
+ */
+function failedEventsUrl(code: string | null): string {
+  const params = new URLSearchParams({ 'where[and][0][status][equals]': 'failed' })
+  if (code) params.set('where[and][1][errorCode][equals]', code)
+  return appUrl(`/admin/collections/webhook-events?${params.toString()}`)
+}
+
+/* ------------------------------------------------------------------ */
+/* CHANNELS                                                            */
+/* ------------------------------------------------------------------ */
+
+async function sendAlertEmail(payload: Payload, to: string, group: WebhookFailureGroup, opts: Required<AlertOptions>) {
+  // Failures of every shop go to one operator address: global settings only
+  const preferences = await loadInternalRecipientPreferences(payload)
+
+  await payload.sendEmail({
+    to,
+    subject: buildWebhookFailureAlertSubject({
+      errorCode: group.errorCode,
+      count: group.count,
+      locale: preferences.locale,
+    }),
+    html: buildWebhookFailureAlertHtml({
+      ...group,
+      orders: group.orders.map((o) => ({
+        orderNumber: o.orderNumber,
+        url: appUrl(`/admin/collections/orders/${o.id}`),
+      })),
+      eventsUrl: failedEventsUrl(group.errorCode),
+      groupWindowMinutes: opts.groupWindowMinutes,
+      preferences,
+    }),
+  })
+}
+
+/**
+ * Generic outgoing webhook (Slack / Teams workflow, incident tool...): one JSON
+ * POST per alert. With `WEBHOOK_ALERT_SECRET`, the body is signed like Shopify
+ * signs ours: `X-Alert-Signature: sha256=<hex HMAC-SHA256 of the raw body>`.
+ */
+async function sendAlertWebhook(url: string, group: WebhookFailureGroup) {
+  const body = JSON.stringify({
+    type: 'webhook_events.failed',
+    errorCode: group.errorCode,
+    count: group.count,
+    topics: group.topics,
+    lastFailedAt: group.lastFailedAt,
+    latestError: group.latestError,
+    orders: group.orders.map((o) => ({
+      orderNumber: o.orderNumber,
+      url: appUrl(`/admin/collections/orders/${o.id}`),
+    })),
+    unknownOrderNumbers: group.unknownOrderNumbers,
+    eventIds: group.eventIds,
+    eventsUrl: failedEventsUrl(group.errorCode),
+  })
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  const secret = process.env.WEBHOOK_ALERT_SECRET
+  if (secret) {
+    headers['X-Alert-Signature'] = `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`
+  }
+
+  const res = await fetch(url, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  })
+  if (!res.ok) throw new Error(`Alert webhook answered ${res.status}`)
+}
+
+/* ------------------------------------------------------------------ */
+/* RUN                                                                 */
+/* ------------------------------------------------------------------ */
+
+async function alertOnce(
+  payload: Payload,
+  channels: { email?: string; webhookUrl?: string },
+  opts: Required<AlertOptions>,
+) {
+  const now = Date.now()
+
+  const pending = await payload.find({
+    collection: 'webhook-events',
+    where: {
+      and: [
+        { status: { equals: 'failed' } },
+        { alertedAt: { exists: false } },
+        { updatedAt: { greater_than_equal: new Date(now - opts.lookbackHours * 60 * 60 * 1000).toISOString() } },
+      ],
+    },
+    sort: 'updatedAt',
+    limit: MAX_PENDING_EVENTS,
+    depth: 0,
+    overrideAccess: true,
+  })
+  if (!pending.docs.length) return
+
+  const codes = [...new Set(pending.docs.map((e: any) => e.errorCode ?? null))]
+
+  for (const code of codes) {
+    // Alerted within the window: the pending events wait for the next one
+    const recent = await payload.count({
+      collection: 'webhook-events',
+      where: {
+        and: [
+          byErrorCode(code),
+          { alertedAt: { greater_than: new Date(now - opts.groupWindowMinutes * 60 * 1000).toISOString() } },
+        ],
+      },
+      overrideAccess: true,
+    })
+    if (recent.totalDocs > 0) continue
+
+    // Marks the events before sending, so a send that hangs past the next run is not repeated
+    const ids = pending.docs.filter((e: any) => (e.errorCode ?? null) === code).map((e: any) => e.id)
+    const claimed = await payload.update({
+      collection: 'webhook-events',
+      where: { and: [{ id: { in: ids } }, { alertedAt: { exists: false } }] },
+      data: { alertedAt: new Date(now).toISOString() },
+      depth: 0,
+      overrideAccess: true,
+    })
+    if (!claimed.docs.length) continue
+
+    const [group] = await groupWebhookFailures(payload, claimed.docs)
+
+    const sends: Array<Promise<void>> = []
+    if (channels.email) sends.push(sendAlertEmail(payload, channels.email, group, opts))
+    if (channels.webhookUrl) sends.push(sendAlertWebhook(channels.webhookUrl, group))
+
+    const results = await Promise.allSettled(sends)
+    const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected')
+    for (const failure of failures) {
+      payload.logger?.error?.(failure.reason, `Webhook failure alert (${code ?? 'unclassified'}) failed`)
+    }
+
+    // Every channel failed: release the events for the next run
+    if (failures.length === results.length) {
+      await payload.update({
+        collection: 'webhook-events',
+        where: { id: { in: claimed.docs.map((e: any) => e.id) } },
+        data: { alertedAt: null },
+        overrideAccess: true,
+      })
+    }
+  }
+}
+
+/**
+ * Starts the failed webhook events alerts.
+ *
+ * Channels (at least one, else the loop does not start):
+ * - email to `WEBHOOK_ALERT_EMAIL` (or `PLATES_NOTIFICATION_EMAIL`)
+ * - JSON POST to `WEBHOOK_ALERT_URL`, signed with `WEBHOOK_ALERT_SECRET` when set
+ *
+ * Grouping: one alert per `errorCode` with every pending failure. The first
+ * failure of a code is alerted on the next run; later ones are held until the
+ * group window since the last alert of that code has passed.
+ *
+ * Notes:
+ * - This is intentionally "best effort": it must never crash the app.
+ * - `alertedAt` marks alerted events; reprocessing an event clears it.
+ * - Start it in ONE process only, like the worker: marking events is not atomic,
+ *   so two loops could alert the same events twice.
+ */
+export function startWebhookFailureAlerts(payload: Payload, opts: AlertOptions = {}) {
+  const resolved: Required<AlertOptions> = {
+    everyMs: opts.everyMs ?? 30 * 1000,
+    groupWindowMinutes: opts.groupWindowMinutes ?? 15,
+    lookbackHours: opts.lookbackHours ?? 24,
+  }
+
+  const channels = {
+    email: process.env.WEBHOOK_ALERT_EMAIL || process.env.PLATES_NOTIFICATION_EMAIL || undefined,
+    webhookUrl: process.env.WEBHOOK_ALERT_URL || undefined,
+  }
+  if (!channels.email && !channels.webhookUrl) {
+    payload.logger?.info?.('Webhook failure alerts disabled: no WEBHOOK_ALERT_EMAIL nor WEBHOOK_ALERT_URL')
+    return
+  }
+
+  let running = false
+
+  setInterval(() => {
+    if (running) return
+    running = true
+
+    alertOnce(payload, channels, resolved)
+      .catch((err) => {
+        payload.logger?.error?.(err, 'Webhook failure alerts run failed')
+      })
+      .finally(() => {
+        running = false
+      })
+  }, resolved.everyMs)
+}
@@ -0,0 +1,242 @@
+import type { Payload, Where } from 'payload'
+
+import { processWebhookEvent } from '../webhook/pipeline/processWebhookEvent'
+
+type WorkerOptions = {
+  /**
+   * Interval between polling runs.
+   * Default: every 2 seconds.
+   */
+  everyMs?: number
+
+  /**
+   * Maximum number of events claimed per run.
+   * Default: 10.
+   */
+  batchSize?: number
+
+  /**
+   * Attempts before an event is marked as `failed` for good.
+   * Default: 8.
+   */
+  maxAttempts?: number
+
+  /**
+   * Base delay of the exponential backoff (doubled at each attempt).
+   * Default: 30 seconds.
+   */
+  baseDelayMs?: number
+
+  /**
+   * Upper bound of the backoff delay.
+   * Default: 1 hour.
+   */
+  maxDelayMs?: number
+
+  /**
+   * How long a claimed event may stay `processing` before it is considered
+   * abandoned (worker crash, deploy) and put back in the queue.
+   * Default: 5 minutes.
+   */
+  leaseMs?: number
+}
+
+type ResolvedOptions = Required<WorkerOptions>
+
+/**
+ * Computes the delay before the next attempt: base × 2^(attempts - 1), capped.
+ */
+function backoffDelay(attempts: number, opts: ResolvedOptions): number {
+  return Math.min(opts.baseDelayMs * 2 ** Math.max(attempts - 1, 0), opts.maxDelayMs)
+}
+
+/**
+ * Crash recovery:
+ * events left in `processing` past the lease are put back to `received`,
+ * unless they have exhausted their attempts.
+ *
+ * Attempts are counted at claim time, so an event that crashes the worker
+ * (or kills the process) every time still reaches `maxAttempts` and ends up
+ * `failed` here instead of being reclaimed on every boot.
+ */
+async function recoverStaleEvents(payload: Payload, opts: ResolvedOptions) {
+  const staleBefore = new Date(Date.now() - opts.leaseMs).toISOString()
+  const stale: Where[] = [{ status: { equals: 'processing' } }, { lockedAt: { less_than: staleBefore } }]
+
+  await payload.update({
+    collection: 'webhook-events',
+    where: { and: [...stale, { attempts: { greater_than_equal: opts.maxAttempts } }] },
+    data: {
+      status: 'failed',
+      lockedAt: null,
+      errorCode: 'RETRIES_EXHAUSTED',
+      failedAt: new Date().toISOString(),
+      error: `Gave up after ${opts.maxAttempts} interrupted processing attempts`,
+    },
+    overrideAccess: true,
+  })
+
+  await payload.update({
+    collection: 'webhook-events',
+    where: { and: stale },
+    data: {
+      status: 'received',
+      lockedAt: null,
+      nextAttemptAt: new Date().toISOString(),
+      error: 'Recovered after an interrupted processing attempt',
+    },
+    overrideAccess: true,
+  })
+}
+
+/**
+ * Claims an event for this worker.
+ *
+ * The update is conditioned on `status = received`, so an event whose status
+ * changed since the batch was read is skipped. It is not a compare-and-set:
+ * Payload finds the matching documents, then updates them. Only one worker
+ * may run (see `startWebhookEventsWorker`).
+ */
+async function claimEvent(payload: Payload, event: any): Promise<boolean> {
+  const res = await payload.update({
+    collection: 'webhook-events',
+    where: {
+      and: [{ id: { equals: event.id } }, { status: { equals: 'received' } }],
+    },
+    data: {
+      status: 'processing',
+      lockedAt: new Date().toISOString(),
+      attempts: (event.attempts ?? 0) + 1,
+    },
+    overrideAccess: true,
+  })
+
+  return res.docs.length > 0
+}
+
+async function handleEvent(payload: Payload, event: any, opts: ResolvedOptions) {
+  if (!(await claimEvent(payload, event))) return
+
+  const attempts = (event.attempts ?? 0) + 1
+
+  try {
+    const result = await processWebhookEvent(payload, event)
+
+    await payload.update({
+      collection: 'webhook-events',
+      id: event.id,
+      data: {
+        ...result,
+        errorCode: result.status === 'failed' ? result.errorCode : null,
+        error: result.status === 'failed' ? result.error : null,
+        failedAt: result.status === 'failed' ? new Date().toISOString() : null,
+        lockedAt: null,
+        processedAt: new Date().toISOString(),
+      },
+      overrideAccess: true,
+    })
+  } catch (err: any) {
+    /**
+     * Transient error: retry later with exponential backoff,
+     * unless the event has exhausted its attempts.
+     */
+    const message = String(err?.message ?? err)
+    const exhausted = attempts >= opts.maxAttempts
+
+    payload.logger?.error?.(err, `Webhook event ${event.webhookId} failed (attempt ${attempts})`)
+
+    await payload.update({
+      collection: 'webhook-events',
+      id: event.id,
+      data: exhausted
+        ? {
+            status: 'failed',
+            lockedAt: null,
+            errorCode: 'RETRIES_EXHAUSTED',
+            failedAt: new Date().toISOString(),
+            error: `Gave up after ${attempts} attempts: ${message}`,
+          }
+        : {
+            status: 'received',
+            lockedAt: null,
+            nextAttemptAt: new Date(Date.now() + backoffDelay(attempts, opts)).toISOString(),
+            error: message,
+          },
+      overrideAccess: true,
+    })
+  }
+}
+
+async function processOnce(payload: Payload, opts: ResolvedOptions) {
+  await recoverStaleEvents(payload, opts)
+
+  const due = await payload.find({
+    collection: 'webhook-events',
+    where: {
+      and: [
+        { status: { equals: 'received' } },
+        {
+          or: [
+            { nextAttemptAt: { less_than_equal: new Date().toISOString() } },
+            { nextAttemptAt: { exists: false } },
+          ],
+        },
+      ],
+    },
+    sort: 'createdAt',
+    limit: opts.batchSize,
+    depth: 0,
+    overrideAccess: true,
+  })
+
+  // Sequential on purpose: events of the same order must not race each other.
+  for (const event of due.docs) {
+    await handleEvent(payload, event, opts)
+  }
+}
+
+/**
+ * Starts the in-process webhook events worker.
+ *
+ * The database is the queue: the webhook endpoints only persist verified
+ * deliveries as `received`, and this loop processes them.
+ *
+ * Status transitions:
+ *   received → processing → processed | failed
+ *   processing → received (transient error with retries left, or stale lock)
+ *   processing → failed (stale lock with no attempts left)
+ *
+ * Failed events carry an `errorCode`; they are reported by the failure alerts
+ * (`startWebhookFailureAlerts`).
+ *
+ * Notes:
+ * - This is intentionally "best effort": it must never crash the app.
+ * - Runs never overlap: a slow run delays the next one instead of racing it.
+ * - Start it in ONE process only: claims are not atomic, so two workers could
+ *   process the same event.
+ */
+export function startWebhookEventsWorker(payload: Payload, opts: WorkerOptions = {}) {
+  const resolved: ResolvedOptions = {
+    everyMs: opts.everyMs ?? 2000,
+    batchSize: opts.batchSize ?? 10,
+    maxAttempts: opts.maxAttempts ?? 8,
+    baseDelayMs: opts.baseDelayMs ?? 30 * 1000,
+    maxDelayMs: opts.maxDelayMs ?? 60 * 60 * 1000,
+    leaseMs: opts.leaseMs ?? 5 * 60 * 1000,
+  }
+
+  let running = false
+
+  setInterval(() => {
+    if (running) return
+    running = true
+
+    processOnce(payload, resolved)
+      .catch((err) => {
+        payload.logger?.error?.(err, 'Webhook events worker run failed')
+      })
+      .finally(() => {
+        running = false
+      })
+  }, resolved.everyMs)
+}
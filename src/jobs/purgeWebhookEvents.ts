@@ -1,5 +1,11 @@
 import type { Payload } from 'payload'
 
+/**
+ * Default retention of finalized webhook events, in days.
+ * Anything derived from `webhook-events` (e.g. secret usage) cannot look further back.
+ */
+export const WEBHOOK_EVENTS_KEEP_DAYS = 30
+
 type PurgeOptions = {
   /**
    * Interval between purge runs.
@@ -9,7 +15,7 @@ type PurgeOptions = {
 
   /**
    * Retention window in days.
-   * Default: 30 days.
+   * Default: `WEBHOOK_EVENTS_KEEP_DAYS` (30 days).
    */
   keepDays?: number
 }
@@ -49,7 +55,7 @@ async function purgeOnce(payload: Payload, keepDays: number) {
  */
 export function startWebhookEventsPurge(payload: Payload, opts: PurgeOptions = {}) {
   const everyMs = opts.everyMs ?? 24 * 60 * 60 * 1000 // 24h
-  const keepDays = opts.keepDays ?? 30
+  const keepDays = opts.keepDays ?? WEBHOOK_EVENTS_KEEP_DAYS
 
   // Run once at boot to keep the DB tidy even if the service restarts infrequently.
   purgeOnce(payload, keepDays).catch((err) => {
@@ -0,0 +1,336 @@
+import type { Payload } from 'payload'
+
+import { buildReconciliationDigestHtml, buildReconciliationDigestSubject } from '../email/buildReconciliationDigestEmail'
+import { loadInternalRecipientPreferences } from '../i18n/recipientPreferences'
+import { loadPackSizeResolver } from '../plates/loadPackSizeResolver'
+import { getShopId, shopFilter } from '../shops/resolveShop'
+import { extractGroups } from '../utils/extractGroups'
+import { decodeRawBody } from '../webhook/pipeline/rawBodyCodec'
+
+type ReconciliationOptions = {
+  /**
+   * Interval between reconciliation runs.
+   * Default: every 6 hours.
+   */
+  everyMs?: number
+
+  /**
+   * A webhook event still `received` this long after its creation, or locked
+   * in `processing` for this long, is reported as stuck.
+   * Default: 30 minutes.
+   */
+  stuckAfterMinutes?: number
+
+  /**
+   * Only `paid` orders created within this window are checked
+   * (older payloads are purged anyway).
+   * Default: 30 days.
+   */
+  lookbackDays?: number
+}
+
+export type ReconciliationCheck = 'stuck_event' | 'plate_count_mismatch' | 'orphan_plate'
+
+export type ReconciliationFinding = {
+  check: ReconciliationCheck
+  reference: string
+  message: string
+  details?: Record<string, unknown>
+}
+
+/**
+ * Findings kept per check, so a systemic issue cannot produce a huge report.
+ * Totals in the summary are always exact.
+ */
+const MAX_FINDINGS_PER_CHECK = 200
+const PAGE_SIZE = 500
+
+/* ------------------------------------------------------------------ */
+/* CHECK 1 — webhook events stuck in `received` or `processing`       */
+/* ------------------------------------------------------------------ */
+
+async function findStuckEvents(payload: Payload, stuckAfterMinutes: number) {
+  const cutoff = new Date(Date.now() - stuckAfterMinutes * 60 * 1000).toISOString()
+
+  const stuck = await payload.find({
+    collection: 'webhook-events',
+    where: {
+      or: [
+        { and: [{ status: { equals: 'received' } }, { createdAt: { less_than: cutoff } }] },
+        /**
+         * The worker puts an expired lock back to `received` after its lease:
+         * a lock older than the cutoff means the recovery itself is not running.
+         */
+        { and: [{ status: { equals: 'processing' } }, { lockedAt: { less_than: cutoff } }] },
+      ],
+    },
+    sort: 'createdAt',
+    limit: MAX_FINDINGS_PER_CHECK,
+    depth: 0,
+    overrideAccess: true,
+  })
+
+  const findings: ReconciliationFinding[] = stuck.docs.map((e: any) => ({
+    check: 'stuck_event',
+    reference: String(e.webhookId),
+    message:
+      e.status === 'processing'
+        ? `Webhook event ${e.topic || '(no topic)'} still processing since ${e.lockedAt}`
+        : `Webhook event ${e.topic || '(no topic)'} still received since ${e.createdAt}`,
+    details: { id: e.id, topic: e.topic, status: e.status, attempts: e.attempts ?? 0, error: e.error ?? null },
+  }))
+
+  return { total: stuck.totalDocs, findings }
+}
+
+/* ------------------------------------------------------------------ */
+/* CHECK 2 — paid orders whose plate count differs from the payload   */
+/* ------------------------------------------------------------------ */
+
+async function findPlateCountMismatches(payload: Payload, lookbackDays: number) {
+  const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000).toISOString()
+  const resolvePackSize = await loadPackSizeResolver(payload)
+
+  const findings: ReconciliationFinding[] = []
+  let total = 0
+  let unchecked = 0
+
+  for (let page = 1; ; page++) {
+    const orders = await payload.find({
+      collection: 'orders',
+      where: {
+        and: [{ status: { equals: 'paid' } }, { createdAt: { greater_than_equal: since } }],
+      },
+      sort: 'createdAt',
+      limit: PAGE_SIZE,
+      page,
+      depth: 0,
+      overrideAccess: true,
+    })
+
+    for (const order of orders.docs as any[]) {
+      /**
+       * Expected units come from the latest stored order snapshot
+       * (orders/paid, or orders/updated after an edit), the same way
+       * the topic handlers computed them.
+       */
+      const events = await payload.find({
+        collection: 'webhook-events',
+        where: {
+          and: [
+            { topic: { in: ['orders/paid', 'orders/updated'] } },
+            { orderNumber: { equals: order.orderNumber } },
+            shopFilter(getShopId(order.shop)), // order numbers are only unique per shop
+            { rawBody: { exists: true } },
+          ],
+        },
+        sort: '-createdAt',
+        limit: 1,
+        depth: 0,
+        overrideAccess: true,
+      })
+
+      let body: any = null
+      try {
+        const raw = events.docs[0] ? decodeRawBody(events.docs[0] as any) : null
+        body = raw ? JSON.parse(raw) : null
+      } catch {
+        body = null
+      }
+
+      if (!body) {
+        // Payload purged or never received: nothing to compare with
+        unchecked++
+        continue
+      }
+
+      /**
+       * Plates are never deleted: removed units stay (flagged or disabled),
+       * so a line item is expected to hold the most units it ever had.
+       */
+      const current = new Map(
+        extractGroups(body, { resolvePackSize, quantity: 'current' }).map((g) => [g.lineItemId, g.units]),
+      )
+      const expected = extractGroups(body, { resolvePackSize }).reduce(
+        (sum, g) => sum + Math.max(g.units, current.get(g.lineItemId) ?? 0, 0),
+        0,
+      )
+
+      /**
+       * Disabled plates still count: refunds disable plates, they never delete them.
+       * Replacements do not: they stand in for a unit that already has its plate.
+       */
+      const actual = await payload.count({
+        collection: 'plates',
+        where: { and: [{ order: { equals: order.id } }, { replaces: { exists: false } }] },
+        overrideAccess: true,
+      })
+
+      if (actual.totalDocs !== expected) {
+        total++
+        if (findings.length < MAX_FINDINGS_PER_CHECK) {
+          findings.push({
+            check: 'plate_count_mismatch',
+            reference: String(order.orderNumber),
+            message: `Order ${order.orderNumber}: ${actual.totalDocs} plate(s), ${expected} expected`,
+            details: { id: order.id, expected, actual: actual.totalDocs },
+          })
+        }
+      }
+    }
+
+    if (!orders.hasNextPage) break
+  }
+
+  return { total, unchecked, findings }
+}
+
+/* ------------------------------------------------------------------ */
+/* CHECK 3 — plates without an existing order                          */
+/* ------------------------------------------------------------------ */
+
+async function findOrphanPlates(payload: Payload) {
+  const findings: ReconciliationFinding[] = []
+  let total = 0
+
+  const pushOrphan = (plate: any, reason: string) => {
+    total++
+    if (findings.length < MAX_FINDINGS_PER_CHECK) {
+      findings.push({
+        check: 'orphan_plate',
+        reference: String(plate.slug),
+        message: `Plate ${plate.slug}: ${reason}`,
+        details: { id: plate.id, order: plate.order ?? null, sourceKey: plate.sourceKey },
+      })
+    }
+  }
+
+  for (let page = 1; ; page++) {
+    const plates = await payload.find({
+      collection: 'plates',
+      sort: 'createdAt',
+      limit: PAGE_SIZE,
+      page,
+      depth: 0,
+      overrideAccess: true,
+    })
+
+    const orderIds = [...new Set(plates.docs.map((p: any) => p.order).filter(Boolean).map(String))]
+    const existing = orderIds.length
+      ? await payload.find({
+          collection: 'orders',
+          where: { id: { in: orderIds } },
+          pagination: false,
+          depth: 0,
+          overrideAccess: true,
+        })
+      : { docs: [] as any[] }
+    const existingIds = new Set(existing.docs.map((o: any) => String(o.id)))
+
+    for (const plate of plates.docs as any[]) {
+      if (!plate.order) pushOrphan(plate, 'no linked order')
+      else if (!existingIds.has(String(plate.order))) pushOrphan(plate, `linked order ${plate.order} does not exist`)
+    }
+
+    if (!plates.hasNextPage) break
+  }
+
+  return { total, findings }
+}
+
+/* ------------------------------------------------------------------ */
+/* RUN                                                                 */
+/* ------------------------------------------------------------------ */
+
+async function reconcileOnce(payload: Payload, opts: Required<ReconciliationOptions>) {
+  const startedAt = new Date()
+
+  const stuck = await findStuckEvents(payload, opts.stuckAfterMinutes)
+  const mismatches = await findPlateCountMismatches(payload, opts.lookbackDays)
+  const orphans = await findOrphanPlates(payload)
+
+  const findings = [...stuck.findings, ...mismatches.findings, ...orphans.findings]
+  const summary = {
+    stuckEvents: stuck.total,
+    plateCountMismatches: mismatches.total,
+    ordersWithoutPayload: mismatches.unchecked,
+    orphanPlates: orphans.total,
+  }
+  const hasIssues = stuck.total + mismatches.total + orphans.total > 0
+
+  const report = await payload.create({
+    collection: 'reconciliation-reports',
+    data: {
+      runAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      status: hasIssues ? 'issues' : 'ok',
+      summary,
+      findings,
+    },
+    overrideAccess: true,
+  })
+
+  const notifyTo = process.env.RECONCILIATION_EMAIL || process.env.PLATES_NOTIFICATION_EMAIL
+  if (!hasIssues || !notifyTo) return
+
+  try {
+    // The digest covers every shop: global settings only, no shop override
+    const preferences = await loadInternalRecipientPreferences(payload)
+
+    await payload.sendEmail({
+      to: notifyTo,
+      subject: buildReconciliationDigestSubject({ findingsCount: findings.length, locale: preferences.locale }),
+      html: buildReconciliationDigestHtml({
+        runAt: startedAt,
+        summary,
+        findings,
+        reportUrl: `${(process.env.PUBLIC_APP_URL || '').replace(/\/$/, '')}/admin/collections/reconciliation-reports/${report.id}`,
+        preferences,
+      }),
+    })
+  } catch (e) {
+    // The report is the source of truth; the email is a convenience
+    payload.logger?.error?.(e, 'Reconciliation digest email failed')
+  }
+}
+
+/**
+ * Starts a lightweight in-process reconciliation loop.
+ *
+ * Three checks, one `reconciliation-reports` record per run:
+ * - webhook events stuck in `received` past a threshold
+ * - `paid` orders whose plate count differs from `quantity × packSize` in the latest stored payload
+ * - plates with no linked (or a deleted) order
+ *
+ * A digest email is sent when something is found.
+ *
+ * Notes:
+ * - This is intentionally "best effort": it must never crash the app.
+ * - Read-only: findings are reported, never fixed automatically.
+ */
+export function startOrdersReconciliation(payload: Payload, opts: ReconciliationOptions = {}) {
+  const resolved: Required<ReconciliationOptions> = {
+    everyMs: opts.everyMs ?? 6 * 60 * 60 * 1000, // 6h
+    stuckAfterMinutes: opts.stuckAfterMinutes ?? 30,
+    lookbackDays: opts.lookbackDays ?? 30,
+  }
+
+  let running = false
+
+  const run = (label: string) => {
+    if (running) return
+    running = true
+
+    reconcileOnce(payload, resolved)
+      .catch((err) => {
+        payload.logger?.error?.(err, `Orders reconciliation failed (${label})`)
+      })
+      .finally(() => {
+        running = false
+      })
+  }
+
+  // Run once at boot, then periodically (best effort).
+  run('boot')
+  setInterval(() => run('interval'), resolved.everyMs)
+}
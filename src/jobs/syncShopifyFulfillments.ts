@@ -0,0 +1,154 @@
+import type { Payload, Where } from 'payload'
+
+import { createShopifyAdminClient, getShopifyAdminConfig, type ShopifyAdminClient } from '../shopify/shopifyAdminClient'
+import { syncOrderFulfillments } from '../shopify/syncOrderFulfillments'
+import { findShopById, getShopId } from '../shops/resolveShop'
+
+type SyncOptions = {
+  /**
+   * Interval between sync runs.
+   * Default: every minute.
+   */
+  everyMs?: number
+
+  /**
+   * Maximum number of orders synced per run.
+   * Default: 20.
+   */
+  batchSize?: number
+}
+
+/**
+ * Last candidate looked at by the previous run (`shippedAt`, then `id` for plates shipped together).
+ */
+type SyncCursor = { shippedAt: string; id: string | number } | null
+
+/**
+ * Syncs the orders of the next candidates after `cursor` and returns where to resume.
+ *
+ * Plates that keep failing or waiting (line item partly shipped, shop without token)
+ * stay candidates: always starting from the oldest, they would fill every run and
+ * newer shipments would never be reached. Runs go through the candidates instead,
+ * and start over once past the last one.
+ */
+async function syncOnce(payload: Payload, batchSize: number, cursor: SyncCursor): Promise<SyncCursor> {
+  /**
+   * Candidates: plates that went through `shipped` and were never synced.
+   * `shippedAt` excludes plates activated before the lifecycle existed.
+   */
+  const after: Where[] = cursor
+    ? [
+        {
+          or: [
+            { shippedAt: { greater_than: cursor.shippedAt } },
+            { and: [{ shippedAt: { equals: cursor.shippedAt } }, { id: { greater_than: cursor.id } }] },
+          ],
+        },
+      ]
+    : []
+  const limit = batchSize * 10
+  const pending = await payload.find({
+    collection: 'plates',
+    where: {
+      and: [
+        { shippedAt: { exists: true } },
+        { fulfillmentSyncedAt: { exists: false } },
+        { status: { not_equals: 'disabled' } },
+        ...after,
+      ],
+    },
+    sort: ['shippedAt', 'id'],
+    limit,
+    depth: 0,
+    overrideAccess: true,
+  })
+
+  // Orders of the first candidates, up to `batchSize`; the cursor stops at the last plate taken
+  const orderIds = new Set<string>()
+  let next: SyncCursor = null
+  let scanned = 0
+  for (const plate of pending.docs as any[]) {
+    const orderId = String(plate.order)
+    if (!orderIds.has(orderId) && orderIds.size >= batchSize) break
+    orderIds.add(orderId)
+    next = { shippedAt: plate.shippedAt, id: plate.id }
+    scanned++
+  }
+  // Past the last candidate: the next run starts over
+  const resumeAt = scanned === pending.docs.length && pending.docs.length < limit ? null : next
+
+  /**
+   * One client per shop (each shop has its own token and rate limit bucket).
+   * `null` = not configured for that shop: its orders are skipped.
+   */
+  const clients = new Map<string, ShopifyAdminClient | null>()
+  const getClient = async (shopId: string | number | null) => {
+    const key = String(shopId ?? '')
+    if (!clients.has(key)) {
+      const shop = shopId === null ? null : await findShopById(payload, shopId)
+      const config = shopId === null || shop ? getShopifyAdminConfig(shop) : null
+      clients.set(key, config ? createShopifyAdminClient(payload, config) : null)
+    }
+    return clients.get(key)!
+  }
+
+  // Sequential on purpose: Shopify rate limits are per store
+  for (const orderId of orderIds) {
+    try {
+      const order = await payload.findByID({ collection: 'orders', id: orderId, depth: 0, overrideAccess: true })
+      if (!order?.shopifyOrderId) continue
+
+      const client = await getClient(getShopId((order as any).shop))
+      if (!client) continue
+
+      const res = await syncOrderFulfillments(payload, client, order as any)
+      if (res.fulfillmentIds.length) {
+        payload.logger?.info?.(
+          `Shopify fulfillments created for order ${order.orderNumber}: ${res.fulfillmentIds.join(', ')}`,
+        )
+      }
+    } catch (err) {
+      // Retried on the next run; the failed calls are in `shopify-api-calls`
+      payload.logger?.error?.(err, `Shopify fulfillment sync failed for order ${orderId}`)
+    }
+  }
+
+  return resumeAt
+}
+
+/**
+ * Starts the in-process Shopify fulfillment sync loop.
+ *
+ * Marks Shopify line items as fulfilled (with tracking) once all their plates are shipped.
+ *
+ * Notes:
+ * - Orders of a shop without Admin API token (`shops.adminApiToken`, or
+ *   `SHOPIFY_ADMIN_API_TOKEN` for legacy orders) are skipped.
+ * - This is intentionally "best effort": it must never crash the app.
+ * - Each run resumes after the candidates of the previous one (in memory: a restart starts over),
+ *   so plates that keep failing never hold back newer shipments.
+ * - Runs never overlap: a slow run delays the next one instead of racing it.
+ */
+export function startShopifyFulfillmentSync(payload: Payload, opts: SyncOptions = {}) {
+  const everyMs = opts.everyMs ?? 60 * 1000
+  const batchSize = opts.batchSize ?? 20
+
+  let running = false
+  let cursor: SyncCursor = null
+
+  setInterval(() => {
+    if (running) return
+    running = true
+
+    syncOnce(payload, batchSize, cursor)
+      .then((next) => {
+        cursor = next
+      })
+      .catch((err) => {
+        payload.logger?.error?.(err, 'Shopify fulfillment sync run failed')
+      })
+      .finally(() => {
+        running = false
+      })
+  }, everyMs)
+}
@@ -0,0 +1,46 @@
+import type { Payload } from 'payload'
+
+import { buildEmailHtml, buildEmailSubject } from '../email/buildNotificationEmail'
+import { loadInternalRecipientPreferences } from '../i18n/recipientPreferences'
+import type { ShopContext } from '../shops/resolveShop'
+
+/**
+ * Internal "new plates to configure" email, sent to the shop's notification
+ * address (or `PLATES_NOTIFICATION_EMAIL`).
+ *
+ * Best effort: failures are logged, never thrown, so they cannot affect
+ * webhook processing.
+ */
+export async function notifyNewPlates(
+  payload: Payload,
+  params: {
+    shop: ShopContext | null
+    orderNumber: string
+    customerEmail: string
+    createdPlates: Array<{ slug: string; publicUrl: string; destinationType: string }>
+  },
+): Promise<void> {
+  const { shop, orderNumber, customerEmail, createdPlates } = params
+
+  const notifyTo = shop?.notificationEmail || process.env.PLATES_NOTIFICATION_EMAIL
+  if (!notifyTo || !createdPlates.length) return
+
+  try {
+    const preferences = await loadInternalRecipientPreferences(payload, shop)
+
+    await payload.sendEmail({
+      to: notifyTo,
+      subject: buildEmailSubject({ orderNumber, locale: preferences.locale }),
+      html: buildEmailHtml({
+        orderNumber,
+        customerEmail,
+        createdPlates,
+        publicBaseUrl: process.env.PUBLIC_APP_URL || '',
+        preferences,
+      }),
+    })
+  } catch (e) {
+    // Email failure must never affect webhook delivery
+    payload.logger?.error?.(e, 'Admin email notification failed')
+  }
+}
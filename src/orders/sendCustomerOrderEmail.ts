@@ -0,0 +1,114 @@
+import type { Payload } from 'payload'
+
+import {
+  buildCustomerOrderEmailHtml,
+  buildCustomerOrderEmailSubject,
+  buildCustomerOrderQrFilename,
+} from '../email/buildCustomerOrderEmail'
+import { resolveLocale } from '../i18n/locales'
+import { encodeQrCode } from '../qr/encodeQrCode'
+import { renderQrPng } from '../qr/renderQrPng'
+
+/**
+ * Sends the order confirmation email (plate links + QR codes) to the customer, at most once.
+ *
+ * The order is claimed first (`customerEmailStatus` → `sending`, conditional update),
+ * then the email is sent. A webhook retry or a concurrent worker sees the claim
+ * and skips the send.
+ *
+ * Trade-off: a crash between the claim and the send leaves the order in `sending`
+ * and the email is never sent automatically (at-most-once). Support can reset the
+ * status to `pending` and reprocess the event.
+ *
+ * Email failures are recorded on the order and never thrown.
+ *
+ * Written in the language of the order (`customerLocale`, French when unknown).
+ */
+export async function sendCustomerOrderEmail(
+  payload: Payload,
+  order: { id: string | number; orderNumber: string; customerEmail: string; customerLocale?: string | null },
+  plates: Array<{ slug: string; status?: string }>,
+): Promise<void> {
+  const publicBaseUrl = (process.env.PUBLIC_APP_URL || '').replace(/\/$/, '')
+  if (!publicBaseUrl) {
+    // Relative links and QR codes would be useless to the customer
+    payload.logger?.warn?.(`PUBLIC_APP_URL is not set: customer email skipped for order ${order.orderNumber}`)
+    return
+  }
+
+  // Plates are not activated yet at order time: list everything still live
+  const activePlates = plates.filter((p) => p.status !== 'disabled')
+  if (!activePlates.length) return
+
+  const claim = await payload.update({
+    collection: 'orders',
+    where: {
+      and: [
+        { id: { equals: order.id } },
+        {
+          or: [
+            { customerEmailStatus: { exists: false } },
+            { customerEmailStatus: { in: ['pending', 'failed'] } },
+          ],
+        },
+      ],
+    },
+    data: { customerEmailStatus: 'sending' },
+    overrideAccess: true,
+  })
+  if (!claim.docs.length) return
+
+  try {
+    const locale = resolveLocale(order.customerLocale)
+    const items = activePlates.map((p) => {
+      const publicUrl = `${publicBaseUrl}/p/${p.slug}`
+      return {
+        slug: p.slug,
+        publicUrl,
+        qrCid: `qr-${p.slug}@plates`,
+        png: renderQrPng(encodeQrCode(publicUrl)),
+      }
+    })
+
+    await payload.sendEmail({
+      to: order.customerEmail,
+      subject: buildCustomerOrderEmailSubject({ orderNumber: order.orderNumber, locale }),
+      html: buildCustomerOrderEmailHtml({
+        orderNumber: order.orderNumber,
+        plates: items,
+        portalUrl: process.env.PORTAL_URL || `${publicBaseUrl}/portal`,
+        locale,
+      }),
+      attachments: items.map((i) => ({
+        filename: buildCustomerOrderQrFilename({ slug: i.slug, locale }),
+        content: i.png,
+        contentType: 'image/png',
+        cid: i.qrCid,
+      })),
+    })
+
+    await payload.update({
+      collection: 'orders',
+      id: order.id,
+      data: {
+        customerEmailStatus: 'sent',
+        customerEmailSentAt: new Date().toISOString(),
+        customerEmailError: null,
+      },
+      overrideAccess: true,
+    })
+  } catch (e: any) {
+    // Email failure must never affect webhook processing
+    payload.logger?.error?.(e, `Customer email failed for order ${order.orderNumber}`)
+
+    await payload.update({
+      collection: 'orders',
+      id: order.id,
+      data: {
+        customerEmailStatus: 'failed',
+        customerEmailError: String(e?.message ?? e),
+      },
+      overrideAccess: true,
+    })
+  }
+}
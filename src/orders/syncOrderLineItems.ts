@@ -0,0 +1,232 @@
+import type { Payload } from 'payload'
+
+import { normalizeDestination } from '../destinations/normalizeDestination'
+import { destinationToPlateData, isLegacyDestinationSource } from '../destinations/plateDestination'
+import { createPlateWithUniqueSlug } from '../plates/createPlateWithUniqueSlug'
+import { loadPackSizeResolver } from '../plates/loadPackSizeResolver'
+import type { ShopContext } from '../shops/resolveShop'
+import { extractGroups } from '../utils/extractGroups'
+import { parseSourceKey } from '../utils/parseSourceKey'
+import type { WebhookErrorCode } from '../webhook/pipeline/errorCodes'
+
+export type OrderLineItemsSyncResult =
+  | {
+      ok: true
+      /** Plates created by this call (for the workshop notification). */
+      createdPlates: Array<{ slug: string; destinationType: string; publicUrl: string }>
+      updatedPlatesCount: number
+      flaggedPlatesCount: number
+    }
+  | { ok: false; errorCode: WebhookErrorCode; error: string }
+
+/**
+ * Brings the plates of a paid order in line with its current Shopify line items
+ * (after an order edit or any `orders/updated` delivery).
+ *
+ * Per line item carrying a destination (see `extractGroups`):
+ * - Missing units get a plate, through the same `orderNumber|lineItemId|index`
+ *   `sourceKey` scheme as `orders/paid` (retries and races stay idempotent)
+ * - Units removed by the edit (`current_quantity` lowered) are flagged for
+ *   disabling, highest index first, never deleted nor disabled automatically:
+ *   the tag may already be encoded or shipped, support decides
+ * - A flagged unit that comes back (quantity raised again) is unflagged
+ * - When the properties themselves changed, live plates get the new destination
+ *   (possibly of another type)
+ *
+ * The properties are compared with `plates.sourceDestination` (fingerprint of
+ * the last value seen from Shopify), not with the destination: an unrelated
+ * update never overwrites a destination the customer changed in the portal.
+ * Plates created before this field existed (or holding a legacy Wi-Fi fingerprint
+ * with the password in clear) only get it recorded on their first update.
+ *
+ * Plates of line items no longer present in the payload are flagged too.
+ * Line items without a destination are left alone.
+ */
+export async function syncOrderLineItems(
+  payload: Payload,
+  params: {
+    order: { id: string | number; orderNumber: string }
+    shop: ShopContext | null
+    body: any
+    actor: string
+  },
+): Promise<OrderLineItemsSyncResult> {
+  const { order, shop, body, actor } = params
+  const context = { actor }
+
+  const groups = extractGroups(body, {
+    resolvePackSize: await loadPackSizeResolver(payload),
+    quantity: 'current',
+  })
+
+  if (groups.some((g) => !g.packSize)) {
+    return {
+      ok: false,
+      errorCode: 'PACK_SIZE_UNKNOWN',
+      error:
+        'Unable to infer pack size: no pack-mapping for variant_id/sku, and variant_title fallback failed or is disabled.',
+    }
+  }
+
+  const plates = await payload.find({
+    collection: 'plates',
+    where: { order: { equals: order.id } },
+    pagination: false,
+    depth: 0,
+  })
+
+  const byLineItem = new Map<string, Array<{ plate: any; index: number }>>()
+  for (const plate of plates.docs as any[]) {
+    const key = parseSourceKey(plate.sourceKey)
+    if (!key || key.orderNumber !== order.orderNumber) continue
+    const list = byLineItem.get(key.lineItemId) ?? []
+    list.push({ plate, index: key.index })
+    byLineItem.set(key.lineItemId, list)
+  }
+
+  const result = {
+    ok: true as const,
+    createdPlates: [] as Array<{ slug: string; destinationType: string; publicUrl: string }>,
+    updatedPlatesCount: 0,
+    flaggedPlatesCount: 0,
+  }
+  const flaggedAt = new Date().toISOString()
+
+  const flag = async (plate: any, reason: string) => {
+    if (plate.status === 'disabled' || plate.flaggedForDisableAt) return
+    await payload.update({
+      collection: 'plates',
+      id: plate.id,
+      data: { flaggedForDisableAt: flaggedAt, flaggedForDisableReason: reason },
+      context,
+    })
+    result.flaggedPlatesCount++
+  }
+
+  for (const g of groups) {
+    const existing = byLineItem.get(g.lineItemId) ?? []
+    const live = existing.filter(({ plate }) => plate.status !== 'disabled')
+
+    /* ----------------------------- destination ---------------------------- */
+
+    const recorded = (plate: any) =>
+      plate.sourceDestination && !isLegacyDestinationSource(plate.sourceDestination)
+    const changed = live.filter(({ plate }) => recorded(plate) && plate.sourceDestination !== g.sourceDestination)
+    const existingIndexes = new Set(existing.map(({ index }) => index))
+    const missing = Array.from({ length: g.units }, (_, i) => i).filter((i) => !existingIndexes.has(i))
+
+    /**
+     * Google share links are resolved over the network: only when the
+     * destination is actually needed (new plates or changed properties).
+     * Network failures throw, so the worker retries instead of failing the edit.
+     */
+    let destinationData: ReturnType<typeof destinationToPlateData> | null = null
+    if (changed.length || missing.length) {
+      const normalized = await normalizeDestination(g.destination)
+      if (!normalized.ok) {
+        return {
+          ok: false,
+          errorCode: 'INVALID_DESTINATION',
+          error:
+            `Invalid ${g.destination.type} destination (${normalized.code}: ${normalized.message})` +
+            ` on line item ${g.lineItemId}`,
+        }
+      }
+      destinationData = destinationToPlateData(normalized.destination)
+    }
+
+    for (const { plate } of live) {
+      if (!recorded(plate)) {
+        // Legacy plate: record the Shopify value, keep the current destination
+        await payload.update({
+          collection: 'plates',
+          id: plate.id,
+          data: { sourceDestination: g.sourceDestination },
+          context,
+        })
+      } else if (plate.sourceDestination !== g.sourceDestination) {
+        await payload.update({
+          collection: 'plates',
+          id: plate.id,
+          data: { ...destinationData, sourceDestination: g.sourceDestination },
+          context,
+        })
+        result.updatedPlatesCount++
+      }
+    }
+
+    /* ------------------------------ quantity ------------------------------ */
+
+    for (const index of missing) {
+      const plate = await createPlateWithUniqueSlug(
+        payload,
+        {
+          shop: shop?.id,
+          order: order.id,
+          sourceKey: `${order.orderNumber}|${g.lineItemId}|${index}`,
+          ...destinationData,
+          sourceDestination: g.sourceDestination,
+          status: 'created',
+        },
+        { context },
+      )
+      // null: created concurrently (e.g. by the orders/paid handler)
+      if (plate) {
+        result.createdPlates.push({
+          slug: plate.slug,
+          destinationType: destinationData!.destinationType,
+          publicUrl: `/p/${plate.slug}`,
+        })
+      }
+    }
+
+    const removed = live
+      .filter(({ index }) => index >= g.units)
+      .sort((a, b) => b.index - a.index)
+    for (const { plate } of removed) {
+      await flag(plate, `Removed by a Shopify order edit (line item ${g.lineItemId}: ${g.units} plate(s) left)`)
+    }
+
+    const restored = live.filter(({ plate, index }) => index < g.units && plate.flaggedForDisableAt)
+    for (const { plate } of restored) {
+      await payload.update({
+        collection: 'plates',
+        id: plate.id,
+        data: { flaggedForDisableAt: null, flaggedForDisableReason: null },
+        context,
+      })
+    }
+  }
+
+  /* ----------------------- line items no longer on the order ----------------------- */
+
+  const lineItemIds = new Set(
+    (Array.isArray(body?.line_items) ? body.line_items : []).map((item: any) =>
+      String(item?.id ?? item?.admin_graphql_api_id ?? ''),
+    ),
+  )
+  for (const [lineItemId, list] of byLineItem) {
+    if (lineItemIds.has(lineItemId)) continue
+    for (const { plate } of list) {
+      await flag(plate, `Line item ${lineItemId} no longer on the Shopify order`)
+    }
+  }
+
+  /* ----------------------------- order relation ----------------------------- */
+
+  if (result.createdPlates.length > 0) {
+    const finalPlates = await payload.find({
+      collection: 'plates',
+      where: { order: { equals: order.id } },
+      pagination: false,
+      depth: 0,
+    })
+    await payload.update({
+      collection: 'orders',
+      id: order.id,
+      data: { plates: finalPlates.docs.map((p: any) => p.id) },
+    })
+  }
+
+  return result
+}
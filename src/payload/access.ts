@@ -0,0 +1,86 @@
+import type { Where } from 'payload'
+
+/**
+ * Shared access helpers.
+ *
+ * Three kinds of callers exist:
+ * - Admins: users of the admin panel (`users` collection)
+ *   - super admins see every shop
+ *   - shop admins only see the shops listed in `users.shops`
+ * - Customers: portal sessions (`customers` collection, magic-link login)
+ * - Internal backend processes (webhooks, jobs) flagged with `req.isInternal`
+ *
+ * IMPORTANT:
+ * `Boolean(req.user)` is NOT an admin check anymore: a logged-in customer
+ * also has a `req.user`. Always use `isAdmin` for staff-only rules, and
+ * `shopScopedAccess` for anything that belongs to a shop.
+ */
+
+export const ADMIN_COLLECTION = 'users'
+export const CUSTOMER_COLLECTION = 'customers'
+
+export const SUPER_ADMIN_ROLE = 'super-admin'
+export const SHOP_ADMIN_ROLE = 'shop-admin'
+
+export function isAdmin(req: any): boolean {
+  return req?.user?.collection === ADMIN_COLLECTION
+}
+
+export function isCustomer(req: any): boolean {
+  return req?.user?.collection === CUSTOMER_COLLECTION
+}
+
+export function isInternal(req: any): boolean {
+  return Boolean(req?.isInternal)
+}
+
+/**
+ * Admins allowed across all shops.
+ * Users created before roles existed (no `role`) keep their full access.
+ */
+export function isSuperAdmin(req: any): boolean {
+  return isAdmin(req) && (req.user.role ?? SUPER_ADMIN_ROLE) === SUPER_ADMIN_ROLE
+}
+
+/**
+ * IDs of the shops a shop admin manages (relationship may be populated or not).
+ */
+export function getAdminShopIds(req: any): string[] {
+  const shops: any[] = Array.isArray(req?.user?.shops) ? req.user.shops : []
+  return shops
+    .map((s) => (typeof s === 'object' && s !== null ? s.id : s))
+    .filter((id) => id !== null && id !== undefined && id !== '')
+    .map(String)
+}
+
+/**
+ * Access result for documents that belong to a shop.
+ *
+ * - internal processes and super admins: everything
+ * - shop admins: documents whose `field` is one of their shops
+ * - anyone else: nothing
+ */
+export function shopScopedAccess(req: any, field = 'shop'): boolean | Where {
+  if (isInternal(req) || isSuperAdmin(req)) return true
+  if (isAdmin(req)) return { [field]: { in: getAdminShopIds(req) } }
+  return false
+}
+
+/**
+ * Field access for the `shop` relationship: collection access only filters
+ * which documents an admin can reach, not the values written. Without this,
+ * a shop admin could move a document to another shop.
+ *
+ * Super admins only (local API calls of backend processes bypass field access).
+ */
+export function shopFieldUpdateAccess({ req }: { req: any }): boolean {
+  return isSuperAdmin(req)
+}
+
+/**
+ * Field access for values only backend processes write (queue state, stored payloads):
+ * read-only for every user, unlike `admin.readOnly` which only hides the input.
+ */
+export function internalFieldUpdateAccess({ req }: { req: any }): boolean {
+  return isInternal(req)
+}
@@ -0,0 +1,99 @@
+import type { CollectionConfig } from 'payload'
+
+import { isInternal, isSuperAdmin } from '../access'
+
+export const AbuseEvents: CollectionConfig = {
+  slug: 'abuse-events',
+  labels: {
+    singular: { fr: 'Événement d\'abus', en: 'Abuse event', de: 'Missbrauchsereignis' },
+    plural: { fr: 'Événements d\'abus', en: 'Abuse events', de: 'Missbrauchsereignisse' },
+  },
+
+  admin: {
+    useAsTitle: 'kind',
+    defaultColumns: ['detectedAt', 'kind', 'ipHash', 'count', 'lastSlug'],
+  },
+
+  /**
+   * Suspicious traffic on public plate routes (see `src/redirect/abuseDetection.ts`).
+   *
+   * At most one record per client and kind per detection window, so an
+   * ongoing scan does not flood the collection.
+   *
+   * Clients are identified by the salted IP hash only (same as `plate-scans`).
+   * Not tied to a shop: super admins only.
+   */
+  access: {
+    read: ({ req }) => isSuperAdmin(req),
+    create: ({ req }) => isInternal(req),
+    update: () => false,
+    delete: ({ req }) => isSuperAdmin(req),
+  },
+
+  fields: [
+    {
+      name: 'kind',
+      type: 'select',
+      required: true,
+      index: true,
+      options: [
+        {
+          label: {
+            fr: 'Balayage de slugs (nombreux slugs inconnus)',
+            en: 'Slug scanning (many unknown slugs)',
+            de: 'Slug-Scanning (viele unbekannte Slugs)',
+          },
+          value: 'slug_scanning',
+        },
+        {
+          label: {
+            fr: 'Limite de requêtes dépassée',
+            en: 'Rate limit exceeded',
+            de: 'Anfragelimit überschritten',
+          },
+          value: 'rate_limited',
+        },
+      ],
+    },
+    {
+      name: 'detectedAt',
+      type: 'date',
+      required: true,
+      index: true,
+      admin: {
+        date: { pickerAppearance: 'dayAndTime' },
+      },
+    },
+    {
+      name: 'ipHash',
+      type: 'text',
+      index: true,
+    },
+    {
+      name: 'route',
+      type: 'text',
+    },
+    {
+      name: 'count',
+      type: 'number',
+      admin: {
+        description: 'Hits (or unknown slugs) counted in the window when the threshold was reached.',
+      },
+    },
+    {
+      name: 'windowMs',
+      type: 'number',
+    },
+    {
+      name: 'lastSlug',
+      type: 'text',
+      admin: {
+        description: 'Slug requested when the event was detected (truncated).',
+      },
+    },
+    {
+      name: 'userAgentClass',
+      type: 'text',
+    },
+  ],
+}
@@ -0,0 +1,93 @@
+import type { CollectionConfig } from 'payload'
+
+import { portalSessionStrategy } from '../../portal/portalSessionStrategy'
+import {
+  consumeMagicLinkEndpoint,
+  customerPlatesEndpoint,
+  logoutEndpoint,
+  requestMagicLinkEndpoint,
+  updateCustomerPlateEndpoint,
+  verifyMagicLinkEndpoint,
+} from '../../portal/portal.endpoints'
+import { isCustomer, isSuperAdmin } from '../access'
+
+export const Customers: CollectionConfig = {
+  slug: 'customers',
+  labels: {
+    singular: { fr: 'Client', en: 'Customer', de: 'Kunde' },
+    plural: { fr: 'Clients', en: 'Customers', de: 'Kunden' },
+  },
+
+  admin: {
+    useAsTitle: 'email',
+    defaultColumns: ['email', 'lastLoginAt'],
+  },
+
+  /**
+   * Customers of the self-service portal.
+   *
+   * - No password: login only through a single-use magic link sent to an
+   *   email that placed at least one order (`orders.customerEmail`).
+   * - Sessions are signed cookies resolved by `portalSessionStrategy`.
+   * - A customer is created on the first magic-link request.
+   *
+   * Customers can never access the admin panel (`admin.user` is `users`).
+   */
+  auth: {
+    disableLocalStrategy: true,
+    strategies: [portalSessionStrategy],
+  },
+
+  access: {
+    // Portal accounts span shops (one email, orders anywhere): super admins only
+    read: ({ req }) => {
+      if (isSuperAdmin(req)) return true
+      if (isCustomer(req)) return { id: { equals: req.user?.id } }
+      return false
+    },
+    create: ({ req }) => isSuperAdmin(req),
+    update: ({ req }) => isSuperAdmin(req),
+    delete: ({ req }) => isSuperAdmin(req),
+  },
+
+  endpoints: [
+    requestMagicLinkEndpoint,
+    verifyMagicLinkEndpoint,
+    consumeMagicLinkEndpoint,
+    logoutEndpoint,
+    customerPlatesEndpoint,
+    updateCustomerPlateEndpoint,
+  ],
+
+  fields: [
+    {
+      name: 'email',
+      label: { fr: 'Email', en: 'Email', de: 'E-Mail' },
+      type: 'email',
+      required: true,
+      unique: true,
+      index: true,
+    },
+    {
+      name: 'magicLinkTokenHash',
+      type: 'text',
+      index: true,
+      hidden: true,
+    },
+    {
+      name: 'magicLinkExpiresAt',
+      type: 'date',
+      hidden: true,
+    },
+    {
+      name: 'lastLoginAt',
+      label: { fr: 'Dernière connexion', en: 'Last login', de: 'Letzte Anmeldung' },
+      type: 'date',
+      admin: {
+        readOnly: true,
+      },
+    },
+  ],
+
+  timestamps: true,
+}
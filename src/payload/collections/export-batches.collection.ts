@@ -0,0 +1,82 @@
+import type { CollectionConfig } from 'payload'
+
+import { exportPlatesEndpoint } from '../../export/export-plates.endpoint'
+import { isAdmin, isInternal, shopScopedAccess } from '../access'
+
+export const ExportBatches: CollectionConfig = {
+  slug: 'export-batches',
+  labels: {
+    singular: { fr: 'Lot d\'export', en: 'Export batch', de: 'Exportcharge' },
+    plural: { fr: 'Lots d\'export', en: 'Export batches', de: 'Exportchargen' },
+  },
+
+  admin: {
+    useAsTitle: 'label',
+    defaultColumns: ['label', 'plateCount', 'createdBy', 'createdAt'],
+  },
+
+  /**
+   * One record per production export (NFC encoding manifest).
+   *
+   * Created by the export endpoint only, and immutable afterwards:
+   * it is the audit trail of what was sent to the workshop.
+   * Shop admins see the batches containing plates of their shops.
+   */
+  access: {
+    read: ({ req }) => shopScopedAccess(req, 'shops'),
+    create: ({ req }) => isInternal(req) || isAdmin(req),
+    update: () => false,
+    delete: ({ req }) => isAdmin(req) && shopScopedAccess(req, 'shops'),
+  },
+
+  /**
+   * POST /api/export-batches/export → ZIP (manifest.csv + one .ndef file per plate)
+   */
+  endpoints: [exportPlatesEndpoint],
+
+  fields: [
+    {
+      name: 'label',
+      label: { fr: 'Libellé', en: 'Label', de: 'Bezeichnung' },
+      type: 'text',
+      required: true,
+    },
+    {
+      name: 'filter',
+      label: { fr: 'Filtre', en: 'Filter', de: 'Filter' },
+      type: 'json',
+      admin: {
+        description: 'Export request: `{ orderNumber }` or `{ from, to }` (plate creation dates).',
+      },
+    },
+    {
+      name: 'shops',
+      label: { fr: 'Boutiques', en: 'Shops', de: 'Shops' },
+      type: 'relationship',
+      relationTo: 'shops',
+      hasMany: true,
+      index: true,
+      admin: {
+        description: 'Shops of the exported plates.',
+      },
+    },
+    {
+      name: 'plateCount',
+      label: { fr: 'Nombre de plaques', en: 'Plate count', de: 'Anzahl Schilder' },
+      type: 'number',
+    },
+    {
+      name: 'plates',
+      label: { fr: 'Plaques exportées', en: 'Exported plates', de: 'Exportierte Schilder' },
+      type: 'relationship',
+      relationTo: 'plates',
+      hasMany: true,
+    },
+    {
+      name: 'createdBy',
+      label: { fr: 'Exporté par', en: 'Exported by', de: 'Exportiert von' },
+      type: 'relationship',
+      relationTo: 'users',
+    },
+  ],
+}
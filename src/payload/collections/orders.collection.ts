@@ -1,7 +1,16 @@
 import type { CollectionConfig } from "payload";
 
+import { orderScansEndpoint } from "../../analytics/order-scans.endpoint";
+import { LOCALE_OPTIONS } from "../../i18n/locales";
+import { shopScopeField } from "../../shops/shopScope";
+import { isAdmin, isCustomer, isInternal, isSuperAdmin, shopFieldUpdateAccess, shopScopedAccess } from "../access";
+
 export const Orders: CollectionConfig = {
   slug: "orders",
+  labels: {
+    singular: { fr: "Commande", en: "Order", de: "Bestellung" },
+    plural: { fr: "Commandes", en: "Orders", de: "Bestellungen" },
+  },
 
   admin: {
     useAsTitle: "orderNumber",
@@ -11,48 +20,134 @@ export const Orders: CollectionConfig = {
    * Orders are created and updated exclusively by backend processes
    * (Shopify webhooks, internal jobs).
    *
-   * They are readable by admins for support/debug purposes.
-   * They are NOT writable by public users.
+   * They are readable by admins for support/debug purposes
+   * (shop admins: orders of their shops only),
+   * and by customers (portal) for their own orders only.
+   * They are NOT writable by public users nor customers.
    */
   access: {
     read: ({ req }) => {
-      // Admins can read
-      if (req.user) return true;
+      // Internal backend processes, super admins, shop admins (scoped)
+      if (isInternal(req) || isAdmin(req)) return shopScopedAccess(req);
 
-      // Internal backend processes (webhooks, jobs)
-      if ((req as any).isInternal) return true;
+      // Customers only see orders placed with their email
+      if (isCustomer(req)) {
+        return { customerEmail: { equals: String(req.user?.email ?? "") } };
+      }
 
       return false;
     },
-    create: ({ req }) => Boolean((req as any).isInternal) || Boolean(req.user),
-    update: ({ req }) => Boolean((req as any).isInternal) || Boolean(req.user), // webhook (no user)
-    delete: ({ req }) => Boolean(req.user),
+    create: ({ req }) => isInternal(req) || isSuperAdmin(req),
+    update: ({ req }) => shopScopedAccess(req), // webhook (no user)
+    delete: ({ req }) => shopScopedAccess(req),
+  },
+
+  /**
+   * Order numbers are only unique within a shop.
+   * On `shopScope`, not `shop`: legacy orders (no shop) share the `legacy` scope,
+   * while a null `shop` would never collide (see `shopScopeField`).
+   */
+  indexes: [{ fields: ["shopScope", "orderNumber"], unique: true }],
+
+  /**
+   * Admin-only analytics: daily tap counts for every plate of the order.
+   * GET /api/orders/:id/scans
+   */
+  endpoints: [orderScansEndpoint],
+
+  hooks: {
+    beforeValidate: [
+      /**
+       * Emails are stored normalized (trimmed, lowercase) so the customer
+       * portal can match orders to a login email with a strict equality.
+       */
+      ({ data }) => {
+        if (data?.customerEmail) {
+          data.customerEmail = String(data.customerEmail).trim().toLowerCase();
+        }
+        return data;
+      },
+    ],
   },
 
   fields: [
+    {
+      name: "shop",
+      label: { fr: "Boutique", en: "Shop", de: "Shop" },
+      type: "relationship",
+      relationTo: "shops",
+      index: true,
+      access: { update: shopFieldUpdateAccess },
+      admin: {
+        readOnly: true,
+        description: "Shop that sent the order (empty for legacy single-shop orders).",
+      },
+    },
+    shopScopeField,
     {
       name: "orderNumber",
-      label: "Numéro de commande",
+      label: { fr: "Numéro de commande", en: "Order number", de: "Bestellnummer" },
       type: "text",
       required: true,
-      unique: true, // business-level idempotency key
+      index: true, // business-level idempotency key, unique per shop (see `indexes`)
+    },
+    {
+      name: "shopifyOrderId",
+      label: { fr: "ID Shopify", en: "Shopify ID", de: "Shopify-ID" },
+      type: "text",
+      index: true,
+      admin: {
+        description: "Shopify order ID (`id` in webhooks), used for Admin API calls.",
+      },
     },
     {
       name: "customerEmail",
-      label: "Email du client",
+      label: { fr: "Email du client", en: "Customer email", de: "Kunden-E-Mail" },
       type: "email",
       required: true,
     },
+    {
+      name: "customerLocale",
+      label: { fr: "Langue du client", en: "Customer language", de: "Kundensprache" },
+      type: "select",
+      options: LOCALE_OPTIONS,
+      admin: {
+        description:
+          "From Shopify's `customer_locale` at checkout. Language of the customer emails (French when empty).",
+      },
+    },
     {
       name: "status",
-      label: "Statut",
+      label: { fr: "Statut", en: "Status", de: "Status" },
       type: "select",
       options: ["paid", "pending", "cancelled"],
       defaultValue: "paid",
     },
+    {
+      name: "cancelledAt",
+      label: { fr: "Annulée le", en: "Cancelled at", de: "Storniert am" },
+      type: "date",
+      admin: {
+        description: "Set by the orders/cancelled or refunds/create webhooks.",
+      },
+    },
+    {
+      name: "shopifyUpdatedAt",
+      label: {
+        fr: "Mise à jour Shopify appliquée",
+        en: "Applied Shopify update",
+        de: "Übernommene Shopify-Aktualisierung",
+      },
+      type: "date",
+      admin: {
+        readOnly: true,
+        description:
+          "`updated_at` of the last order snapshot applied (orders/updated, orders/edited). Older deliveries are ignored.",
+      },
+    },
     {
       name: "plates",
-      label: "Plaque(s) NFC",
+      label: { fr: "Plaque(s) NFC", en: "NFC plate(s)", de: "NFC-Schild(er)" },
       type: "relationship",
       relationTo: "plates",
       hasMany: true,
@@ -63,9 +158,37 @@ export const Orders: CollectionConfig = {
     },
     {
       name: "activated",
-      label: "Activé",
+      label: { fr: "Activé", en: "Activated", de: "Aktiviert" },
       type: "checkbox",
       defaultValue: false,
+      admin: {
+        readOnly: true,
+        description:
+          "Derived from the plates: true once every plate that is not disabled is activated.",
+      },
+    },
+    {
+      name: "customerEmailStatus",
+      label: { fr: "Email client", en: "Customer email", de: "Kunden-E-Mail" },
+      type: "select",
+      options: ["pending", "sending", "sent", "failed"],
+      defaultValue: "pending",
+      admin: {
+        description:
+          "Order confirmation sent to the customer (plate links + QR codes). Only `pending` / `failed` are (re)sent.",
+      },
+    },
+    {
+      name: "customerEmailSentAt",
+      label: { fr: "Email client envoyé le", en: "Customer email sent at", de: "Kunden-E-Mail gesendet am" },
+      type: "date",
+      admin: { readOnly: true },
+    },
+    {
+      name: "customerEmailError",
+      label: { fr: "Erreur email client", en: "Customer email error", de: "Fehler Kunden-E-Mail" },
+      type: "textarea",
+      admin: { readOnly: true },
     },
   ],
 };
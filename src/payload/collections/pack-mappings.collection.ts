@@ -0,0 +1,127 @@
+import { APIError, type CollectionConfig } from 'payload'
+
+import { isAdmin, isInternal, isSuperAdmin } from '../access'
+
+export const PackMappings: CollectionConfig = {
+  slug: 'pack-mappings',
+  labels: {
+    singular: { fr: 'Correspondance de pack', en: 'Pack mapping', de: 'Pack-Zuordnung' },
+    plural: { fr: 'Correspondances de pack', en: 'Pack mappings', de: 'Pack-Zuordnungen' },
+  },
+
+  admin: {
+    useAsTitle: 'label',
+    defaultColumns: ['label', 'variantId', 'sku', 'plateCount', 'active'],
+  },
+
+  /**
+   * Explicit Shopify variant → pack size mapping (see DEC-005).
+   *
+   * Lookup order when processing a line item:
+   * 1. `variantId` (line_item.variant_id)
+   * 2. `sku` (line_item.sku)
+   * 3. variant_title parsing, only if allowed in `pack-settings`
+   *
+   * Shared by every shop: managed by super admins. Read by backend processes.
+   */
+  access: {
+    read: ({ req }) => isInternal(req) || isAdmin(req),
+    create: ({ req }) => isSuperAdmin(req),
+    update: ({ req }) => isSuperAdmin(req),
+    delete: ({ req }) => isSuperAdmin(req),
+  },
+
+  hooks: {
+    beforeValidate: [
+      ({ data }) => {
+        if (data && !data.variantId && !data.sku) {
+          throw new APIError('A pack mapping needs a Shopify variant ID or a SKU.', 400)
+        }
+        if (data?.sku) data.sku = String(data.sku).trim()
+        return data
+      },
+
+      /**
+       * SKUs are matched case-insensitively (see `loadPackSizeResolver`), so two
+       * mappings for `ABC-5` and `abc-5` would resolve to either one: rejected here,
+       * the unique index covers concurrent writes of the exact same value.
+       */
+      async ({ data, req, originalDoc }) => {
+        const sku = String(data?.sku ?? '').toLowerCase()
+        if (!sku) return data
+
+        const sameSku = await req.payload.find({
+          collection: 'pack-mappings',
+          where: { sku: { like: sku } },
+          pagination: false,
+          depth: 0,
+          overrideAccess: true,
+          req,
+        })
+        const other = (sameSku.docs as any[]).find(
+          (m) => String(m.sku ?? '').toLowerCase() === sku && m.id !== originalDoc?.id,
+        )
+        if (other) {
+          throw new APIError(`SKU ${data!.sku} is already mapped by "${other.label}".`, 400)
+        }
+        return data
+      },
+    ],
+  },
+
+  fields: [
+    {
+      name: 'label',
+      label: { fr: 'Libellé', en: 'Label', de: 'Bezeichnung' },
+      type: 'text',
+      required: true,
+      admin: {
+        description: 'Human readable name, e.g. "Blanc / 5 Plaques".',
+      },
+    },
+    {
+      name: 'variantId',
+      label: { fr: 'Shopify variant_id', en: 'Shopify variant_id', de: 'Shopify variant_id' },
+      type: 'text',
+      unique: true,
+      index: true,
+    },
+    {
+      name: 'sku',
+      label: { fr: 'SKU', en: 'SKU', de: 'SKU' },
+      type: 'text',
+      unique: true,
+      index: true,
+    },
+    {
+      name: 'plateCount',
+      label: { fr: 'Nombre de plaques par unité', en: 'Plates per unit', de: 'Schilder pro Einheit' },
+      type: 'number',
+      required: true,
+      min: 1,
+      validate: async (value: number | null | undefined, { req }: any) => {
+        if (!value || !Number.isInteger(value) || value < 1) {
+          return 'Plate count must be a positive integer.'
+        }
+
+        const settings: any = await req.payload.findGlobal({ slug: 'pack-settings', depth: 0 })
+        const allowed: number[] = settings?.allowedPackSizes?.length ? settings.allowedPackSizes : []
+
+        if (allowed.length && !allowed.includes(value)) {
+          return `Pack size ${value} is not allowed (allowed: ${allowed.join(', ')}). Update "pack-settings" first.`
+        }
+
+        return true
+      },
+    },
+    {
+      name: 'active',
+      label: { fr: 'Active', en: 'Active', de: 'Aktiv' },
+      type: 'checkbox',
+      defaultValue: true,
+      index: true,
+    },
+  ],
+
+  timestamps: true,
+}
@@ -0,0 +1,110 @@
+import type { CollectionConfig } from 'payload'
+
+import { isInternal, shopScopedAccess } from '../access'
+
+export const PlateScans: CollectionConfig = {
+  slug: 'plate-scans',
+  labels: {
+    singular: { fr: 'Scan de plaque', en: 'Plate scan', de: 'Schild-Scan' },
+    plural: { fr: 'Scans de plaques', en: 'Plate scans', de: 'Schild-Scans' },
+  },
+
+  admin: {
+    useAsTitle: 'scannedAt',
+    defaultColumns: ['scannedAt', 'plate', 'userAgentClass', 'outcome'],
+  },
+
+  /**
+   * One record per NFC tap on `/p/:slug`.
+   *
+   * Privacy:
+   * - The client IP is NEVER stored in clear, only a salted hash
+   *   (enough to estimate unique visitors, not to identify anyone).
+   * - The user-agent is reduced to a coarse class.
+   *
+   * Scans are written by the public redirect only and are append-only.
+   */
+  access: {
+    read: ({ req }) => shopScopedAccess(req),
+    create: ({ req }) => isInternal(req),
+    update: () => false,
+    delete: ({ req }) => shopScopedAccess(req),
+  },
+
+  fields: [
+    {
+      name: 'plate',
+      type: 'relationship',
+      relationTo: 'plates',
+      required: true,
+      index: true,
+    },
+    {
+      name: 'order',
+      type: 'relationship',
+      relationTo: 'orders',
+      index: true,
+      admin: {
+        description: 'Denormalized from the plate for per-order aggregation.',
+      },
+    },
+    {
+      name: 'shop',
+      type: 'relationship',
+      relationTo: 'shops',
+      index: true,
+      admin: {
+        description: 'Denormalized from the plate for shop-scoped access.',
+      },
+    },
+    {
+      name: 'scannedAt',
+      type: 'date',
+      required: true,
+      index: true,
+      admin: {
+        date: { pickerAppearance: 'dayAndTime' },
+      },
+    },
+    {
+      name: 'ipHash',
+      type: 'text',
+      index: true,
+    },
+    {
+      name: 'userAgentClass',
+      type: 'select',
+      options: [
+        { label: { fr: 'Mobile', en: 'Mobile', de: 'Mobil' }, value: 'mobile' },
+        { label: { fr: 'Tablette', en: 'Tablet', de: 'Tablet' }, value: 'tablet' },
+        { label: { fr: 'Ordinateur', en: 'Desktop', de: 'Desktop' }, value: 'desktop' },
+        { label: { fr: 'Robot', en: 'Bot', de: 'Bot' }, value: 'bot' },
+        { label: { fr: 'Inconnu', en: 'Unknown', de: 'Unbekannt' }, value: 'unknown' },
+      ],
+      defaultValue: 'unknown',
+      index: true,
+    },
+    {
+      name: 'referrer',
+      type: 'text',
+    },
+    {
+      name: 'outcome',
+      type: 'select',
+      options: [
+        { label: { fr: 'Redirigé', en: 'Redirected', de: 'Weitergeleitet' }, value: 'redirected' },
+        { label: { fr: 'En attente', en: 'Pending', de: 'Ausstehend' }, value: 'pending' },
+        { label: { fr: 'Désactivée', en: 'Disabled', de: 'Deaktiviert' }, value: 'disabled' },
+        {
+          label: { fr: 'Transférée au remplacement', en: 'Forwarded to replacement', de: 'An Ersatz weitergeleitet' },
+          value: 'forwarded',
+        },
+      ],
+      admin: {
+        description: 'What the visitor got: the redirect or a fallback page.',
+      },
+    },
+  ],
+
+  timestamps: false,
+}
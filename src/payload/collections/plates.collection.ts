@@ -1,69 +1,630 @@
-import type { CollectionConfig } from 'payload'
+import { APIError, type CollectionConfig, type Field } from 'payload'
+
+import {
+  DESTINATION_RULE_KIND_OPTIONS,
+  WEEKDAY_OPTIONS,
+  normalizeDestinationRules,
+} from '../../destinations/destinationRules'
+import {
+  DEFAULT_DESTINATION_TYPE,
+  DESTINATION_TYPE_OPTIONS,
+  URL_DESTINATION_TYPES,
+  WIFI_SECURITY_OPTIONS,
+} from '../../destinations/destinationTypes'
+import { normalizeDestination } from '../../destinations/normalizeDestination'
+import { destinationToPlateData, plateDestinationInput } from '../../destinations/plateDestination'
+import {
+  PLATE_STATUSES,
+  PLATE_STATUS_TIMESTAMPS,
+  canTransition,
+  resolveActor,
+  toPlateStatus,
+} from '../../plates/lifecycle'
+import { replacePlateEndpoint } from '../../plates/plate-replace.endpoint'
+import { bulkPlateStatusEndpoint } from '../../plates/plate-status.endpoint'
+import { syncOrderActivation } from '../../plates/syncOrderActivation'
+import { shopScopeField } from '../../shops/shopScope'
+import { ShortLinkResolutionError } from '../../utils/normalizeGoogleReviewLink'
+import { validateTimeZone } from '../globals/notification-settings.global'
+import { isAdmin, isCustomer, isInternal, isSuperAdmin, shopFieldUpdateAccess, shopScopedAccess } from '../access'
+
+/**
+ * Fields holding the destination (see `src/destinations/plateDestination.ts`).
+ */
+const DESTINATION_FIELDS = ['destinationType', 'googleReviewUrl', 'destinationUrl', 'wifi']
+
+/**
+ * The only fields a customer may change from the self-service portal.
+ * Everything else (slug, order, status, sourceKey...) is staff / backend only.
+ */
+const CUSTOMER_EDITABLE_FIELDS = DESTINATION_FIELDS
+
+/**
+ * A Google share link that could not be resolved because of the network is
+ * not invalid: the admin or customer gets a 503 to try again, not a 400.
+ */
+function rethrowAsUnavailable(err: unknown): never {
+  if (err instanceof ShortLinkResolutionError) {
+    throw new APIError('The Google share link could not be resolved right now, try again later', 503)
+  }
+  throw err
+}
+
+/**
+ * Destination fields, shared by the plate and its rules (see `src/destinations/plateDestination.ts`).
+ * Conditions read sibling data, so they work at any nesting level.
+ */
+function destinationFields(): Field[] {
+  return [
+    {
+      name: 'destinationType',
+      label: { fr: 'Type de destination', en: 'Destination type', de: 'Zieltyp' },
+      type: 'select',
+      options: DESTINATION_TYPE_OPTIONS,
+      defaultValue: DEFAULT_DESTINATION_TYPE,
+    },
+    {
+      name: 'googleReviewUrl',
+      label: { fr: 'Google Review', en: 'Google review', de: 'Google-Bewertung' },
+      type: 'text',
+      admin: {
+        condition: (_, siblingData) => !siblingData?.destinationType || siblingData.destinationType === 'google_review',
+      },
+    },
+    {
+      name: 'destinationUrl',
+      label: { fr: 'URL de destination', en: 'Destination URL', de: 'Ziel-URL' },
+      type: 'text',
+      admin: {
+        condition: (_, siblingData) => URL_DESTINATION_TYPES.includes(siblingData?.destinationType),
+        description: 'TripAdvisor listing, Trustpilot company page, Instagram profile (or @username) or menu (https).',
+      },
+    },
+    {
+      name: 'wifi',
+      label: { fr: 'Wi-Fi', en: 'Wi-Fi', de: 'WLAN' },
+      type: 'group',
+      admin: {
+        condition: (_, siblingData) => siblingData?.destinationType === 'wifi',
+      },
+      fields: [
+        {
+          name: 'ssid',
+          label: { fr: 'Nom du réseau (SSID)', en: 'Network name (SSID)', de: 'Netzwerkname (SSID)' },
+          type: 'text',
+        },
+        {
+          name: 'password',
+          label: { fr: 'Mot de passe', en: 'Password', de: 'Passwort' },
+          type: 'text',
+        },
+        {
+          name: 'security',
+          label: { fr: 'Sécurité', en: 'Security', de: 'Sicherheit' },
+          type: 'select',
+          options: WIFI_SECURITY_OPTIONS,
+          defaultValue: 'WPA',
+        },
+        {
+          name: 'hidden',
+          label: { fr: 'Réseau masqué', en: 'Hidden network', de: 'Verstecktes Netzwerk' },
+          type: 'checkbox',
+          defaultValue: false,
+        },
+      ],
+    },
+  ]
+}
 
 export const Plates: CollectionConfig = {
   slug: 'plates',
+  labels: {
+    singular: { fr: 'Plaque NFC', en: 'NFC plate', de: 'NFC-Schild' },
+    plural: { fr: 'Plaques NFC', en: 'NFC plates', de: 'NFC-Schilder' },
+  },
 
   admin: {
     useAsTitle: 'slug',
+    defaultColumns: ['slug', 'order', 'status', 'updatedAt'],
   },
 
   /**
    * Plates represent physical NFC tags.
    *
    * Invariants:
-   * - A plate is uniquely identified by its `sourceKey`
+   * - A plate is uniquely identified by its shop and `sourceKey`
    * - sourceKey guarantees idempotency during Shopify webhook retries
+   * - `slug` is globally unique: `/p/:slug` does not know the shop
+   * - Shop admins only see and change the plates of their shops
    * - Plates are created automatically by backend processes only
+   *   (replacements of broken tags too: see `POST /api/plates/:id/replace`)
+   * - Plates are never deleted on cancel/refund, only moved to `disabled`
+   * - Customers can only read / update plates whose `order` was placed with their email
+   * - NOT publicly readable: `/p/:slug` loads the few fields it needs itself,
+   *   so plates (review URLs, orders) cannot be listed through the REST API
    */
   access: {
-    read: () => true, // public read (for /p/:slug)
-    create: ({ req }) => Boolean((req as any).isInternal) || Boolean(req.user), // webhook
-    update: ({ req }) => Boolean(req.user), // admin only
-    delete: ({ req }) => Boolean(req.user),
+    read: ({ req }) => {
+      if (isInternal(req) || isAdmin(req)) return shopScopedAccess(req)
+
+      // Customer portal: own plates only (ownership = order email)
+      if (isCustomer(req)) {
+        return { 'order.customerEmail': { equals: String(req.user?.email ?? '') } }
+      }
+
+      return false
+    },
+    create: ({ req }) => isInternal(req) || isSuperAdmin(req), // webhook
+    update: ({ req }) => {
+      // webhook (cancel/refund) or admin (scoped to their shops)
+      if (isInternal(req) || isAdmin(req)) return shopScopedAccess(req)
+
+      // Customer portal: own plates only (ownership = order email)
+      if (isCustomer(req)) {
+        return { 'order.customerEmail': { equals: String(req.user?.email ?? '') } }
+      }
+
+      return false
+    },
+    delete: ({ req }) => isAdmin(req) && shopScopedAccess(req),
+  },
+
+  /**
+   * Idempotency keys embed the Shopify order number, only unique per shop.
+   * On `shopScope`, never null (legacy plates included), see `shopScopeField`.
+   */
+  indexes: [{ fields: ['shopScope', 'sourceKey'], unique: true }],
+
+  /**
+   * Workshop bulk transitions (encoded, shipped...).
+   * POST /api/plates/status
+   *
+   * Admin-only: replacement of a broken or lost tag (see DEC-024).
+   * POST /api/plates/:id/replace
+   */
+  endpoints: [bulkPlateStatusEndpoint, replacePlateEndpoint],
+
+  hooks: {
+    beforeValidate: [
+      /**
+       * Customer updates are restricted to the destination.
+       */
+      ({ data, req, operation }) => {
+        if (operation !== 'update' || !isCustomer(req) || !data) return data
+
+        const forbidden = Object.keys(data).filter((k) => !CUSTOMER_EDITABLE_FIELDS.includes(k))
+        if (forbidden.length) {
+          throw new APIError(`Fields not editable: ${forbidden.join(', ')}`, 403)
+        }
+
+        return data
+      },
+
+      /**
+       * Destinations entered by customers and admins are validated per type,
+       * with the same rules as the webhook (see `normalizeDestination`).
+       *
+       * Partial updates are merged with the stored destination first
+       * (e.g. a new Wi-Fi SSID keeps the stored password). Backend writes
+       * are already normalized and skip this hook.
+       */
+      async ({ data, req, originalDoc }) => {
+        if (!data || !(isCustomer(req) || isAdmin(req))) return data
+        if (!DESTINATION_FIELDS.some((k) => k in data)) return data
+
+        const input = plateDestinationInput({
+          ...originalDoc,
+          ...data,
+          wifi: { ...originalDoc?.wifi, ...data.wifi },
+        })
+        const normalized = await normalizeDestination(input).catch(rethrowAsUnavailable)
+        if (!normalized.ok) {
+          throw new APIError(`Invalid ${input.type} destination: ${normalized.message}`, 400)
+        }
+
+        return { ...data, ...destinationToPlateData(normalized.destination) }
+      },
+
+      /**
+       * Destination rules are set by admins (customers cannot send them, see above)
+       * and validated like the destination itself.
+       */
+      async ({ data, req }) => {
+        if (!data || !isAdmin(req) || !Array.isArray(data.destinationRules)) return data
+
+        const normalized = await normalizeDestinationRules(data.destinationRules).catch(rethrowAsUnavailable)
+        if (!normalized.ok) {
+          throw new APIError(`Invalid destination rules: ${normalized.message}`, 400)
+        }
+
+        return { ...data, destinationRules: normalized.rules }
+      },
+    ],
+
+    beforeChange: [
+      /**
+       * Lifecycle state machine (see `src/plates/lifecycle.ts`):
+       * - rejects transitions that are not allowed
+       * - timestamps the step (`encodedAt`, `shippedAt`...)
+       * - appends an entry to `statusHistory` (who, when, from → to)
+       */
+      ({ data, originalDoc, req, operation }) => {
+        const previous = operation === 'update' ? toPlateStatus(originalDoc?.status) : null
+        const next = toPlateStatus(data.status ?? (operation === 'create' ? 'created' : originalDoc?.status))
+
+        if (!next) {
+          throw new APIError(`Unknown plate status: ${data.status}`, 400)
+        }
+        if (operation === 'create' && next !== 'created' && !isAdmin(req)) {
+          throw new APIError(`Plates must be created in the 'created' status (got '${next}')`, 400)
+        }
+
+        data.status = next
+        if (previous === next) return data
+
+        if (previous && !canTransition(previous, next)) {
+          throw new APIError(`Invalid plate status transition: ${previous} → ${next}`, 400)
+        }
+
+        const at = new Date().toISOString()
+        const timestampField = PLATE_STATUS_TIMESTAMPS[next]
+        if (timestampField && !data[timestampField]) data[timestampField] = at
+
+        data.statusHistory = [
+          ...(data.statusHistory ?? originalDoc?.statusHistory ?? []),
+          {
+            from: previous,
+            to: next,
+            at,
+            actor: resolveActor(req),
+            reason: req.context?.statusReason ?? data.disabledReason ?? undefined,
+          },
+        ]
+
+        return data
+      },
+    ],
+
+    afterChange: [
+      /**
+       * `orders.activated` is derived from the plates, never set directly.
+       */
+      async ({ doc, previousDoc, req, operation }) => {
+        if (operation === 'update' && previousDoc?.status === doc.status) return doc
+
+        const orderId = typeof doc.order === 'object' ? doc.order?.id : doc.order
+        if (orderId) await syncOrderActivation(req.payload, orderId, req)
+
+        return doc
+      },
+    ],
   },
 
   fields: [
+    {
+      name: 'replace',
+      type: 'ui',
+      admin: {
+        components: {
+          Field: '/payload/components/ReplacePlateButton#ReplacePlateButton',
+        },
+      },
+    },
     {
       name: 'slug',
-      label: 'URL publique',
+      label: { fr: 'URL publique', en: 'Public URL', de: 'Öffentliche URL' },
       type: 'text',
       required: true,
       unique: true,
     },
+    {
+      name: 'shop',
+      label: { fr: 'Boutique', en: 'Shop', de: 'Shop' },
+      type: 'relationship',
+      relationTo: 'shops',
+      index: true,
+      access: { update: shopFieldUpdateAccess },
+      admin: {
+        readOnly: true,
+        description: 'Copied from the order (empty for legacy single-shop plates).',
+      },
+    },
+    shopScopeField,
     {
       name: 'order',
-      label: 'Commande liée',
+      label: { fr: 'Commande liée', en: 'Linked order', de: 'Zugehörige Bestellung' },
       type: 'relationship',
       relationTo: 'orders',
       required: true,
     },
+    /**
+     * Not `required`: plates created before destination types existed have
+     * no `destinationType` and are Google review plates.
+     */
+    ...destinationFields(),
     {
-      name: 'googleReviewUrl',
-      label: 'Google Review',
+      name: 'timeZone',
+      label: { fr: 'Fuseau horaire', en: 'Timezone', de: 'Zeitzone' },
       type: 'text',
-      required: true,
+      validate: validateTimeZone,
+      admin: {
+        description: 'IANA timezone of the destination rules time windows, e.g. Europe/Berlin (default: Europe/Paris).',
+      },
+    },
+    {
+      name: 'destinationRules',
+      label: { fr: 'Règles de destination', en: 'Destination rules', de: 'Zielregeln' },
+      type: 'array',
+      admin: {
+        description:
+          'Evaluated in order on every tap: the first matching rule wins. When none matches, the destination above is used.',
+      },
+      fields: [
+        {
+          name: 'kind',
+          label: { fr: 'Type de règle', en: 'Rule type', de: 'Regeltyp' },
+          type: 'select',
+          options: DESTINATION_RULE_KIND_OPTIONS,
+          defaultValue: 'time_window',
+          required: true,
+        },
+        {
+          name: 'days',
+          label: { fr: 'Jours', en: 'Days', de: 'Tage' },
+          type: 'select',
+          hasMany: true,
+          options: WEEKDAY_OPTIONS,
+          admin: {
+            condition: (_, siblingData) => siblingData?.kind === 'time_window' || siblingData?.kind === 'days_of_week',
+            description: 'Time windows: empty = every day. A window crossing midnight belongs to the day it starts.',
+          },
+        },
+        {
+          type: 'row',
+          admin: {
+            condition: (_, siblingData) => siblingData?.kind === 'time_window',
+          },
+          fields: [
+            {
+              name: 'startTime',
+              label: { fr: 'Début (HH:MM)', en: 'Start (HH:MM)', de: 'Beginn (HH:MM)' },
+              type: 'text',
+            },
+            {
+              name: 'endTime',
+              label: { fr: 'Fin (HH:MM)', en: 'End (HH:MM)', de: 'Ende (HH:MM)' },
+              type: 'text',
+            },
+          ],
+        },
+        {
+          type: 'collapsible',
+          label: { fr: 'Destination', en: 'Destination', de: 'Ziel' },
+          admin: {
+            condition: (_, siblingData) => siblingData?.kind !== 'split',
+          },
+          fields: destinationFields(),
+        },
+        {
+          name: 'variants',
+          label: { fr: 'Variantes', en: 'Variants', de: 'Varianten' },
+          type: 'array',
+          admin: {
+            condition: (_, siblingData) => siblingData?.kind === 'split',
+            description: 'Each visitor keeps getting the same variant; weights are relative (e.g. 50 / 50).',
+          },
+          fields: [
+            {
+              name: 'weight',
+              label: { fr: 'Poids', en: 'Weight', de: 'Gewichtung' },
+              type: 'number',
+              min: 1,
+              defaultValue: 1,
+              required: true,
+            },
+            ...destinationFields(),
+          ],
+        },
+      ],
+    },
+    {
+      name: 'sourceDestination',
+      label: {
+        fr: 'Destination saisie dans Shopify',
+        en: 'Destination entered in Shopify',
+        de: 'In Shopify eingegebenes Ziel',
+      },
+      type: 'text',
+      admin: {
+        readOnly: true,
+        description:
+          'Fingerprint of the destination line item properties last seen from Shopify. The destination is only replaced when they change, so portal edits survive unrelated order updates. A Wi-Fi password only appears as a digest.',
+      },
     },
     {
       name: 'status',
-      label: 'Statut',
+      label: { fr: 'Statut', en: 'Status', de: 'Status' },
       type: 'select',
-      options: ['pending', 'activated'],
-      defaultValue: 'pending',
+      options: [...PLATE_STATUSES],
+      defaultValue: 'created',
+      index: true,
+      admin: {
+        description: 'created → encoded → shipped → delivered → activated. Only `activated` redirects.',
+      },
     },
     {
       name: 'sourceKey',
       type: 'text',
       required: true,
-      unique: true,
       index: true,
       admin: {
-        description: 'Deterministic idempotency key: orderNumber|lineItemId|index',
+        description:
+          'Deterministic idempotency key: orderNumber|lineItemId|index, plus |rN for the N-th replacement (unique per shop)',
+      },
+    },
+    {
+      name: 'replaces',
+      label: { fr: 'Remplace', en: 'Replaces', de: 'Ersetzt' },
+      type: 'relationship',
+      relationTo: 'plates',
+      index: true,
+      admin: {
+        readOnly: true,
+        description: 'Broken or lost plate this one was issued for.',
+      },
+    },
+    {
+      name: 'replacedBy',
+      label: { fr: 'Remplacée par', en: 'Replaced by', de: 'Ersetzt durch' },
+      type: 'relationship',
+      relationTo: 'plates',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'forwardToReplacement',
+      label: {
+        fr: 'Rediriger vers la plaque de remplacement',
+        en: 'Forward to the replacement',
+        de: 'An das Ersatzschild weiterleiten',
+      },
+      type: 'checkbox',
+      defaultValue: false,
+      admin: {
+        condition: (data) => Boolean(data?.replacedBy),
+        description:
+          'Taps on this disabled plate open the destination of the replacement (even before it is activated) ' +
+          'instead of the "disabled" page.',
       },
     },
+    {
+      name: 'encodedAt',
+      label: { fr: 'Encodée le', en: 'Encoded at', de: 'Codiert am' },
+      type: 'date',
+    },
+    {
+      name: 'shippedAt',
+      label: { fr: 'Expédiée le', en: 'Shipped at', de: 'Versandt am' },
+      type: 'date',
+    },
+    {
+      name: 'trackingNumber',
+      label: { fr: 'Numéro de suivi', en: 'Tracking number', de: 'Sendungsnummer' },
+      type: 'text',
+    },
+    {
+      name: 'trackingCompany',
+      label: { fr: 'Transporteur', en: 'Carrier', de: 'Versanddienstleister' },
+      type: 'text',
+    },
+    {
+      name: 'trackingUrl',
+      label: { fr: 'Lien de suivi', en: 'Tracking link', de: 'Sendungsverfolgungslink' },
+      type: 'text',
+    },
+    {
+      name: 'shopifyFulfillmentId',
+      label: { fr: 'Fulfillment Shopify', en: 'Shopify fulfillment', de: 'Shopify-Fulfillment' },
+      type: 'text',
+      admin: {
+        readOnly: true,
+        description: 'Set by the fulfillment sync once Shopify accepted the fulfillment.',
+      },
+    },
+    {
+      name: 'fulfillmentSyncedAt',
+      label: { fr: 'Synchronisée avec Shopify le', en: 'Synced with Shopify at', de: 'Mit Shopify synchronisiert am' },
+      type: 'date',
+      index: true,
+      admin: { readOnly: true },
+    },
+    {
+      name: 'deliveredAt',
+      label: { fr: 'Livrée le', en: 'Delivered at', de: 'Zugestellt am' },
+      type: 'date',
+    },
     {
       name: 'activatedAt',
-      label: 'Activé le',
+      label: { fr: 'Activé le', en: 'Activated at', de: 'Aktiviert am' },
+      type: 'date',
+    },
+    {
+      name: 'disabledAt',
+      label: { fr: 'Désactivé le', en: 'Disabled at', de: 'Deaktiviert am' },
+      type: 'date',
+    },
+    {
+      name: 'disabledReason',
+      label: { fr: 'Motif de désactivation', en: 'Disable reason', de: 'Deaktivierungsgrund' },
+      type: 'text',
+    },
+    {
+      name: 'flaggedForDisableAt',
+      label: { fr: 'À désactiver depuis le', en: 'Flagged for disabling at', de: 'Zur Deaktivierung markiert am' },
+      type: 'date',
+      index: true,
+      admin: {
+        readOnly: true,
+        description:
+          'Set when an order edit removed this unit. Support disables the plate once confirmed (the tag may already be shipped).',
+      },
+    },
+    {
+      name: 'flaggedForDisableReason',
+      label: { fr: 'Motif du signalement', en: 'Flag reason', de: 'Grund der Markierung' },
+      type: 'text',
+      admin: { readOnly: true },
+    },
+    {
+      name: 'exportBatch',
+      label: { fr: 'Lot de production', en: 'Production batch', de: 'Produktionscharge' },
+      type: 'relationship',
+      relationTo: 'export-batches',
+      admin: {
+        readOnly: true,
+        description: 'Last production export (NFC encoding manifest) containing this plate.',
+      },
+    },
+    {
+      name: 'exportedAt',
+      label: { fr: 'Exportée le', en: 'Exported at', de: 'Exportiert am' },
       type: 'date',
+      admin: { readOnly: true },
+    },
+    {
+      name: 'scanCount',
+      label: { fr: 'Nombre de scans', en: 'Scan count', de: 'Anzahl Scans' },
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        readOnly: true,
+        description: 'Rollup of `plate-scans` (bots excluded). Maintained by the redirect.',
+      },
+    },
+    {
+      name: 'lastScanAt',
+      label: { fr: 'Dernier scan le', en: 'Last scanned at', de: 'Zuletzt gescannt am' },
+      type: 'date',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'statusHistory',
+      label: { fr: 'Historique des statuts', en: 'Status history', de: 'Statusverlauf' },
+      type: 'array',
+      admin: {
+        readOnly: true,
+        description: 'Audit trail, appended on every status change.',
+      },
+      fields: [
+        { name: 'from', type: 'text' },
+        { name: 'to', type: 'text', required: true },
+        { name: 'at', type: 'date', required: true },
+        { name: 'actor', type: 'text' },
+        { name: 'reason', type: 'text' },
+      ],
     },
   ],
 }
@@ -0,0 +1,103 @@
+import type { CollectionConfig } from 'payload'
+
+import { isInternal, isSuperAdmin } from '../access'
+
+export const ReconciliationReports: CollectionConfig = {
+  slug: 'reconciliation-reports',
+  labels: {
+    singular: { fr: 'Rapport de réconciliation', en: 'Reconciliation report', de: 'Abgleichsbericht' },
+    plural: { fr: 'Rapports de réconciliation', en: 'Reconciliation reports', de: 'Abgleichsberichte' },
+  },
+
+  admin: {
+    useAsTitle: 'runAt',
+    defaultColumns: ['runAt', 'status', 'summary'],
+  },
+
+  /**
+   * One record per reconciliation run (see `startOrdersReconciliation`).
+   *
+   * Reports are read-only snapshots: fixing an issue does not update
+   * the report, the next run simply stops reporting it.
+   *
+   * Reports cover every shop: super admins only.
+   */
+  access: {
+    read: ({ req }) => isSuperAdmin(req),
+    create: ({ req }) => isInternal(req),
+    update: () => false,
+    delete: ({ req }) => isSuperAdmin(req),
+  },
+
+  fields: [
+    {
+      name: 'runAt',
+      type: 'date',
+      required: true,
+      index: true,
+      admin: {
+        date: { pickerAppearance: 'dayAndTime' },
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      required: true,
+      options: [
+        { label: { fr: 'OK', en: 'OK', de: 'OK' }, value: 'ok' },
+        { label: { fr: 'Anomalies détectées', en: 'Issues found', de: 'Auffälligkeiten gefunden' }, value: 'issues' },
+      ],
+    },
+    {
+      name: 'durationMs',
+      type: 'number',
+    },
+    {
+      name: 'summary',
+      type: 'json',
+      admin: {
+        description: 'Exact totals per check (findings below are capped at 200 per check).',
+      },
+    },
+    {
+      name: 'findings',
+      type: 'array',
+      fields: [
+        {
+          name: 'check',
+          type: 'select',
+          required: true,
+          options: [
+            {
+              label: {
+                fr: 'Webhook bloqué',
+                en: 'Stuck webhook event',
+                de: 'Hängendes Webhook-Ereignis',
+              },
+              value: 'stuck_event',
+            },
+            {
+              label: {
+                fr: 'Nombre de plaques incorrect',
+                en: 'Plate count mismatch',
+                de: 'Falsche Anzahl Schilder',
+              },
+              value: 'plate_count_mismatch',
+            },
+            {
+              label: {
+                fr: 'Plaque sans commande',
+                en: 'Orphan plate',
+                de: 'Schild ohne Bestellung',
+              },
+              value: 'orphan_plate',
+            },
+          ],
+        },
+        { name: 'reference', type: 'text' },
+        { name: 'message', type: 'text' },
+        { name: 'details', type: 'json' },
+      ],
+    },
+  ],
+}
@@ -0,0 +1,87 @@
+import type { CollectionConfig } from 'payload'
+
+import { isInternal, shopScopedAccess } from '../access'
+
+export const ShopifyApiCalls: CollectionConfig = {
+  slug: 'shopify-api-calls',
+  labels: {
+    singular: { fr: 'Appel API Shopify', en: 'Shopify API call', de: 'Shopify-API-Aufruf' },
+    plural: { fr: 'Appels API Shopify', en: 'Shopify API calls', de: 'Shopify-API-Aufrufe' },
+  },
+
+  admin: {
+    useAsTitle: 'path',
+    defaultColumns: ['createdAt', 'method', 'path', 'status', 'attempt', 'orderNumber'],
+  },
+
+  /**
+   * One record per outbound HTTP attempt to the Shopify Admin API
+   * (the outbound counterpart of `webhook-events`).
+   *
+   * Written by `createShopifyAdminClient` only, append-only.
+   */
+  access: {
+    read: ({ req }) => shopScopedAccess(req),
+    create: ({ req }) => isInternal(req),
+    update: () => false,
+    delete: ({ req }) => shopScopedAccess(req),
+  },
+
+  fields: [
+    {
+      name: 'shop',
+      type: 'relationship',
+      relationTo: 'shops',
+      index: true,
+    },
+    {
+      name: 'method',
+      type: 'text',
+      required: true,
+    },
+    {
+      name: 'path',
+      type: 'text',
+      required: true,
+    },
+    {
+      name: 'status',
+      type: 'number',
+      admin: {
+        description: 'HTTP status. Empty for network errors / timeouts.',
+      },
+    },
+    {
+      name: 'ok',
+      type: 'checkbox',
+    },
+    {
+      name: 'attempt',
+      type: 'number',
+      admin: {
+        description: 'Attempt number of the call (retries on 429 / 5xx / network errors).',
+      },
+    },
+    {
+      name: 'durationMs',
+      type: 'number',
+    },
+    {
+      name: 'orderNumber',
+      type: 'text',
+      index: true,
+    },
+    {
+      name: 'requestBody',
+      type: 'textarea',
+    },
+    {
+      name: 'responseBody',
+      type: 'textarea',
+    },
+    {
+      name: 'error',
+      type: 'text',
+    },
+  ],
+}
@@ -0,0 +1,188 @@
+import type { CollectionConfig } from 'payload'
+
+import { LOCALE_OPTIONS } from '../../i18n/locales'
+import { getAdminShopIds, isAdmin, isInternal, isSuperAdmin } from '../access'
+import { DATE_STYLE_OPTIONS, validateTimeZone } from '../globals/notification-settings.global'
+
+/**
+ * Secrets are readable by backend processes (local API) and super admins only.
+ */
+const secretFieldAccess = {
+  read: ({ req }: any) => isInternal(req) || isSuperAdmin(req),
+  create: ({ req }: any) => isSuperAdmin(req),
+  update: ({ req }: any) => isSuperAdmin(req),
+}
+
+export const Shops: CollectionConfig = {
+  slug: 'shops',
+  labels: {
+    singular: { fr: 'Boutique', en: 'Shop', de: 'Shop' },
+    plural: { fr: 'Boutiques', en: 'Shops', de: 'Shops' },
+  },
+
+  admin: {
+    useAsTitle: 'name',
+    defaultColumns: ['name', 'shopDomain', 'active'],
+  },
+
+  /**
+   * One record per Shopify storefront / reseller served by this instance.
+   *
+   * Incoming webhooks are matched by `x-shopify-shop-domain` and verified with
+   * the shop's active secrets. Orders, plates and webhook events are scoped by shop.
+   *
+   * Managed by super admins; shop admins can read their own shops (without secrets).
+   */
+  access: {
+    read: ({ req }) => {
+      if (isInternal(req) || isSuperAdmin(req)) return true
+      if (isAdmin(req)) return { id: { in: getAdminShopIds(req) } }
+      return false
+    },
+    create: ({ req }) => isSuperAdmin(req),
+    update: ({ req }) => isSuperAdmin(req),
+    delete: ({ req }) => isSuperAdmin(req),
+  },
+
+  hooks: {
+    beforeValidate: [
+      ({ data }) => {
+        if (data?.shopDomain) {
+          data.shopDomain = String(data.shopDomain).trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '')
+        }
+        return data
+      },
+    ],
+  },
+
+  fields: [
+    {
+      name: 'name',
+      label: { fr: 'Nom', en: 'Name', de: 'Name' },
+      type: 'text',
+      required: true,
+    },
+    {
+      name: 'shopDomain',
+      label: { fr: 'Domaine Shopify', en: 'Shopify domain', de: 'Shopify-Domain' },
+      type: 'text',
+      required: true,
+      unique: true,
+      index: true,
+      admin: {
+        description: 'Permanent `*.myshopify.com` domain, as sent in `x-shopify-shop-domain`.',
+      },
+    },
+    {
+      name: 'active',
+      label: { fr: 'Active', en: 'Active', de: 'Aktiv' },
+      type: 'checkbox',
+      defaultValue: true,
+      admin: {
+        description: 'Webhooks from an inactive shop are rejected (401).',
+      },
+    },
+    {
+      name: 'webhookSecrets',
+      label: { fr: 'Secrets webhook', en: 'Webhook secrets', de: 'Webhook-Secrets' },
+      type: 'array',
+      required: true,
+      minRows: 1,
+      access: secretFieldAccess,
+      admin: {
+        description:
+          'Shopify app client secrets accepted for webhook signatures (HMAC). Keep the old one with an expiry while rotating.',
+      },
+      validate: (value: unknown) => {
+        const labels = (Array.isArray(value) ? value : []).map((row: any) => String(row?.label ?? '').trim())
+        return new Set(labels).size === labels.length || 'Secret labels must be unique within a shop.'
+      },
+      fields: [
+        {
+          name: 'label',
+          label: { fr: 'Libellé', en: 'Label', de: 'Bezeichnung' },
+          type: 'text',
+          required: true,
+          admin: {
+            description: 'Recorded on each webhook event (e.g. `2026-10`), used by the usage metrics.',
+          },
+        },
+        {
+          name: 'secret',
+          label: { fr: 'Secret', en: 'Secret', de: 'Secret' },
+          type: 'text',
+          required: true,
+        },
+        {
+          name: 'expiresAt',
+          label: { fr: 'Expire le', en: 'Expires at', de: 'Läuft ab am' },
+          type: 'date',
+          admin: {
+            date: { pickerAppearance: 'dayAndTime' },
+            description: 'Optional. The secret is no longer accepted after this date.',
+          },
+        },
+      ],
+    },
+    {
+      name: 'adminApiToken',
+      label: { fr: 'Token Admin API', en: 'Admin API token', de: 'Admin-API-Token' },
+      type: 'text',
+      access: secretFieldAccess,
+      admin: {
+        description: 'Optional. Enables the fulfillment sync for this shop.',
+      },
+    },
+    {
+      name: 'apiVersion',
+      label: { fr: 'Version API', en: 'API version', de: 'API-Version' },
+      type: 'text',
+      admin: {
+        description: 'Admin API version, e.g. 2024-10 (default: SHOPIFY_API_VERSION).',
+      },
+    },
+    {
+      name: 'notificationEmail',
+      label: { fr: 'Email de notification', en: 'Notification email', de: 'Benachrichtigungs-E-Mail' },
+      type: 'email',
+      admin: {
+        description: 'Internal notifications for this shop (default: PLATES_NOTIFICATION_EMAIL).',
+      },
+    },
+    {
+      name: 'notificationLocale',
+      label: { fr: 'Langue des notifications', en: 'Notification language', de: 'Sprache der Benachrichtigungen' },
+      type: 'select',
+      options: LOCALE_OPTIONS,
+      admin: {
+        description: 'Optional. Language of the internal emails of this shop (default: notification settings).',
+      },
+    },
+    {
+      name: 'notificationTimeZone',
+      label: {
+        fr: 'Fuseau horaire des notifications',
+        en: 'Notification timezone',
+        de: 'Zeitzone der Benachrichtigungen',
+      },
+      type: 'text',
+      validate: validateTimeZone,
+      admin: {
+        description: 'Optional. IANA timezone for dates in internal emails, e.g. Europe/Berlin.',
+      },
+    },
+    {
+      name: 'notificationDateStyle',
+      label: {
+        fr: 'Format des dates des notifications',
+        en: 'Notification date format',
+        de: 'Datumsformat der Benachrichtigungen',
+      },
+      type: 'select',
+      options: DATE_STYLE_OPTIONS,
+      admin: {
+        description: 'Optional. Date format of the internal emails of this shop.',
+      },
+    },
+  ],
+}
@@ -0,0 +1,105 @@
+import { APIError, type CollectionConfig } from 'payload'
+
+import { SHOP_ADMIN_ROLE, SUPER_ADMIN_ROLE, isAdmin, isSuperAdmin } from '../access'
+
+export const Users: CollectionConfig = {
+  slug: 'users',
+  labels: {
+    singular: { fr: 'Administrateur', en: 'Admin user', de: 'Administrator' },
+    plural: { fr: 'Administrateurs', en: 'Admin users', de: 'Administratoren' },
+  },
+
+  admin: {
+    useAsTitle: 'email',
+    defaultColumns: ['email', 'role', 'shops'],
+  },
+
+  /**
+   * Staff of the admin panel.
+   *
+   * - Super admins manage every shop, the shops themselves and other users
+   * - Shop admins only see the data of the shops listed in `shops`
+   *
+   * Users created before roles existed have no `role` and are treated as
+   * super admins (see `isSuperAdmin`).
+   */
+  auth: true,
+
+  access: {
+    read: ({ req }) => {
+      if (isSuperAdmin(req)) return true
+      if (isAdmin(req)) return { id: { equals: req.user?.id } }
+      return false
+    },
+    create: ({ req }) => isSuperAdmin(req),
+    update: ({ req }) => {
+      if (isSuperAdmin(req)) return true
+      if (isAdmin(req)) return { id: { equals: req.user?.id } }
+      return false
+    },
+    delete: ({ req }) => isSuperAdmin(req),
+  },
+
+  hooks: {
+    beforeChange: [
+      /**
+       * The very first user (Payload "create first user" screen) must be able
+       * to configure everything: it becomes a super admin.
+       */
+      async ({ data, req, operation }) => {
+        if (operation !== 'create' || data.role) return data
+
+        const { totalDocs } = await req.payload.count({ collection: 'users', overrideAccess: true, req })
+        data.role = totalDocs === 0 ? SUPER_ADMIN_ROLE : SHOP_ADMIN_ROLE
+        return data
+      },
+    ],
+    beforeValidate: [
+      ({ data }) => {
+        if (data?.role === SHOP_ADMIN_ROLE && Array.isArray(data.shops) && !data.shops.length) {
+          throw new APIError('A shop admin needs at least one shop.', 400)
+        }
+        return data
+      },
+    ],
+  },
+
+  fields: [
+    {
+      name: 'role',
+      label: { fr: 'Rôle', en: 'Role', de: 'Rolle' },
+      type: 'select',
+      options: [
+        {
+          label: {
+            fr: 'Super admin (toutes les boutiques)',
+            en: 'Super admin (all shops)',
+            de: 'Super-Admin (alle Shops)',
+          },
+          value: SUPER_ADMIN_ROLE,
+        },
+        { label: { fr: 'Admin boutique', en: 'Shop admin', de: 'Shop-Admin' }, value: SHOP_ADMIN_ROLE },
+      ],
+      access: {
+        // Nobody can grant themselves more rights
+        create: ({ req }) => isSuperAdmin(req),
+        update: ({ req }) => isSuperAdmin(req),
+      },
+    },
+    {
+      name: 'shops',
+      label: { fr: 'Boutiques', en: 'Shops', de: 'Shops' },
+      type: 'relationship',
+      relationTo: 'shops',
+      hasMany: true,
+      saveToJWT: true,
+      admin: {
+        condition: (data) => data?.role === SHOP_ADMIN_ROLE,
+      },
+      access: {
+        create: ({ req }) => isSuperAdmin(req),
+        update: ({ req }) => isSuperAdmin(req),
+      },
+    },
+  ],
+}
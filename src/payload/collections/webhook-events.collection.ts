@@ -1,10 +1,26 @@
 import type { CollectionConfig } from 'payload'
 
+import { shopScopeField } from '../../shops/shopScope'
+import { WEBHOOK_ERROR_CODE_OPTIONS } from '../../webhook/pipeline/errorCodes'
+import { reprocessWebhookEventEndpoint } from '../../webhook/reprocess-webhook-event.endpoint'
+import { webhookFailuresEndpoint } from '../../webhook/webhook-failures.endpoint'
+import { webhookSecretUsageEndpoint } from '../../webhook/webhook-secret-usage.endpoint'
+import { internalFieldUpdateAccess, isInternal, isSuperAdmin, shopFieldUpdateAccess, shopScopedAccess } from '../access'
+
 export const WebhookEvents: CollectionConfig = {
   slug: 'webhook-events',
+  labels: {
+    singular: { fr: 'Événement webhook', en: 'Webhook event', de: 'Webhook-Ereignis' },
+    plural: { fr: 'Événements webhook', en: 'Webhook events', de: 'Webhook-Ereignisse' },
+  },
 
   admin: {
     useAsTitle: 'webhookId',
+    defaultColumns: ['webhookId', 'topic', 'orderNumber', 'status', 'errorCode', 'createdAt'],
+    components: {
+      // Failures grouped by error code, above the list
+      beforeList: ['/payload/components/WebhookFailuresByCode#WebhookFailuresByCode'],
+    },
   },
 
   /**
@@ -12,30 +28,98 @@ export const WebhookEvents: CollectionConfig = {
    * - Anti-replay protection
    * - Debugging & observability
    * - Support audits
+   * - Durable queue: the verified raw body is stored and processed
+   *   asynchronously by the webhook events worker
    *
    * They should never be modified by public users.
+   * Shop admins only see the events of their shops; they cannot update them
+   * (a rewritten raw body or status would be processed by the worker):
+   * requeueing goes through the reprocess endpoint.
    */
   access: {
-    read: ({ req }) => Boolean(req.user),
-    create: () => true, // webhook
-    update: () => true, // webhook
-    delete: ({ req }) => Boolean(req.user),
+    read: ({ req }) => shopScopedAccess(req),
+    create: ({ req }) => isInternal(req) || isSuperAdmin(req), // webhook (local API)
+    update: ({ req }) => isInternal(req) || isSuperAdmin(req), // worker (local API)
+    delete: ({ req }) => shopScopedAccess(req),
   },
 
+  /**
+   * Anti-replay guarantee: a delivery id is only accepted once per shop.
+   * On `shopScope`, never null (legacy events included), see `shopScopeField`.
+   */
+  indexes: [{ fields: ['shopScope', 'webhookId'], unique: true }],
+
+  /**
+   * Admin-only: queue a failed event again (see reprocess endpoint).
+   * POST /api/webhook-events/:id/reprocess
+   *
+   * Super-admin only: which webhook secrets still sign deliveries.
+   * GET /api/webhook-events/secret-usage
+   *
+   * Admin-only: failed events grouped by error code (failure view).
+   * GET /api/webhook-events/failures
+   */
+  endpoints: [webhookSecretUsageEndpoint, webhookFailuresEndpoint, reprocessWebhookEventEndpoint],
+
   fields: [
+    {
+      name: 'reprocess',
+      type: 'ui',
+      admin: {
+        components: {
+          Field: '/payload/components/ReprocessWebhookEventButton#ReprocessWebhookEventButton',
+        },
+      },
+    },
     {
       name: 'provider',
       type: 'select',
       required: true,
-      options: [{ label: 'Shopify', value: 'shopify' }],
+      options: [{ label: { fr: 'Shopify', en: 'Shopify', de: 'Shopify' }, value: 'shopify' }],
       defaultValue: 'shopify',
     },
+    {
+      name: 'shop',
+      type: 'relationship',
+      relationTo: 'shops',
+      index: true,
+      access: { update: shopFieldUpdateAccess },
+      admin: {
+        description: 'Shop resolved from `x-shopify-shop-domain` (empty in legacy single-shop mode).',
+      },
+    },
+    shopScopeField,
+    {
+      name: 'shopDomain',
+      type: 'text',
+      admin: {
+        description: 'Raw `x-shopify-shop-domain` header, kept for support.',
+      },
+    },
     {
       name: 'webhookId',
       type: 'text',
       required: true,
-      unique: true, // anti-replay guarantee
+      index: true, // anti-replay guarantee, unique per shop (see `indexes`)
+    },
+    {
+      name: 'unsigned',
+      type: 'checkbox',
+      defaultValue: false,
       index: true,
+      admin: {
+        position: 'sidebar',
+        description:
+          'Accepted WITHOUT a valid signature (development bypass `SHOPIFY_WEBHOOK_VERIFY_SIGNATURE=false`). Never trust it.',
+      },
+    },
+    {
+      name: 'secretLabel',
+      type: 'text',
+      index: true,
+      admin: {
+        description: 'Label of the webhook secret that validated the signature (the secret itself is never stored).',
+      },
     },
     {
       name: 'topic',
@@ -53,16 +137,155 @@ export const WebhookEvents: CollectionConfig = {
       type: 'select',
       required: true,
       options: [
-        { label: 'Received', value: 'received' },
-        { label: 'Processed', value: 'processed' },
-        { label: 'Failed', value: 'failed' },
+        { label: { fr: 'Reçu', en: 'Received', de: 'Empfangen' }, value: 'received' },
+        { label: { fr: 'En cours', en: 'Processing', de: 'In Bearbeitung' }, value: 'processing' },
+        { label: { fr: 'Traité', en: 'Processed', de: 'Verarbeitet' }, value: 'processed' },
+        { label: { fr: 'Échec', en: 'Failed', de: 'Fehlgeschlagen' }, value: 'failed' },
       ],
       defaultValue: 'received',
       index: true,
+      access: { update: internalFieldUpdateAccess },
+    },
+    {
+      name: 'errorCode',
+      type: 'select',
+      options: WEBHOOK_ERROR_CODE_OPTIONS,
+      index: true,
+      admin: {
+        readOnly: true,
+        description: 'Why the event failed (see `src/webhook/pipeline/errorCodes.ts`). Empty on older failures.',
+      },
     },
     {
       name: 'error',
       type: 'textarea',
+      access: { update: internalFieldUpdateAccess },
+      admin: {
+        description: 'Detail of the failure (or of the last transient error while retrying).',
+      },
+    },
+    {
+      name: 'failedAt',
+      type: 'date',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'alertedAt',
+      type: 'date',
+      index: true,
+      admin: {
+        readOnly: true,
+        description: 'Set once the failure was sent in an alert (email / outgoing webhook). Cleared on reprocess.',
+      },
+    },
+    {
+      name: 'rawBody',
+      type: 'textarea',
+      access: { update: internalFieldUpdateAccess },
+      admin: {
+        readOnly: true,
+        description: 'Verified raw request body, processed by the worker.',
+      },
+    },
+    {
+      name: 'rawBodyEncoding',
+      type: 'select',
+      options: [
+        { label: { fr: 'Brut', en: 'Plain', de: 'Unkomprimiert' }, value: 'plain' },
+        { label: { fr: 'Gzip (base64)', en: 'Gzip (base64)', de: 'Gzip (base64)' }, value: 'gzip-base64' },
+      ],
+      defaultValue: 'plain',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'rawBodyRedacted',
+      type: 'checkbox',
+      defaultValue: false,
+      admin: {
+        readOnly: true,
+        description: 'Personal data (addresses, phone, names) was removed before storage.',
+      },
+    },
+    {
+      name: 'attempts',
+      type: 'number',
+      defaultValue: 0,
+      access: { update: internalFieldUpdateAccess },
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'nextAttemptAt',
+      type: 'date',
+      index: true,
+      admin: {
+        readOnly: true,
+        description: 'Earliest time the worker may (re)try this event (exponential backoff).',
+      },
+    },
+    {
+      name: 'lockedAt',
+      type: 'date',
+      admin: {
+        readOnly: true,
+        description: 'Set when a worker claims the event. Stale locks are recovered after the lease.',
+      },
+    },
+    {
+      name: 'processedAt',
+      type: 'date',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'reprocessCount',
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'lastReprocessedAt',
+      type: 'date',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'lastReprocessedBy',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'createdPlatesCount',
+      type: 'number',
+    },
+    {
+      name: 'disabledPlatesCount',
+      type: 'number',
+    },
+    {
+      name: 'updatedPlatesCount',
+      type: 'number',
+      admin: {
+        description: 'Plates whose destination changed with the line item property (orders/updated, orders/edited).',
+      },
+    },
+    {
+      name: 'flaggedPlatesCount',
+      type: 'number',
+      admin: {
+        description: 'Plates flagged for disabling because an order edit removed their unit.',
+      },
     },
   ],
 
@@ -0,0 +1,85 @@
+'use client'
+
+import { Button, useConfig, useDocumentInfo, useFormFields } from '@payloadcms/ui'
+import React, { useState } from 'react'
+
+/**
+ * Admin UI action shown on `plates` documents.
+ *
+ * Calls `POST /api/plates/:id/replace` to issue a replacement for a broken
+ * or lost tag. Not rendered for disabled or already replaced plates.
+ */
+export const ReplacePlateButton: React.FC = () => {
+  const { id } = useDocumentInfo()
+  const { config } = useConfig()
+  const status = useFormFields(([fields]) => fields.status?.value)
+  const replacedBy = useFormFields(([fields]) => fields.replacedBy?.value)
+
+  const [reason, setReason] = useState('')
+  const [forward, setForward] = useState(false)
+  const [state, setState] = useState<'idle' | 'loading' | 'done' | 'error'>('idle')
+  const [message, setMessage] = useState<string | null>(null)
+  const [replacementId, setReplacementId] = useState<string | null>(null)
+
+  // Once done, the message stays visible until the page is reloaded
+  if (!id || ((status === 'disabled' || replacedBy) && state !== 'done')) return null
+
+  const onClick = async () => {
+    setState('loading')
+    setMessage(null)
+
+    try {
+      const res = await fetch(`${config.serverURL}${config.routes.api}/plates/${id}/replace`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: reason || undefined, forward }),
+      })
+      const json = await res.json().catch(() => ({}))
+
+      if (!res.ok) {
+        setState('error')
+        setMessage(json?.error ?? `Request failed (${res.status})`)
+        return
+      }
+
+      setState('done')
+      setReplacementId(String(json.id))
+      setMessage(`Replacement ${json.slug} created. This plate is now disabled.`)
+    } catch (e: any) {
+      setState('error')
+      setMessage(String(e?.message ?? e))
+    }
+  }
+
+  return (
+    <div style={{ marginBottom: 24 }}>
+      {state !== 'done' && (
+        <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap', marginBottom: 8 }}>
+          <input
+            type="text"
+            placeholder="Reason (e.g. tag broken)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            style={{ flex: '1 1 240px', padding: 8 }}
+          />
+          <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+            <input type="checkbox" checked={forward} onChange={(e) => setForward(e.target.checked)} />
+            Forward taps on this plate to the replacement
+          </label>
+        </div>
+      )}
+      <Button buttonStyle="secondary" disabled={state === 'loading' || state === 'done'} onClick={onClick}>
+        {state === 'loading' ? 'Replacing…' : 'Issue replacement plate'}
+      </Button>
+      {message && (
+        <p style={{ color: state === 'error' ? 'var(--theme-error-500)' : undefined }}>
+          {message}{' '}
+          {replacementId && (
+            <a href={`${config.routes.admin}/collections/plates/${replacementId}`}>Open the replacement</a>
+          )}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+'use client'
+
+import { Button, useConfig, useDocumentInfo, useFormFields } from '@payloadcms/ui'
+import React, { useState } from 'react'
+
+/**
+ * Admin UI button shown on `webhook-events` documents.
+ *
+ * Calls `POST /api/webhook-events/:id/reprocess` and lets the worker
+ * process the stored payload again. Only rendered for `failed` events.
+ */
+export const ReprocessWebhookEventButton: React.FC = () => {
+  const { id } = useDocumentInfo()
+  const { config } = useConfig()
+  const status = useFormFields(([fields]) => fields.status?.value)
+
+  const [state, setState] = useState<'idle' | 'loading' | 'done' | 'error'>('idle')
+  const [message, setMessage] = useState<string | null>(null)
+
+  if (!id || status !== 'failed') return null
+
+  const onClick = async () => {
+    setState('loading')
+    setMessage(null)
+
+    try {
+      const res = await fetch(
+        `${config.serverURL}${config.routes.api}/webhook-events/${id}/reprocess`,
+        { method: 'POST', credentials: 'include' },
+      )
+      const json = await res.json().catch(() => ({}))
+
+      if (!res.ok) {
+        setState('error')
+        setMessage(json?.error ?? `Request failed (${res.status})`)
+        return
+      }
+
+      setState('done')
+      setMessage('Event queued. Reload the page in a few seconds to see the result.')
+    } catch (e: any) {
+      setState('error')
+      setMessage(String(e?.message ?? e))
+    }
+  }
+
+  return (
+    <div style={{ marginBottom: 24 }}>
+      <Button buttonStyle="secondary" disabled={state === 'loading' || state === 'done'} onClick={onClick}>
+        {state === 'loading' ? 'Reprocessing…' : 'Reprocess event'}
+      </Button>
+      {message && (
+        <p style={{ color: state === 'error' ? 'var(--theme-error-500)' : undefined }}>{message}</p>
+      )}
+    </div>
+  )
+}
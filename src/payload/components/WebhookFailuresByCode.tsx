@@ -0,0 +1,99 @@
+'use client'
+
+import { useConfig } from '@payloadcms/ui'
+import React, { useEffect, useState } from 'react'
+
+type FailureGroup = {
+  errorCode: string | null
+  count: number
+  lastFailedAt: string | null
+  topics: string[]
+  latestError: string | null
+  orders: Array<{ id: string | number; orderNumber: string }>
+  unknownOrderNumbers: string[]
+}
+
+const MAX_ORDER_LINKS = 20
+
+/**
+ * Admin UI view shown above the `webhook-events` list.
+ *
+ * Calls `GET /api/webhook-events/failures` and shows the failed events of the
+ * last 30 days grouped by error code, with links to the affected orders and
+ * to the matching events. Hidden when nothing failed.
+ */
+export const WebhookFailuresByCode: React.FC = () => {
+  const { config } = useConfig()
+
+  const [groups, setGroups] = useState<FailureGroup[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch(`${config.serverURL}${config.routes.api}/webhook-events/failures`, { credentials: 'include' })
+      .then(async (res) => {
+        const json = await res.json().catch(() => ({}))
+        if (!res.ok) throw new Error(json?.error ?? `Request failed (${res.status})`)
+        setGroups(json.groups ?? [])
+      })
+      .catch((e: any) => setError(String(e?.message ?? e)))
+  }, [config.serverURL, config.routes.api])
+
+  if (error) {
+    return <p style={{ color: 'var(--theme-error-500)', margin: '0 0 16px' }}>Failures by code: {error}</p>
+  }
+  if (!groups?.length) return null
+
+  const listUrl = (code: string | null) => {
+    const params = new URLSearchParams({ 'where[and][0][status][equals]': 'failed' })
+    if (code) params.set('where[and][1][errorCode][equals]', code)
+    return `${config.routes.admin}/collections/webhook-events?${params.toString()}`
+  }
+
+  const cell: React.CSSProperties = { padding: '8px 10px', borderBottom: '1px solid var(--theme-elevation-100)' }
+
+  return (
+    <div style={{ marginBottom: 24 }}>
+      <h3 style={{ margin: '0 0 8px' }}>Failures by code (last 30 days)</h3>
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 13 }}>
+        <thead>
+          <tr>
+            <th style={{ ...cell, textAlign: 'left' }}>Code</th>
+            <th style={{ ...cell, textAlign: 'right' }}>Events</th>
+            <th style={{ ...cell, textAlign: 'left' }}>Topics</th>
+            <th style={{ ...cell, textAlign: 'left' }}>Latest error</th>
+            <th style={{ ...cell, textAlign: 'left' }}>Orders</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map((g) => (
+            <tr key={g.errorCode ?? 'unclassified'}>
+              <td style={cell}>
+                <a href={listUrl(g.errorCode)}>{g.errorCode ?? 'Unclassified'}</a>
+              </td>
+              <td style={{ ...cell, textAlign: 'right' }}>{g.count}</td>
+              <td style={cell}>{g.topics.join(', ')}</td>
+              <td style={cell}>
+                {g.latestError}
+                {g.lastFailedAt && (
+                  <div style={{ opacity: 0.7 }}>{new Date(g.lastFailedAt).toLocaleString()}</div>
+                )}
+              </td>
+              <td style={cell}>
+                {g.orders.slice(0, MAX_ORDER_LINKS).map((o, i) => (
+                  <React.Fragment key={o.id}>
+                    {i > 0 && ', '}
+                    <a href={`${config.routes.admin}/collections/orders/${o.id}`}>{o.orderNumber}</a>
+                  </React.Fragment>
+                ))}
+                {g.orders.length > MAX_ORDER_LINKS && ` +${g.orders.length - MAX_ORDER_LINKS}`}
+                {g.unknownOrderNumbers.length > 0 && (
+                  <div style={{ opacity: 0.7 }}>Not created: {g.unknownOrderNumbers.join(', ')}</div>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
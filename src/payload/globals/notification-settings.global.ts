@@ -0,0 +1,67 @@
+import type { GlobalConfig } from 'payload'
+
+import { DATE_STYLES, DEFAULT_TIME_ZONE, isValidTimeZone } from '../../i18n/formatDate'
+import { DEFAULT_LOCALE, LOCALE_OPTIONS } from '../../i18n/locales'
+import { isAdmin, isInternal, isSuperAdmin } from '../access'
+
+/**
+ * Options of the `dateStyle` fields (global and shop override), see `Intl.DateTimeFormat`.
+ */
+export const DATE_STYLE_OPTIONS = DATE_STYLES.map((style) => ({
+  label: {
+    fr: { short: 'Court', medium: 'Moyen', long: 'Long', full: 'Complet' }[style],
+    en: { short: 'Short', medium: 'Medium', long: 'Long', full: 'Full' }[style],
+    de: { short: 'Kurz', medium: 'Mittel', long: 'Lang', full: 'Vollständig' }[style],
+  },
+  value: style,
+}))
+
+export function validateTimeZone(value: unknown) {
+  if (value === null || value === undefined || value === '') return true
+  return isValidTimeZone(String(value)) || 'Unknown IANA timezone (e.g. Europe/Paris, Europe/Berlin).'
+}
+
+export const NotificationSettings: GlobalConfig = {
+  slug: 'notification-settings',
+  label: { fr: 'Réglages des notifications', en: 'Notification settings', de: 'Benachrichtigungseinstellungen' },
+
+  /**
+   * Language and date format of internal emails (new plates, reconciliation digest).
+   * Customer emails follow the Shopify order (`orders.customerLocale`) instead.
+   * Shops may override these values (see `shops.notificationLocale`).
+   */
+  access: {
+    read: ({ req }) => isInternal(req) || isAdmin(req),
+    update: ({ req }) => isSuperAdmin(req),
+  },
+
+  fields: [
+    {
+      name: 'internalLocale',
+      label: { fr: 'Langue des emails internes', en: 'Internal email language', de: 'Sprache interner E-Mails' },
+      type: 'select',
+      options: LOCALE_OPTIONS,
+      defaultValue: DEFAULT_LOCALE,
+      required: true,
+    },
+    {
+      name: 'timeZone',
+      label: { fr: 'Fuseau horaire', en: 'Timezone', de: 'Zeitzone' },
+      type: 'text',
+      defaultValue: DEFAULT_TIME_ZONE,
+      required: true,
+      validate: validateTimeZone,
+      admin: {
+        description: 'IANA timezone used for dates in internal emails, e.g. Europe/Paris.',
+      },
+    },
+    {
+      name: 'dateStyle',
+      label: { fr: 'Format des dates', en: 'Date format', de: 'Datumsformat' },
+      type: 'select',
+      options: DATE_STYLE_OPTIONS,
+      defaultValue: 'medium',
+      required: true,
+    },
+  ],
+}
@@ -0,0 +1,53 @@
+import type { GlobalConfig } from 'payload'
+
+import { isAdmin, isInternal, isSuperAdmin } from '../access'
+
+/**
+ * Default pack sizes, used until an admin saves the settings.
+ * Matches the historical hardcoded rule (1 / 2 / 5 Plaques).
+ */
+export const DEFAULT_ALLOWED_PACK_SIZES = [1, 2, 5]
+
+export const PackSettings: GlobalConfig = {
+  slug: 'pack-settings',
+  label: { fr: 'Réglages des packs', en: 'Pack settings', de: 'Pack-Einstellungen' },
+
+  /**
+   * Pack sizes are business configuration: admins manage them without deploying code.
+   * Shared by every shop, so only super admins can change them.
+   * Backend processes read them through the local API.
+   */
+  access: {
+    read: ({ req }) => isInternal(req) || isAdmin(req),
+    update: ({ req }) => isSuperAdmin(req),
+  },
+
+  fields: [
+    {
+      name: 'allowedPackSizes',
+      label: { fr: 'Tailles de pack autorisées', en: 'Allowed pack sizes', de: 'Erlaubte Packgrößen' },
+      type: 'number',
+      hasMany: true,
+      min: 1,
+      defaultValue: DEFAULT_ALLOWED_PACK_SIZES,
+      admin: {
+        description:
+          'Number of plates a single unit may represent. Any other value makes the webhook fail safely.',
+      },
+    },
+    {
+      name: 'allowVariantTitleFallback',
+      label: {
+        fr: 'Déduire la taille depuis le nom de variante',
+        en: 'Infer size from variant title',
+        de: 'Größe aus dem Variantennamen ableiten',
+      },
+      type: 'checkbox',
+      defaultValue: true,
+      admin: {
+        description:
+          'When no pack mapping matches the variant_id / sku, parse "N Plaques" from variant_title / name.',
+      },
+    },
+  ],
+}
@@ -0,0 +1,101 @@
+import type { Payload, PayloadRequest, RequestContext } from 'payload'
+
+import { shopFilter } from '../shops/resolveShop'
+import { getDuplicateKeyName, isDuplicateKeyError } from '../utils/isDuplicateKeyError'
+import { plateSlugs } from './slug'
+
+const MAX_SLUG_ATTEMPTS = 5
+
+/**
+ * Which unique key a duplicate key error on a plate insert is about.
+ *
+ * Told from the error when it says (see `getDuplicateKeyName`). Otherwise the keys
+ * are looked up, which is only possible outside a transaction: a failed insert
+ * aborts a Postgres transaction, so in one an unknown key stays unknown (null).
+ */
+async function findViolatedKey(
+  payload: Payload,
+  err: unknown,
+  keys: { sourceKey: string; shop?: string | number | null; slug: string },
+  req?: PayloadRequest,
+): Promise<'sourceKey' | 'slug' | null> {
+  const name = getDuplicateKeyName(err)
+  if (name?.includes('sourcekey')) return 'sourceKey'
+  if (name?.includes('slug')) return 'slug'
+  if (req?.transactionID) return null
+
+  const sameSourceKey = await payload.count({
+    collection: 'plates',
+    where: { and: [{ sourceKey: { equals: keys.sourceKey } }, shopFilter(keys.shop)] },
+    overrideAccess: true,
+  })
+  if (sameSourceKey.totalDocs > 0) return 'sourceKey'
+
+  const sameSlug = await payload.count({
+    collection: 'plates',
+    where: { slug: { equals: keys.slug } },
+    overrideAccess: true,
+  })
+  return sameSlug.totalDocs > 0 ? 'slug' : null
+}
+
+/**
+ * Slug not used by any plate yet, checked before the insert.
+ * Only used in transactions, where a colliding insert cannot be retried.
+ */
+async function generateFreeSlug(payload: Payload, req: PayloadRequest): Promise<string> {
+  for (let attempt = 1; ; attempt++) {
+    const slug = plateSlugs.generate()
+    const taken = await payload.count({
+      collection: 'plates',
+      where: { slug: { equals: slug } },
+      overrideAccess: true,
+      req,
+    })
+    if (taken.totalDocs === 0 || attempt >= MAX_SLUG_ATTEMPTS) return slug
+  }
+}
+
+/**
+ * Creates a plate with a freshly generated slug.
+ *
+ * A unique-index error can mean two very different things:
+ * - the `sourceKey` already exists: a concurrent run created this plate,
+ *   which is the expected idempotent outcome → returns null
+ * - the slug already exists: a random collision → retried with a new slug
+ *
+ * Any other error is rethrown.
+ *
+ * `req` makes the writes join its transaction (see the plate replacement). A
+ * failed insert aborts the transaction, so there the slug is checked before the
+ * insert instead of retried after it.
+ */
+export async function createPlateWithUniqueSlug(
+  payload: Payload,
+  data: Record<string, unknown> & { sourceKey: string; shop?: string | number | null },
+  opts: { context?: RequestContext; req?: PayloadRequest } = {},
+): Promise<any | null> {
+  const inTransaction = Boolean(opts.req?.transactionID)
+
+  for (let attempt = 1; ; attempt++) {
+    const slug = inTransaction ? await generateFreeSlug(payload, opts.req!) : plateSlugs.generate()
+
+    try {
+      return await payload.create({
+        collection: 'plates',
+        data: { ...data, slug },
+        context: opts.context,
+        req: opts.req,
+      })
+    } catch (err) {
+      if (!isDuplicateKeyError(err)) throw err
+
+      const keys = { sourceKey: data.sourceKey, shop: data.shop, slug }
+      const violated = await findViolatedKey(payload, err, keys, opts.req)
+      if (violated === 'sourceKey') return null
+      if (violated !== 'slug' || inTransaction || attempt >= MAX_SLUG_ATTEMPTS) throw err
+
+      payload.logger?.warn?.(`Plate slug collision on ${slug}, retrying (attempt ${attempt})`)
+    }
+  }
+}
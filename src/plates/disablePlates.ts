@@ -0,0 +1,40 @@
+import type { Payload } from 'payload'
+
+/**
+ * Moves plates to the `disabled` status so `/p/:slug` stops redirecting.
+ *
+ * IMPORTANT:
+ * - Plates are NEVER deleted: the physical tag still exists and must keep
+ *   showing the "disabled" page rather than a "not found" one.
+ * - Already disabled plates are skipped, which makes the operation idempotent.
+ * - `actor` is recorded in the plate `statusHistory` (e.g. `webhook:orders/cancelled`).
+ *
+ * Returns the number of plates actually disabled by this call.
+ */
+export async function disablePlates(
+  payload: Payload,
+  plates: Array<{ id: string | number; status?: string | null }>,
+  reason: string,
+  actor = 'system',
+): Promise<number> {
+  let count = 0
+  const disabledAt = new Date().toISOString()
+
+  for (const plate of plates) {
+    if (plate.status === 'disabled') continue
+
+    await payload.update({
+      collection: 'plates',
+      id: plate.id,
+      data: {
+        status: 'disabled',
+        disabledAt,
+        disabledReason: reason,
+      },
+      context: { actor, statusReason: reason },
+    })
+    count++
+  }
+
+  return count
+}
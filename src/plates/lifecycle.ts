@@ -0,0 +1,73 @@
+/**
+ * Physical lifecycle of a plate.
+ *
+ *   created → encoded → shipped → delivered → activated
+ *                                     ↘ (first tap) ↗
+ *   any status (except disabled) → disabled
+ *
+ * - created:   record generated by the orders/paid webhook
+ * - encoded:   slug written on the NFC tag by the workshop
+ * - shipped:   parcel handed to the carrier
+ * - delivered: parcel delivered to the customer
+ * - activated: the plate redirects to its destination
+ * - disabled:  the plate must never redirect again (terminal)
+ *
+ * A shipped plate may skip `delivered`: the first tap by the customer proves
+ * it arrived (see the `/p/:slug` redirect).
+ */
+
+export const PLATE_STATUSES = ['created', 'encoded', 'shipped', 'delivered', 'activated', 'disabled'] as const
+
+export type PlateStatus = (typeof PLATE_STATUSES)[number]
+
+export const PLATE_TRANSITIONS: Record<PlateStatus, PlateStatus[]> = {
+  created: ['encoded', 'disabled'],
+  encoded: ['shipped', 'disabled'],
+  shipped: ['delivered', 'activated', 'disabled'],
+  delivered: ['activated', 'disabled'],
+  activated: ['disabled'],
+  disabled: [],
+}
+
+/**
+ * Timestamp field set when a plate enters a status.
+ * `created` uses the built-in `createdAt`.
+ */
+export const PLATE_STATUS_TIMESTAMPS: Partial<Record<PlateStatus, string>> = {
+  encoded: 'encodedAt',
+  shipped: 'shippedAt',
+  delivered: 'deliveredAt',
+  activated: 'activatedAt',
+  disabled: 'disabledAt',
+}
+
+/**
+ * Statuses stored before the lifecycle existed.
+ * `pending` meant "not redirecting yet".
+ */
+const LEGACY_STATUSES: Record<string, PlateStatus> = {
+  pending: 'created',
+}
+
+export function toPlateStatus(value: unknown): PlateStatus | null {
+  const s = String(value ?? '')
+  if ((PLATE_STATUSES as readonly string[]).includes(s)) return s as PlateStatus
+  return LEGACY_STATUSES[s] ?? null
+}
+
+export function canTransition(from: PlateStatus, to: PlateStatus): boolean {
+  return PLATE_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Identifies who moved a plate, for the `statusHistory` audit trail.
+ *
+ * Backend callers pass `context.actor` (e.g. `webhook:orders/cancelled`, `system:first-scan`);
+ * otherwise the logged-in admin or customer is used.
+ */
+export function resolveActor(req: any): string {
+  const fromContext = req?.context?.actor
+  if (typeof fromContext === 'string' && fromContext) return fromContext
+  if (req?.user?.email) return `${req.user.collection ?? 'user'}:${req.user.email}`
+  return 'system'
+}
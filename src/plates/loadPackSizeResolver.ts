@@ -0,0 +1,60 @@
+import type { Payload } from 'payload'
+
+import { DEFAULT_ALLOWED_PACK_SIZES } from '../payload/globals/pack-settings.global'
+import { getPackSize } from '../utils/getPackSize'
+
+export type PackSizeResolver = (item: any) => number | null
+
+/**
+ * Loads the pack configuration once and returns a synchronous resolver
+ * usable by `extractGroups` (which must stay pure and deterministic).
+ *
+ * Resolution order for a Shopify line item:
+ * 1. Active `pack-mappings` entry matching `variant_id`
+ * 2. Active `pack-mappings` entry matching `sku`
+ * 3. "N Plaques" parsing of variant_title / name, only if
+ *    `pack-settings.allowVariantTitleFallback` is enabled
+ *
+ * A mapping whose plate count is no longer in `allowedPackSizes` is ignored:
+ * the item then fails safely instead of generating an unexpected count.
+ *
+ * Read errors are thrown (the worker retries the event): defaulting the
+ * settings would re-enable the fallback an admin turned off.
+ */
+export async function loadPackSizeResolver(payload: Payload): Promise<PackSizeResolver> {
+  const [settings, mappings] = await Promise.all([
+    payload.findGlobal({ slug: 'pack-settings', depth: 0 }) as Promise<any>,
+    payload.find({
+      collection: 'pack-mappings',
+      where: { active: { equals: true } },
+      pagination: false,
+      depth: 0,
+    }),
+  ])
+
+  const allowedSizes: number[] = settings?.allowedPackSizes?.length
+    ? settings.allowedPackSizes.map(Number)
+    : DEFAULT_ALLOWED_PACK_SIZES
+  const allowFallback = settings?.allowVariantTitleFallback ?? true
+
+  const byVariantId = new Map<string, number>()
+  const bySku = new Map<string, number>()
+
+  for (const m of mappings.docs as any[]) {
+    const count = Number(m.plateCount)
+    if (!allowedSizes.includes(count)) continue
+
+    if (m.variantId) byVariantId.set(String(m.variantId).trim(), count)
+    if (m.sku) bySku.set(String(m.sku).trim().toLowerCase(), count)
+  }
+
+  return (item: any) => {
+    const variantId = item?.variant_id != null ? String(item.variant_id).trim() : ''
+    if (variantId && byVariantId.has(variantId)) return byVariantId.get(variantId)!
+
+    const sku = item?.sku ? String(item.sku).trim().toLowerCase() : ''
+    if (sku && bySku.has(sku)) return bySku.get(sku)!
+
+    return allowFallback ? getPackSize(item, allowedSizes) : null
+  }
+}
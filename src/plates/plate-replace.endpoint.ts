@@ -0,0 +1,62 @@
+import { commitTransaction, initTransaction, killTransaction, type Endpoint } from 'payload'
+
+import { isAdmin } from '../payload/access'
+import { replacePlate } from './replacePlate'
+
+/**
+ * Admin action — POST /api/plates/:id/replace
+ *
+ * Body: `{ reason?: string, forward?: boolean }`
+ *
+ * Issues a replacement for a broken or lost tag (see `replacePlate` and DEC-024):
+ * a new plate with a derived `sourceKey` and the same destination, to be encoded
+ * and shipped like any other. The old plate is disabled, or forwards its taps to
+ * the replacement with `forward: true` (e.g. a damaged tag that still reads).
+ *
+ * Runs in a database transaction: the replacement, the disabled plate and the
+ * order's `plates` relation are written together or not at all.
+ *
+ * Admin only (shop admins: plates of their shops).
+ */
+export const replacePlateEndpoint: Endpoint = {
+  path: '/:id/replace',
+  method: 'post',
+
+  handler: async (req) => {
+    if (!isAdmin(req)) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body: any = await req.json?.().catch(() => null)
+    const reason = typeof body?.reason === 'string' && body.reason.trim() ? body.reason.trim() : undefined
+
+    const ownsTransaction = await initTransaction(req)
+    try {
+      const result = await replacePlate(req, String(req.routeParams?.id ?? ''), {
+        reason,
+        forward: body?.forward === true,
+      })
+
+      if (!result.ok) {
+        if (ownsTransaction) await killTransaction(req)
+        return Response.json({ error: result.error }, { status: result.status })
+      }
+
+      if (ownsTransaction) await commitTransaction(req)
+
+      return Response.json(
+        {
+          id: result.replacement.id,
+          slug: result.replacement.slug,
+          sourceKey: result.replacement.sourceKey,
+          publicUrl: `/p/${result.replacement.slug}`,
+          replaced: { id: result.replaced.id, slug: result.replaced.slug },
+        },
+        { status: 201 },
+      )
+    } catch (err) {
+      if (ownsTransaction) await killTransaction(req)
+      throw err
+    }
+  },
+}
@@ -0,0 +1,93 @@
+import type { Endpoint, Where } from 'payload'
+
+import { isAdmin } from '../payload/access'
+import { toPlateStatus } from './lifecycle'
+
+const MAX_PLATES = 1000
+
+/**
+ * Bulk lifecycle transition — POST /api/plates/status
+ *
+ * Body: `{ status, ids?: string[], exportBatch?: string, reason?: string, tracking?: { number, company?, url? } }`
+ *
+ * Used by the workshop to move a whole export batch (or a selection) at once,
+ * e.g. `encoded` after writing the tags, `shipped` when the parcel leaves.
+ * Tracking info sent with `shipped` is stored on the plates and forwarded to
+ * Shopify by the fulfillment sync.
+ *
+ * Each plate is updated individually so the lifecycle hook validates the
+ * transition and records the audit entry. Invalid transitions are reported
+ * per plate and do not stop the others.
+ *
+ * Admin only. Shop admins only reach the plates of their shops.
+ */
+export const bulkPlateStatusEndpoint: Endpoint = {
+  path: '/status',
+  method: 'post',
+
+  handler: async (req) => {
+    if (!isAdmin(req)) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body: any = await req.json?.().catch(() => null)
+    const status = toPlateStatus(body?.status)
+    if (!status || status !== body?.status) {
+      return Response.json({ error: 'Invalid status' }, { status: 400 })
+    }
+
+    let where: Where
+    if (Array.isArray(body?.ids) && body.ids.length) {
+      where = { id: { in: body.ids.map(String) } }
+    } else if (body?.exportBatch) {
+      where = { exportBatch: { equals: String(body.exportBatch) } }
+    } else {
+      return Response.json({ error: 'Provide `ids` or `exportBatch`' }, { status: 400 })
+    }
+
+    const plates = await req.payload.find({
+      collection: 'plates',
+      where,
+      limit: MAX_PLATES,
+      depth: 0,
+      overrideAccess: false,
+      user: req.user,
+    })
+
+    const reason = typeof body?.reason === 'string' && body.reason.trim() ? body.reason.trim() : undefined
+    const tracking =
+      status === 'shipped' && typeof body?.tracking?.number === 'string' && body.tracking.number.trim()
+        ? {
+            trackingNumber: body.tracking.number.trim(),
+            trackingCompany: body.tracking.company ? String(body.tracking.company) : undefined,
+            trackingUrl: body.tracking.url ? String(body.tracking.url) : undefined,
+          }
+        : {}
+
+    const result = { updated: 0, unchanged: 0, errors: [] as Array<{ id: string; error: string }> }
+
+    for (const plate of plates.docs as any[]) {
+      if (plate.status === status) {
+        result.unchanged++
+        continue
+      }
+
+      try {
+        await req.payload.update({
+          collection: 'plates',
+          id: plate.id,
+          data: { status, ...tracking, ...(status === 'disabled' && reason ? { disabledReason: reason } : {}) },
+          depth: 0,
+          overrideAccess: false,
+          user: req.user,
+          context: { statusReason: reason },
+        })
+        result.updated++
+      } catch (err: any) {
+        result.errors.push({ id: String(plate.id), error: String(err?.message ?? err) })
+      }
+    }
+
+    return Response.json(result, { status: result.errors.length && !result.updated ? 400 : 200 })
+  },
+}
@@ -0,0 +1,156 @@
+import type { PayloadRequest } from 'payload'
+
+import { parseSourceKey, replacementSourceKey } from '../utils/parseSourceKey'
+import { createPlateWithUniqueSlug } from './createPlateWithUniqueSlug'
+
+/**
+ * Fields a replacement plate takes over from the plate it replaces.
+ *
+ * Fulfillment fields are copied too: the Shopify line item is already
+ * fulfilled when the broken tag had been shipped, and must not be fulfilled twice.
+ * Tracking, scans and the status history stay on the old plate.
+ */
+const COPIED_FIELDS = [
+  'shop',
+  'order',
+  'destinationType',
+  'googleReviewUrl',
+  'destinationUrl',
+  'wifi',
+  'timeZone',
+  'destinationRules',
+  'sourceDestination',
+  'shopifyFulfillmentId',
+  'fulfillmentSyncedAt',
+]
+
+/**
+ * Array rows keep their ids when read: a new document must get its own.
+ */
+function withoutRowIds(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(withoutRowIds)
+  if (!value || typeof value !== 'object') return value
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([k]) => k !== 'id')
+      .map(([k, v]) => [k, withoutRowIds(v)]),
+  )
+}
+
+export type ReplacePlateResult =
+  | { ok: true; replacement: any; replaced: any }
+  | { ok: false; status: number; error: string }
+
+/**
+ * Issues a replacement for a broken or lost plate (see DEC-024).
+ *
+ * - The replacement gets the derived `sourceKey` `${orderNumber}|${lineItemId}|${index}|r${n}`,
+ *   a new slug, the destination of the old plate and `replaces` → old plate
+ * - The old plate is disabled with `replacedBy` → replacement; with `forward`,
+ *   taps on it serve the replacement's destination instead of the disabled page
+ * - The order's `plates` relation is refreshed
+ *
+ * Every write goes through `req`, so the caller's transaction (if any) covers
+ * all of them. Access rules apply to the lookup: shop admins only reach the plates of their shops.
+ */
+export async function replacePlate(
+  req: PayloadRequest,
+  id: string,
+  opts: { reason?: string; forward?: boolean } = {},
+): Promise<ReplacePlateResult> {
+  const { payload } = req
+
+  let plate: any
+  try {
+    plate = await payload.findByID({
+      collection: 'plates',
+      id,
+      depth: 0,
+      overrideAccess: false,
+      user: req.user,
+      req,
+    })
+  } catch {
+    plate = null
+  }
+  if (!plate) return { ok: false, status: 404, error: 'Plate not found' }
+
+  if (plate.replacedBy) {
+    return { ok: false, status: 409, error: 'Plate already replaced' }
+  }
+  if (plate.status === 'disabled') {
+    return { ok: false, status: 409, error: 'Disabled plates cannot be replaced' }
+  }
+
+  const key = parseSourceKey(plate.sourceKey)
+  if (!key) {
+    return {
+      ok: false,
+      status: 409,
+      error: `Non-standard sourceKey ${plate.sourceKey}: no replacement key can be derived`,
+    }
+  }
+
+  // Next replacement number of this unit (a replacement can be replaced too)
+  const siblings = await payload.find({
+    collection: 'plates',
+    where: { order: { equals: plate.order } },
+    select: { sourceKey: true },
+    pagination: false,
+    depth: 0,
+    overrideAccess: true,
+    req,
+  })
+  const sameUnit = siblings.docs
+    .map((p: any) => parseSourceKey(p.sourceKey))
+    .filter((k) => k?.orderNumber === key.orderNumber && k.lineItemId === key.lineItemId && k.index === key.index)
+  const replacement = 1 + Math.max(0, ...sameUnit.map((k) => k!.replacement))
+
+  const reason = `Replaced${opts.reason ? `: ${opts.reason}` : ''}`
+  const copied = Object.fromEntries(COPIED_FIELDS.filter((f) => f in plate).map((f) => [f, withoutRowIds(plate[f])]))
+
+  const created = await createPlateWithUniqueSlug(
+    payload,
+    {
+      ...copied,
+      sourceKey: replacementSourceKey(key, replacement),
+      replaces: plate.id,
+      status: 'created',
+    },
+    { req, context: { statusReason: `Replacement of ${plate.slug}` } },
+  )
+  // null: the same replacement was issued concurrently
+  if (!created) return { ok: false, status: 409, error: 'Plate already replaced' }
+
+  const replaced = await payload.update({
+    collection: 'plates',
+    id: plate.id,
+    data: {
+      status: 'disabled',
+      disabledReason: reason,
+      replacedBy: created.id,
+      forwardToReplacement: Boolean(opts.forward),
+    },
+    depth: 0,
+    req,
+    context: { statusReason: reason },
+  })
+
+  const finalPlates = await payload.find({
+    collection: 'plates',
+    where: { order: { equals: plate.order } },
+    pagination: false,
+    depth: 0,
+    overrideAccess: true,
+    req,
+  })
+  await payload.update({
+    collection: 'orders',
+    id: plate.order,
+    data: { plates: finalPlates.docs.map((p: any) => p.id) },
+    overrideAccess: true,
+    req,
+  })
+
+  return { ok: true, replacement: created, replaced }
+}
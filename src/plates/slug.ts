@@ -0,0 +1,113 @@
+import crypto from 'crypto'
+
+/**
+ * Plate slugs: `/p/:slug`, encoded once in the NFC tag and printed on the plate.
+ *
+ * Format: `length` random characters + 1 check character, all from `alphabet`.
+ *
+ * - The default alphabet has no look-alike characters (0/o, 1/l/i; `u` is left out
+ *   so it is never taken for `v`), so a slug can be read aloud or typed from a printed plate.
+ * - The check character (Luhn mod N) catches every single-character typo and
+ *   most swaps of adjacent characters: the redirect rejects them without a DB hit.
+ * - Characters are drawn with `crypto.randomInt` (uniform, unguessable).
+ *   Default: 30^10 ≈ 2^49 possible slugs.
+ *
+ * IMPORTANT: never change the alphabet once plates exist, existing slugs
+ * would no longer pass the check.
+ */
+
+export const DEFAULT_SLUG_ALPHABET = '23456789abcdefghjkmnpqrstvwxyz'
+export const DEFAULT_SLUG_LENGTH = 10
+
+/** Characters that are too easy to confuse when printed or read aloud. */
+const AMBIGUOUS_CHARACTERS = '01ilo'
+
+/**
+ * Slugs generated before this module (`randomBytes(6).toString('hex')`).
+ * They have no check character and are still served.
+ */
+export const LEGACY_SLUG_PATTERN = /^[0-9a-f]{12}$/
+
+export type SlugCodec = {
+  alphabet: string
+  /** Random characters, check character excluded. */
+  length: number
+  generate(): string
+  /** Charset, length and check character; no DB access. */
+  isValid(slug: string): boolean
+}
+
+function checkCharacter(body: string, alphabet: string): string {
+  const n = alphabet.length
+  let factor = 2
+  let sum = 0
+
+  // Luhn mod N: double every other code point, starting from the right
+  for (let i = body.length - 1; i >= 0; i--) {
+    let addend = factor * alphabet.indexOf(body[i])
+    factor = factor === 2 ? 1 : 2
+    addend = Math.floor(addend / n) + (addend % n)
+    sum += addend
+  }
+
+  return alphabet[(n - (sum % n)) % n]
+}
+
+export function createSlugCodec(opts: { alphabet?: string; length?: number } = {}): SlugCodec {
+  const alphabet = opts.alphabet ?? DEFAULT_SLUG_ALPHABET
+  const length = opts.length ?? DEFAULT_SLUG_LENGTH
+
+  if (!/^[a-z0-9]+$/.test(alphabet) || new Set(alphabet).size !== alphabet.length || alphabet.length < 16) {
+    throw new Error('Slug alphabet must have at least 16 distinct lowercase letters or digits')
+  }
+  if (alphabet.length % 2 !== 0) {
+    // Luhn mod N only detects every single-character typo with an even alphabet size
+    throw new Error('Slug alphabet must have an even number of characters')
+  }
+  if ([...AMBIGUOUS_CHARACTERS].some((c) => alphabet.includes(c))) {
+    throw new Error(`Slug alphabet must not contain ambiguous characters (${AMBIGUOUS_CHARACTERS})`)
+  }
+  if (!Number.isInteger(length) || length < 8 || length > 32) {
+    throw new Error('Slug length must be an integer between 8 and 32')
+  }
+
+  const charset = new RegExp(`^[${alphabet}]{${length + 1}}$`)
+
+  return {
+    alphabet,
+    length,
+
+    generate() {
+      let body = ''
+      for (let i = 0; i < length; i++) body += alphabet[crypto.randomInt(alphabet.length)]
+      return body + checkCharacter(body, alphabet)
+    },
+
+    isValid(slug) {
+      if (!charset.test(slug)) return false
+      return checkCharacter(slug.slice(0, -1), alphabet) === slug.slice(-1)
+    },
+  }
+}
+
+/**
+ * Codec used for plates (`PLATE_SLUG_ALPHABET`, `PLATE_SLUG_LENGTH`).
+ */
+export const plateSlugs = createSlugCodec({
+  alphabet: process.env.PLATE_SLUG_ALPHABET || undefined,
+  length: process.env.PLATE_SLUG_LENGTH ? Number(process.env.PLATE_SLUG_LENGTH) : undefined,
+})
+
+/**
+ * Slugs are matched case-insensitively: printed plates may be read in capitals.
+ */
+export function normalizeSlug(input: string): string {
+  return input.trim().toLowerCase()
+}
+
+/**
+ * True when the slug may exist: a valid current slug, or a legacy hex slug.
+ */
+export function isPlausiblePlateSlug(slug: string): boolean {
+  return plateSlugs.isValid(slug) || LEGACY_SLUG_PATTERN.test(slug)
+}
@@ -0,0 +1,52 @@
+import type { Payload, PayloadRequest } from 'payload'
+
+/**
+ * Recomputes `orders.activated` from the order's plates.
+ *
+ * An order is activated once it has at least one plate and every plate that
+ * is not disabled is `activated`. Disabled plates (refunds, cancellations)
+ * are ignored, so a partially refunded order can still be activated.
+ *
+ * Only writes when the value changes.
+ */
+export async function syncOrderActivation(
+  payload: Payload,
+  orderId: string | number,
+  req?: PayloadRequest,
+): Promise<void> {
+  const [live, notActivated] = await Promise.all([
+    payload.count({
+      collection: 'plates',
+      where: { and: [{ order: { equals: orderId } }, { status: { not_equals: 'disabled' } }] },
+      overrideAccess: true,
+      req,
+    }),
+    payload.count({
+      collection: 'plates',
+      where: {
+        and: [{ order: { equals: orderId } }, { status: { not_in: ['activated', 'disabled'] } }],
+      },
+      overrideAccess: true,
+      req,
+    }),
+  ])
+
+  const activated = live.totalDocs > 0 && notActivated.totalDocs === 0
+
+  const order = await payload.findByID({
+    collection: 'orders',
+    id: orderId,
+    depth: 0,
+    overrideAccess: true,
+    req,
+  })
+  if (!order || Boolean(order.activated) === activated) return
+
+  await payload.update({
+    collection: 'orders',
+    id: orderId,
+    data: { activated },
+    overrideAccess: true,
+    req,
+  })
+}
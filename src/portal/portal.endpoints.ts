@@ -0,0 +1,370 @@
+import crypto from 'crypto'
+import type { Endpoint } from 'payload'
+
+import { DEFAULT_DESTINATION_TYPE } from '../destinations/destinationTypes'
+import { buildMagicLinkEmailHtml, buildMagicLinkEmailSubject } from '../email/buildMagicLinkEmail'
+import { resolveAcceptLanguage, resolveLocale } from '../i18n/locales'
+import { isCustomer } from '../payload/access'
+import { createRateLimiter, type RateLimitResult } from '../rateLimit/createRateLimiter'
+import { getClientKey } from '../redirect/abuseDetection'
+import { escapeHtml } from '../utils/escapeHtml'
+import {
+  buildClearedSessionCookie,
+  buildSessionCookie,
+  createMagicLinkToken,
+  createSessionToken,
+  hashMagicLinkToken,
+} from './session'
+
+/**
+ * Customer self-service portal — endpoints mounted on `customers`.
+ *
+ * POST  /api/customers/magic-link            → send a login link
+ * GET   /api/customers/magic-link/verify     → confirmation page
+ * POST  /api/customers/magic-link/verify     → consume the link, set the session cookie
+ * POST  /api/customers/logout                → clear the session cookie
+ * GET   /api/customers/me/plates             → plates of the logged-in customer
+ * PATCH /api/customers/me/plates/:id         → change the destination of a plate (type, URL, Wi-Fi)
+ *
+ * Ownership is NOT checked here: plate/order access rules scope every query
+ * to the customer (`overrideAccess: false` + `user`).
+ */
+
+const MAGIC_LINK_TTL_MINUTES = 15
+
+/**
+ * Login link requests per client (salted IP hash, see `getClientKey`).
+ * Default: 10 per hour (`PORTAL_MAGIC_LINK_CLIENT_RATE_LIMIT`).
+ */
+const magicLinkClientLimiter = createRateLimiter({
+  name: 'magic-link-client',
+  limit: Number(process.env.PORTAL_MAGIC_LINK_CLIENT_RATE_LIMIT) || 10,
+  windowMs: 60 * 60 * 1000,
+})
+
+/**
+ * Login link requests per email, whether it is a customer or not (the answer stays the same).
+ * Default: 3 per link lifetime (`PORTAL_MAGIC_LINK_EMAIL_RATE_LIMIT`).
+ */
+const magicLinkEmailLimiter = createRateLimiter({
+  name: 'magic-link-email',
+  limit: Number(process.env.PORTAL_MAGIC_LINK_EMAIL_RATE_LIMIT) || 3,
+  windowMs: MAGIC_LINK_TTL_MINUTES * 60 * 1000,
+})
+
+function tooManyRequests(limit: RateLimitResult): Response {
+  return Response.json(
+    { error: 'Too many login link requests, try again later' },
+    { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } },
+  )
+}
+
+/**
+ * Destination fields exposed to and accepted from the portal.
+ */
+const DESTINATION_FIELDS = ['destinationType', 'googleReviewUrl', 'destinationUrl', 'wifi'] as const
+
+function pickDestination(plate: any) {
+  return {
+    destinationType: plate.destinationType ?? DEFAULT_DESTINATION_TYPE,
+    googleReviewUrl: plate.googleReviewUrl ?? null,
+    destinationUrl: plate.destinationUrl ?? null,
+    wifi: plate.wifi ?? null,
+  }
+}
+
+function getPublicBaseUrl(): string {
+  return (process.env.PUBLIC_APP_URL || '').replace(/\/$/, '')
+}
+
+function getPortalUrl(): string {
+  return process.env.PORTAL_URL || `${getPublicBaseUrl()}/portal`
+}
+
+function normalizeEmail(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase()
+}
+
+export const requestMagicLinkEndpoint: Endpoint = {
+  path: '/magic-link',
+  method: 'post',
+
+  handler: async (req) => {
+    /**
+     * The endpoint is public and sends emails: limited per client and per email,
+     * so it can neither flood an inbox nor probe addresses at volume.
+     */
+    const clientLimit = await magicLinkClientLimiter.consume(getClientKey(req))
+    if (!clientLimit.allowed) return tooManyRequests(clientLimit)
+
+    const body: any = await req.json?.().catch(() => null)
+    const email = normalizeEmail(body?.email)
+
+    /**
+     * The response is always the same, whether the email is known or not:
+     * the endpoint must not reveal who is a customer.
+     */
+    const accepted = Response.json({ ok: true }, { status: 202 })
+
+    if (!email || !email.includes('@')) return accepted
+
+    // Keyed on a hash: raw emails never reach the rate limit store
+    const emailKey = crypto.createHash('sha256').update(email, 'utf8').digest('hex').slice(0, 32)
+    const emailLimit = await magicLinkEmailLimiter.consume(emailKey)
+    if (!emailLimit.allowed) return tooManyRequests(emailLimit)
+
+    const orders = await req.payload.find({
+      collection: 'orders',
+      where: { customerEmail: { equals: email } },
+      sort: '-createdAt',
+      limit: 1,
+      depth: 0,
+      select: { customerLocale: true },
+      overrideAccess: true,
+    })
+    if (!orders.docs.length) return accepted
+
+    /**
+     * The email speaks the language of the customer's latest order;
+     * orders placed before locales were recorded fall back to the browser.
+     */
+    const latestLocale = (orders.docs[0] as any).customerLocale
+    const locale = latestLocale
+      ? resolveLocale(latestLocale)
+      : resolveAcceptLanguage(req.headers?.get?.('accept-language'))
+
+    const { token, tokenHash } = createMagicLinkToken()
+    const magicLinkExpiresAt = new Date(Date.now() + MAGIC_LINK_TTL_MINUTES * 60 * 1000).toISOString()
+
+    const existing = await req.payload.find({
+      collection: 'customers',
+      where: { email: { equals: email } },
+      limit: 1,
+      overrideAccess: true,
+    })
+
+    if (existing.docs[0]) {
+      await req.payload.update({
+        collection: 'customers',
+        id: existing.docs[0].id,
+        data: { magicLinkTokenHash: tokenHash, magicLinkExpiresAt },
+        overrideAccess: true,
+      })
+    } else {
+      await req.payload.create({
+        collection: 'customers',
+        data: { email, magicLinkTokenHash: tokenHash, magicLinkExpiresAt },
+        overrideAccess: true,
+      })
+    }
+
+    const loginUrl = `${getPublicBaseUrl()}/api/customers/magic-link/verify?token=${encodeURIComponent(token)}`
+
+    try {
+      await req.payload.sendEmail({
+        to: email,
+        subject: buildMagicLinkEmailSubject({ locale }),
+        html: buildMagicLinkEmailHtml({ loginUrl, expiresInMinutes: MAGIC_LINK_TTL_MINUTES, locale }),
+      })
+    } catch (e) {
+      req.payload.logger?.error?.(e, 'Magic link email failed')
+    }
+
+    return accepted
+  },
+}
+
+/**
+ * GET only renders a confirmation page: email security scanners follow links,
+ * and a GET that consumed the single-use token would lock customers out.
+ */
+export const verifyMagicLinkEndpoint: Endpoint = {
+  path: '/magic-link/verify',
+  method: 'get',
+
+  handler: async (req) => {
+    const token = String(req.searchParams?.get('token') ?? '')
+
+    const html = `<!doctype html>
+<html lang="fr">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <meta name="robots" content="noindex" />
+    <title>Connexion</title>
+  </head>
+  <body style="margin:0; background:#f6f7f9; font-family: Arial, sans-serif;">
+    <form method="post" action="?token=${escapeHtml(encodeURIComponent(token))}" style="max-width:420px; margin:15vh auto 0; padding:24px; background:#ffffff; border:1px solid #e9e9e9; border-radius:12px; text-align:center;">
+      <div style="font-size:18px; font-weight:700; color:#111827;">Accéder à mes plaques</div>
+      <button type="submit" style="margin-top:16px; padding:12px 18px; background:#0b57d0; color:#ffffff; border:0; border-radius:8px; font-size:14px; font-weight:700;">Se connecter</button>
+    </form>
+  </body>
+</html>`
+
+    return new Response(html, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+        'Referrer-Policy': 'no-referrer',
+      },
+    })
+  },
+}
+
+export const consumeMagicLinkEndpoint: Endpoint = {
+  path: '/magic-link/verify',
+  method: 'post',
+
+  handler: async (req) => {
+    const token = String(req.searchParams?.get('token') ?? '')
+    const invalid = new Response(null, {
+      status: 303,
+      headers: { Location: `${getPortalUrl()}?error=invalid-link`, 'Cache-Control': 'no-store' },
+    })
+
+    if (!token) return invalid
+
+    const found = await req.payload.find({
+      collection: 'customers',
+      where: {
+        and: [
+          { magicLinkTokenHash: { equals: hashMagicLinkToken(token) } },
+          { magicLinkExpiresAt: { greater_than: new Date().toISOString() } },
+        ],
+      },
+      limit: 1,
+      overrideAccess: true,
+    })
+
+    const customer = found.docs[0]
+    if (!customer) return invalid
+
+    // Single use: the token is cleared before the session is issued
+    await req.payload.update({
+      collection: 'customers',
+      id: customer.id,
+      data: {
+        magicLinkTokenHash: null,
+        magicLinkExpiresAt: null,
+        lastLoginAt: new Date().toISOString(),
+      },
+      overrideAccess: true,
+    })
+
+    return new Response(null, {
+      status: 303,
+      headers: {
+        Location: getPortalUrl(),
+        'Set-Cookie': buildSessionCookie(createSessionToken(customer.id)),
+        'Cache-Control': 'no-store',
+      },
+    })
+  },
+}
+
+export const logoutEndpoint: Endpoint = {
+  path: '/logout',
+  method: 'post',
+
+  handler: async () => {
+    return new Response(null, {
+      status: 204,
+      headers: { 'Set-Cookie': buildClearedSessionCookie() },
+    })
+  },
+}
+
+export const customerPlatesEndpoint: Endpoint = {
+  path: '/me/plates',
+  method: 'get',
+
+  handler: async (req) => {
+    if (!isCustomer(req)) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Access rules restrict orders to the customer's email
+    const orders = await req.payload.find({
+      collection: 'orders',
+      pagination: false,
+      depth: 0,
+      overrideAccess: false,
+      user: req.user,
+    })
+
+    const orderNumbers = new Map(orders.docs.map((o: any) => [String(o.id), o.orderNumber]))
+
+    const plates = orders.docs.length
+      ? await req.payload.find({
+          collection: 'plates',
+          where: { order: { in: orders.docs.map((o: any) => o.id) } },
+          pagination: false,
+          depth: 0,
+          overrideAccess: false,
+          user: req.user,
+        })
+      : { docs: [] as any[] }
+
+    return Response.json({
+      plates: plates.docs.map((p: any) => ({
+        id: p.id,
+        slug: p.slug,
+        publicUrl: `${getPublicBaseUrl()}/p/${p.slug}`,
+        orderNumber: orderNumbers.get(String(p.order)) ?? null,
+        ...pickDestination(p),
+        status: p.status,
+        scanCount: p.scanCount ?? 0,
+        lastScanAt: p.lastScanAt ?? null,
+      })),
+    })
+  },
+}
+
+export const updateCustomerPlateEndpoint: Endpoint = {
+  path: '/me/plates/:id',
+  method: 'patch',
+
+  handler: async (req) => {
+    if (!isCustomer(req)) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body: any = await req.json?.().catch(() => null)
+    const data = Object.fromEntries(
+      DESTINATION_FIELDS.filter((field) => body?.[field] !== undefined).map((field) => [field, body[field]]),
+    )
+    if (!Object.keys(data).length) {
+      return Response.json({ error: `One of ${DESTINATION_FIELDS.join(', ')} is required` }, { status: 400 })
+    }
+
+    try {
+      /**
+       * The plates update access rule only matches the customer's own plates,
+       * and the plates beforeValidate hooks validate / normalize the destination
+       * (merged with the stored one, so `{ destinationUrl }` alone is enough).
+       */
+      const plate = await req.payload.update({
+        collection: 'plates',
+        id: String(req.routeParams?.id ?? ''),
+        data,
+        depth: 0,
+        overrideAccess: false,
+        user: req.user,
+      })
+
+      return Response.json({ id: plate.id, slug: plate.slug, ...pickDestination(plate) })
+    } catch (err: any) {
+      const status = Number(err?.status) || 500
+      // Not found and forbidden look the same: do not reveal other customers' plates
+      if (status === 403 || status === 404) {
+        return Response.json({ error: 'Plate not found' }, { status: 404 })
+      }
+      if (status === 400 || status === 503) {
+        return Response.json({ error: err.message }, { status })
+      }
+      req.payload.logger?.error?.(err, 'Customer plate update failed')
+      return Response.json({ error: 'Update failed' }, { status: 500 })
+    }
+  },
+}
@@ -0,0 +1,37 @@
+import type { AuthStrategy } from 'payload'
+
+import { CUSTOMER_COLLECTION } from '../payload/access'
+import { PORTAL_SESSION_COOKIE, readCookie, verifySessionToken } from './session'
+
+/**
+ * Payload auth strategy for the customer portal.
+ *
+ * Reads the signed `portal-session` cookie set after a magic-link login,
+ * and resolves it to a `customers` document. The resulting `req.user`
+ * has `collection: 'customers'`, which access rules use to scope data
+ * to the customer's own orders and plates.
+ */
+export const portalSessionStrategy: AuthStrategy = {
+  name: 'portal-session',
+
+  authenticate: async ({ payload, headers }) => {
+    const customerId = verifySessionToken(readCookie(headers.get('cookie'), PORTAL_SESSION_COOKIE))
+    if (!customerId) return { user: null }
+
+    try {
+      const customer = await payload.findByID({
+        collection: CUSTOMER_COLLECTION,
+        id: customerId,
+        depth: 0,
+        overrideAccess: true,
+      })
+
+      return {
+        user: customer ? ({ ...customer, collection: CUSTOMER_COLLECTION } as any) : null,
+      }
+    } catch {
+      // Deleted customer → session revoked
+      return { user: null }
+    }
+  },
+}
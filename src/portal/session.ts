@@ -0,0 +1,100 @@
+import crypto from 'crypto'
+
+export const PORTAL_SESSION_COOKIE = 'portal-session'
+
+/**
+ * Portal sessions last 7 days; customers log in again through a new magic link.
+ */
+export const PORTAL_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+function getSecret(): string {
+  const secret = process.env.PORTAL_SESSION_SECRET || process.env.PAYLOAD_SECRET
+  if (!secret) {
+    throw new Error('PORTAL_SESSION_SECRET missing')
+  }
+  return secret
+}
+
+function sign(value: string): string {
+  return crypto.createHmac('sha256', getSecret()).update(value, 'utf8').digest('base64url')
+}
+
+/**
+ * Creates a stateless, signed session token: `base64url(json).signature`.
+ *
+ * The token only carries the customer id and an expiry. The customer is
+ * re-loaded from the database on every request, so deleting the customer
+ * revokes the session.
+ */
+export function createSessionToken(customerId: string | number, now = Date.now()): string {
+  const body = Buffer.from(
+    JSON.stringify({ cid: String(customerId), exp: now + PORTAL_SESSION_TTL_MS }),
+  ).toString('base64url')
+
+  return `${body}.${sign(body)}`
+}
+
+/**
+ * Verifies a session token (timing-safe) and returns the customer id,
+ * or null if the token is malformed, forged or expired.
+ */
+export function verifySessionToken(token: string | null | undefined, now = Date.now()): string | null {
+  if (!token) return null
+
+  const [body, signature] = token.split('.')
+  if (!body || !signature) return null
+
+  const a = Buffer.from(sign(body))
+  const b = Buffer.from(signature)
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) return null
+
+  try {
+    const parsed = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'))
+    if (!parsed?.cid || typeof parsed.exp !== 'number' || parsed.exp < now) return null
+    return String(parsed.cid)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reads a cookie value from a raw `Cookie` header.
+ */
+export function readCookie(cookieHeader: string | null | undefined, name: string): string | null {
+  if (!cookieHeader) return null
+
+  for (const part of cookieHeader.split(';')) {
+    const [k, ...rest] = part.trim().split('=')
+    if (k === name) return decodeURIComponent(rest.join('='))
+  }
+
+  return null
+}
+
+export function buildSessionCookie(token: string): string {
+  return [
+    `${PORTAL_SESSION_COOKIE}=${encodeURIComponent(token)}`,
+    'Path=/',
+    'HttpOnly',
+    'Secure',
+    'SameSite=Lax',
+    `Max-Age=${Math.floor(PORTAL_SESSION_TTL_MS / 1000)}`,
+  ].join('; ')
+}
+
+export function buildClearedSessionCookie(): string {
+  return `${PORTAL_SESSION_COOKIE}=; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=0`
+}
+
+/**
+ * Magic-link tokens are random and single use. Only their SHA-256 hash is
+ * stored, so a database leak does not give access to pending links.
+ */
+export function createMagicLinkToken(): { token: string; tokenHash: string } {
+  const token = crypto.randomBytes(32).toString('base64url')
+  return { token, tokenHash: hashMagicLinkToken(token) }
+}
+
+export function hashMagicLinkToken(token: string): string {
+  return crypto.createHash('sha256').update(token, 'utf8').digest('hex')
+}
@@ -0,0 +1,388 @@
+/**
+ * Minimal QR code encoder (ISO/IEC 18004), with no external dependency.
+ *
+ * Scope is deliberately narrow — it only needs to encode plate URLs:
+ * - byte mode (UTF-8)
+ * - error correction level M (~15% damage tolerance)
+ * - versions 1 to 10 (up to 213 bytes)
+ *
+ * Returns a matrix of modules (`true` = dark), without quiet zone.
+ */
+
+export type QrMatrix = {
+  size: number
+  modules: boolean[][]
+}
+
+/**
+ * Error correction layout for level M:
+ * EC codewords per block, and groups of [blockCount, dataCodewordsPerBlock].
+ */
+const VERSIONS_M: Record<number, { ecPerBlock: number; groups: Array<[number, number]> }> = {
+  1: { ecPerBlock: 10, groups: [[1, 16]] },
+  2: { ecPerBlock: 16, groups: [[1, 28]] },
+  3: { ecPerBlock: 26, groups: [[1, 44]] },
+  4: { ecPerBlock: 18, groups: [[2, 32]] },
+  5: { ecPerBlock: 24, groups: [[2, 43]] },
+  6: { ecPerBlock: 16, groups: [[4, 27]] },
+  7: { ecPerBlock: 18, groups: [[4, 31]] },
+  8: { ecPerBlock: 22, groups: [[2, 38], [2, 39]] },
+  9: { ecPerBlock: 22, groups: [[3, 36], [2, 37]] },
+  10: { ecPerBlock: 26, groups: [[4, 43], [1, 44]] },
+}
+
+const ALIGNMENT_POSITIONS: Record<number, number[]> = {
+  1: [],
+  2: [6, 18],
+  3: [6, 22],
+  4: [6, 26],
+  5: [6, 30],
+  6: [6, 34],
+  7: [6, 22, 38],
+  8: [6, 24, 42],
+  9: [6, 26, 46],
+  10: [6, 28, 50],
+}
+
+const MAX_VERSION = 10
+
+/** Format bits for level M (L=1, M=0, Q=3, H=2). */
+const ECC_FORMAT_BITS_M = 0
+
+function dataCapacity(version: number): number {
+  return VERSIONS_M[version].groups.reduce((sum, [count, size]) => sum + count * size, 0)
+}
+
+/* ------------------------------------------------------------------ */
+/* Reed-Solomon over GF(256), polynomial 0x11D                          */
+/* ------------------------------------------------------------------ */
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+function rsDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+
+  return result
+}
+
+function rsRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0)
+  for (const b of data) {
+    const factor = b ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor)
+    })
+  }
+  return result
+}
+
+/* ------------------------------------------------------------------ */
+/* Data codewords                                                      */
+/* ------------------------------------------------------------------ */
+
+function buildCodewords(bytes: Uint8Array, version: number): number[] {
+  const capacityBits = dataCapacity(version) * 8
+  const bits: number[] = []
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  push(0b0100, 4) // byte mode
+  push(bytes.length, version <= 9 ? 8 : 16)
+  for (const b of bytes) push(b, 8)
+
+  // Terminator, then pad to a byte boundary
+  push(0, Math.min(4, capacityBits - bits.length))
+  push(0, (8 - (bits.length % 8)) % 8)
+
+  const data: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0))
+  }
+
+  // Pad bytes alternate 0xEC / 0x11
+  for (let pad = 0xec; data.length < capacityBits / 8; pad ^= 0xec ^ 0x11) {
+    data.push(pad)
+  }
+
+  // Split into blocks, compute EC, interleave
+  const { ecPerBlock, groups } = VERSIONS_M[version]
+  const divisor = rsDivisor(ecPerBlock)
+  const dataBlocks: number[][] = []
+  const ecBlocks: number[][] = []
+
+  let offset = 0
+  for (const [count, size] of groups) {
+    for (let b = 0; b < count; b++) {
+      const block = data.slice(offset, offset + size)
+      offset += size
+      dataBlocks.push(block)
+      ecBlocks.push(rsRemainder(block, divisor))
+    }
+  }
+
+  const result: number[] = []
+  const maxDataLength = Math.max(...dataBlocks.map((b) => b.length))
+  for (let i = 0; i < maxDataLength; i++) {
+    for (const block of dataBlocks) if (i < block.length) result.push(block[i])
+  }
+  for (let i = 0; i < ecPerBlock; i++) {
+    for (const block of ecBlocks) result.push(block[i])
+  }
+
+  return result
+}
+
+/* ------------------------------------------------------------------ */
+/* Matrix                                                              */
+/* ------------------------------------------------------------------ */
+
+class Matrix {
+  readonly modules: boolean[][]
+  readonly isFunction: boolean[][]
+
+  constructor(readonly size: number) {
+    this.modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+    this.isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+  }
+
+  setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark
+    this.isFunction[y][x] = true
+  }
+}
+
+function getBit(value: number, i: number): boolean {
+  return ((value >>> i) & 1) !== 0
+}
+
+function drawFunctionPatterns(m: Matrix, version: number) {
+  const { size } = m
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    m.setFunction(6, i, i % 2 === 0)
+    m.setFunction(i, 6, i % 2 === 0)
+  }
+
+  // Finder patterns, with their separators
+  for (const [cx, cy] of [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx
+        const y = cy + dy
+        if (x < 0 || x >= size || y < 0 || y >= size) continue
+        const dist = Math.max(Math.abs(dx), Math.abs(dy))
+        m.setFunction(x, y, dist !== 2 && dist !== 4)
+      }
+    }
+  }
+
+  // Alignment patterns (skipping the three finder corners)
+  const positions = ALIGNMENT_POSITIONS[version]
+  const last = positions.length - 1
+  positions.forEach((cx, i) => {
+    positions.forEach((cy, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          m.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+        }
+      }
+    })
+  })
+
+  // Reserve the format areas (real bits are drawn once the mask is chosen)
+  drawFormatBits(m, 0)
+
+  // Version information (version 7+)
+  if (version >= 7) {
+    let rem = version
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25)
+    const bits = (version << 12) | rem
+
+    for (let i = 0; i < 18; i++) {
+      const bit = getBit(bits, i)
+      const a = size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      m.setFunction(a, b, bit)
+      m.setFunction(b, a, bit)
+    }
+  }
+}
+
+function drawFormatBits(m: Matrix, mask: number) {
+  const { size } = m
+
+  const data = (ECC_FORMAT_BITS_M << 3) | mask
+  let rem = data
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537)
+  const bits = ((data << 10) | rem) ^ 0x5412
+
+  // Around the top-left finder
+  for (let i = 0; i <= 5; i++) m.setFunction(8, i, getBit(bits, i))
+  m.setFunction(8, 7, getBit(bits, 6))
+  m.setFunction(8, 8, getBit(bits, 7))
+  m.setFunction(7, 8, getBit(bits, 8))
+  for (let i = 9; i < 15; i++) m.setFunction(14 - i, 8, getBit(bits, i))
+
+  // Split between the two other finders
+  for (let i = 0; i < 8; i++) m.setFunction(size - 1 - i, 8, getBit(bits, i))
+  for (let i = 8; i < 15; i++) m.setFunction(8, size - 15 + i, getBit(bits, i))
+  m.setFunction(8, size - 8, true) // always-dark module
+}
+
+function drawCodewords(m: Matrix, codewords: number[]) {
+  const { size } = m
+  const totalBits = codewords.length * 8
+  let i = 0
+
+  // Two-module-wide columns, right to left, zigzagging up and down
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5 // skip the vertical timing pattern
+    const upward = ((right + 1) & 2) === 0
+
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j
+        const y = upward ? size - 1 - vert : vert
+        if (m.isFunction[y][x] || i >= totalBits) continue
+        m.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7))
+        i++
+      }
+    }
+  }
+}
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+]
+
+function applyMask(m: Matrix, mask: number) {
+  const fn = MASKS[mask]
+  for (let y = 0; y < m.size; y++) {
+    for (let x = 0; x < m.size; x++) {
+      if (!m.isFunction[y][x] && fn(x, y)) m.modules[y][x] = !m.modules[y][x]
+    }
+  }
+}
+
+/**
+ * Penalty score used to pick the mask (lower is easier to scan).
+ */
+function penalty(m: Matrix): number {
+  const { size, modules } = m
+  let score = 0
+
+  const lines: boolean[][] = []
+  for (let i = 0; i < size; i++) {
+    lines.push(modules[i])
+    lines.push(modules.map((row) => row[i]))
+  }
+
+  const finderLike = [true, false, true, true, true, false, true]
+
+  for (const line of lines) {
+    // Rule 1: runs of 5+ same-colored modules
+    let run = 1
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++
+        continue
+      }
+      if (run >= 5) score += 3 + (run - 5)
+      run = 1
+    }
+
+    // Rule 3: finder-like patterns with 4 light modules on either side
+    for (let i = 0; i + 7 <= size; i++) {
+      if (!finderLike.every((v, k) => line[i + k] === v)) continue
+      const lightBefore = i >= 4 && [1, 2, 3, 4].every((k) => !line[i - k])
+      const lightAfter = i + 11 <= size && [0, 1, 2, 3].every((k) => !line[i + 7 + k])
+      if (lightBefore || lightAfter) score += 40
+    }
+  }
+
+  // Rule 2: 2×2 blocks of the same color
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const c = modules[y][x]
+      if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) {
+        score += 3
+      }
+    }
+  }
+
+  // Rule 4: balance of dark and light modules
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0)
+  const total = size * size
+  const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1
+  score += Math.max(0, k) * 10
+
+  return score
+}
+
+export function encodeQrCode(text: string): QrMatrix {
+  const bytes = new TextEncoder().encode(text)
+
+  let version = 1
+  while (version <= MAX_VERSION) {
+    const headerBits = 4 + (version <= 9 ? 8 : 16)
+    if (headerBits + bytes.length * 8 <= dataCapacity(version) * 8) break
+    version++
+  }
+  if (version > MAX_VERSION) {
+    throw new Error(`QR code: text too long (${bytes.length} bytes)`)
+  }
+
+  const m = new Matrix(version * 4 + 17)
+  drawFunctionPatterns(m, version)
+  drawCodewords(m, buildCodewords(bytes, version))
+
+  let bestMask = 0
+  let bestScore = Infinity
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(m, mask)
+    drawFormatBits(m, mask)
+    const score = penalty(m)
+    if (score < bestScore) {
+      bestScore = score
+      bestMask = mask
+    }
+    applyMask(m, mask) // XOR again to undo
+  }
+
+  applyMask(m, bestMask)
+  drawFormatBits(m, bestMask)
+
+  return { size: m.size, modules: m.modules }
+}
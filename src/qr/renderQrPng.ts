@@ -0,0 +1,60 @@
+import zlib from 'zlib'
+
+import { crc32 } from '../utils/crc32'
+import type { QrMatrix } from './encodeQrCode'
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data])
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(typeAndData))
+
+  return Buffer.concat([length, typeAndData, crc])
+}
+
+/**
+ * Renders a QR matrix as an 8-bit grayscale PNG.
+ *
+ * - scale:  pixels per module
+ * - margin: quiet zone, in modules (the spec asks for 4)
+ */
+export function renderQrPng(qr: QrMatrix, opts: { scale?: number; margin?: number } = {}): Buffer {
+  const scale = opts.scale ?? 6
+  const margin = opts.margin ?? 4
+  const width = (qr.size + margin * 2) * scale
+
+  // Each scanline starts with its filter type (0 = none)
+  const raw = Buffer.alloc((width + 1) * width, 0xff)
+  for (let py = 0; py < width; py++) {
+    const rowStart = py * (width + 1)
+    raw[rowStart] = 0
+
+    const y = Math.floor(py / scale) - margin
+    if (y < 0 || y >= qr.size) continue
+
+    for (let px = 0; px < width; px++) {
+      const x = Math.floor(px / scale) - margin
+      if (x >= 0 && x < qr.size && qr.modules[y][x]) raw[rowStart + 1 + px] = 0x00
+    }
+  }
+
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(width, 4)
+  header[8] = 8 // bit depth
+  header[9] = 0 // grayscale
+  header[10] = 0 // deflate
+  header[11] = 0 // adaptive filtering
+  header[12] = 0 // no interlace
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ])
+}
@@ -0,0 +1,36 @@
+import { getRateLimitStore } from './rateLimitStore'
+
+export type RateLimitResult = {
+  allowed: boolean
+  /** Hits in the current window, this one included. */
+  count: number
+  limit: number
+  resetAt: number
+  /** Seconds until the window resets (for `Retry-After`). */
+  retryAfterSeconds: number
+}
+
+/**
+ * Fixed-window limiter: at most `limit` hits per key every `windowMs`.
+ *
+ * `name` namespaces the keys, so several limiters can share one store.
+ * The store is resolved on every call: `setRateLimitStore` applies to
+ * limiters created before it.
+ */
+export function createRateLimiter(opts: { name: string; limit: number; windowMs: number }) {
+  return {
+    limit: opts.limit,
+    windowMs: opts.windowMs,
+
+    async consume(key: string): Promise<RateLimitResult> {
+      const { count, resetAt } = await getRateLimitStore().increment(`${opts.name}:${key}`, opts.windowMs)
+      return {
+        allowed: count <= opts.limit,
+        count,
+        limit: opts.limit,
+        resetAt,
+        retryAfterSeconds: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)),
+      }
+    },
+  }
+}
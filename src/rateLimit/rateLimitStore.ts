@@ -0,0 +1,58 @@
+/**
+ * Counter storage behind the rate limiters.
+ *
+ * The default store lives in process memory: limits are per instance and
+ * reset on restart. With several instances, swap it at boot for a shared one
+ * (e.g. Redis `INCR` + `PEXPIRE`) with `setRateLimitStore`.
+ */
+export interface RateLimitStore {
+  /**
+   * Increments the counter of `key` in its current fixed window
+   * (a new window starts `windowMs` after the first hit) and returns it.
+   */
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>
+}
+
+/**
+ * Above this many keys, expired windows are swept on the next increment,
+ * so a scan from many IPs cannot grow the map forever.
+ */
+const SWEEP_THRESHOLD = 10_000
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly windows = new Map<string, { count: number; resetAt: number }>()
+
+  async increment(key: string, windowMs: number) {
+    const now = Date.now()
+    if (this.windows.size > SWEEP_THRESHOLD) this.sweep(now)
+
+    const current = this.windows.get(key)
+    if (!current || current.resetAt <= now) {
+      const fresh = { count: 1, resetAt: now + windowMs }
+      this.windows.set(key, fresh)
+      return { ...fresh }
+    }
+
+    current.count++
+    return { ...current }
+  }
+
+  private sweep(now: number) {
+    for (const [key, value] of this.windows) {
+      if (value.resetAt <= now) this.windows.delete(key)
+    }
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore()
+
+export function getRateLimitStore(): RateLimitStore {
+  return store
+}
+
+/**
+ * Replaces the store used by every rate limiter (call once at boot).
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next
+}
@@ -0,0 +1,132 @@
+import type { Payload } from 'payload'
+
+import { createRateLimiter, type RateLimitResult } from '../rateLimit/createRateLimiter'
+import { classifyUserAgent } from '../utils/classifyUserAgent'
+import { getClientIp } from '../utils/getClientIp'
+import { getShopifyHeader } from '../utils/getShopifyHeader'
+import { hashIp } from '../utils/hashIp'
+
+const MINUTE_MS = 60 * 1000
+
+/**
+ * Taps per client on `/p/:slug`.
+ * Default: 60 per minute (`PLATE_REDIRECT_RATE_LIMIT`), far above a real visitor.
+ */
+const redirectLimiter = createRateLimiter({
+  name: 'plate-redirect',
+  limit: Number(process.env.PLATE_REDIRECT_RATE_LIMIT) || 60,
+  windowMs: MINUTE_MS,
+})
+
+/**
+ * Unknown or invalid slugs per client before it is reported as scanning.
+ * Default: 20 within 10 minutes (`PLATE_SLUG_SCAN_THRESHOLD`).
+ */
+const slugMissCounter = createRateLimiter({
+  name: 'plate-slug-miss',
+  limit: Number(process.env.PLATE_SLUG_SCAN_THRESHOLD) || 20,
+  windowMs: 10 * MINUTE_MS,
+})
+
+/**
+ * Requests without a client IP all share one bucket, with stricter limits:
+ * dropping the header must not give unlimited taps or slug guesses.
+ * Behind a correctly configured proxy, real visitors always have an IP.
+ */
+const UNKNOWN_CLIENT_KEY = 'unknown-client'
+
+const unknownClientRedirectLimiter = createRateLimiter({
+  name: 'plate-redirect',
+  limit: Number(process.env.PLATE_REDIRECT_UNKNOWN_CLIENT_RATE_LIMIT) || 30,
+  windowMs: MINUTE_MS,
+})
+
+const unknownClientSlugMissCounter = createRateLimiter({
+  name: 'plate-slug-miss',
+  limit: 5,
+  windowMs: 10 * MINUTE_MS,
+})
+
+/**
+ * Rate limit key of a request: the salted IP hash (raw IPs never reach the store),
+ * or `UNKNOWN_CLIENT_KEY` when the client IP is unknown (see `getClientIp`).
+ */
+export function getClientKey(req: any): string {
+  try {
+    return hashIp(getClientIp(req)) ?? UNKNOWN_CLIENT_KEY
+  } catch {
+    return UNKNOWN_CLIENT_KEY
+  }
+}
+
+async function recordAbuseEvent(
+  payload: Payload,
+  req: any,
+  data: { kind: 'slug_scanning' | 'rate_limited'; clientKey: string; count: number; windowMs: number; slug: string },
+) {
+  try {
+    await payload.create({
+      collection: 'abuse-events',
+      data: {
+        kind: data.kind,
+        detectedAt: new Date().toISOString(),
+        ipHash: data.clientKey === UNKNOWN_CLIENT_KEY ? null : data.clientKey,
+        route: '/p/:slug',
+        count: data.count,
+        windowMs: data.windowMs,
+        lastSlug: data.slug.slice(0, 64),
+        userAgentClass: classifyUserAgent(getShopifyHeader(req, 'user-agent')),
+      },
+      overrideAccess: true,
+    })
+  } catch (e) {
+    // Observability only — never affects the response
+    payload.logger?.error?.(e, 'Failed to record abuse event')
+  }
+}
+
+/**
+ * Counts one hit of the client. The first hit over the limit in a window
+ * is recorded as a `rate_limited` abuse event.
+ */
+export async function consumeRedirectRateLimit(
+  payload: Payload,
+  req: any,
+  clientKey: string,
+  slug: string,
+): Promise<RateLimitResult> {
+  const limiter = clientKey === UNKNOWN_CLIENT_KEY ? unknownClientRedirectLimiter : redirectLimiter
+  const result = await limiter.consume(clientKey)
+
+  if (result.count === result.limit + 1) {
+    await recordAbuseEvent(payload, req, {
+      kind: 'rate_limited',
+      clientKey,
+      count: result.count,
+      windowMs: limiter.windowMs,
+      slug,
+    })
+  }
+
+  return result
+}
+
+/**
+ * Counts one unknown / invalid slug of the client. Reaching the threshold
+ * is recorded as a `slug_scanning` abuse event (once per window).
+ */
+export async function recordSlugMiss(payload: Payload, req: any, clientKey: string, slug: string): Promise<void> {
+  const counter = clientKey === UNKNOWN_CLIENT_KEY ? unknownClientSlugMissCounter : slugMissCounter
+  const result = await counter.consume(clientKey)
+
+  if (result.count === result.limit) {
+    payload.logger?.warn?.(`Possible slug scanning on /p/:slug from client ${clientKey}`)
+    await recordAbuseEvent(payload, req, {
+      kind: 'slug_scanning',
+      clientKey,
+      count: result.count,
+      windowMs: counter.windowMs,
+      slug,
+    })
+  }
+}
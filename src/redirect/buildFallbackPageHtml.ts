@@ -0,0 +1,59 @@
+import { escapeHtml } from '../utils/escapeHtml'
+
+/**
+ * Fallback reasons shown when a plate cannot redirect to its destination.
+ *
+ * - pending:  the plate exists but has not been activated yet
+ * - unknown:  no plate matches the slug (typo, fake URL, deleted plate)
+ * - disabled: the plate exists but must no longer redirect
+ * - rate-limited: too many requests from the same client
+ */
+export type FallbackKind = 'pending' | 'unknown' | 'disabled' | 'rate-limited'
+
+const COPY: Record<FallbackKind, { title: string; message: string }> = {
+  pending: {
+    title: 'Plaque en cours d’activation',
+    message:
+      'Cette plaque NFC a bien été reconnue mais n’est pas encore activée. Elle sera disponible très prochainement.',
+  },
+  unknown: {
+    title: 'Plaque introuvable',
+    message:
+      'Ce lien ne correspond à aucune plaque NFC. Vérifiez l’adresse ou contactez le support si le problème persiste.',
+  },
+  disabled: {
+    title: 'Plaque désactivée',
+    message:
+      'Cette plaque NFC n’est plus active. Si vous pensez qu’il s’agit d’une erreur, contactez le support.',
+  },
+  'rate-limited': {
+    title: 'Trop de requêtes',
+    message: 'Merci de patienter une minute avant de scanner à nouveau la plaque.',
+  },
+}
+
+/**
+ * Builds the minimal HTML page displayed by `/p/:slug` when no redirect happens.
+ *
+ * The page is fully self-contained (inline styles, no external assets)
+ * so it renders instantly on a phone right after an NFC tap.
+ */
+export function buildFallbackPageHtml(kind: FallbackKind): string {
+  const { title, message } = COPY[kind]
+
+  return `<!doctype html>
+<html lang="fr">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <meta name="robots" content="noindex" />
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="margin:0; background:#f6f7f9; font-family: Arial, sans-serif;">
+    <div style="max-width:420px; margin:15vh auto 0; padding:24px; background:#ffffff; border:1px solid #e9e9e9; border-radius:12px; text-align:center;">
+      <div style="font-size:18px; font-weight:700; color:#111827;">${escapeHtml(title)}</div>
+      <p style="margin:12px 0 0; font-size:14px; line-height:1.5; color:#444;">${escapeHtml(message)}</p>
+    </div>
+  </body>
+</html>`
+}
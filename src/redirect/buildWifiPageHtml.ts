@@ -0,0 +1,126 @@
+import type { WifiConfig } from '../destinations/normalizeDestination'
+import type { Locale } from '../i18n/locales'
+import { encodeQrCode } from '../qr/encodeQrCode'
+import { renderQrPng } from '../qr/renderQrPng'
+import { escapeHtml } from '../utils/escapeHtml'
+
+const COPY: Record<
+  Locale,
+  {
+    title: string
+    network: string
+    password: string
+    openNetwork: string
+    copy: string
+    copied: string
+    steps: string
+    qr: string
+  }
+> = {
+  fr: {
+    title: 'Connexion au Wi-Fi',
+    network: 'Réseau',
+    password: 'Mot de passe',
+    openNetwork: 'Réseau ouvert, aucun mot de passe',
+    copy: 'Copier le mot de passe',
+    copied: 'Mot de passe copié',
+    steps: 'Ouvrez les réglages Wi-Fi de votre téléphone, choisissez ce réseau et collez le mot de passe.',
+    qr: 'Pour connecter un autre appareil, scannez ce QR code avec son appareil photo.',
+  },
+  en: {
+    title: 'Join the Wi-Fi',
+    network: 'Network',
+    password: 'Password',
+    openNetwork: 'Open network, no password',
+    copy: 'Copy password',
+    copied: 'Password copied',
+    steps: 'Open the Wi-Fi settings of your phone, pick this network and paste the password.',
+    qr: 'To connect another device, scan this QR code with its camera.',
+  },
+  de: {
+    title: 'Mit dem WLAN verbinden',
+    network: 'Netzwerk',
+    password: 'Passwort',
+    openNetwork: 'Offenes Netzwerk, kein Passwort',
+    copy: 'Passwort kopieren',
+    copied: 'Passwort kopiert',
+    steps:
+      'Öffnen Sie die WLAN-Einstellungen Ihres Smartphones, wählen Sie dieses Netzwerk und fügen Sie das Passwort ein.',
+    qr: 'Um ein weiteres Gerät zu verbinden, scannen Sie diesen QR-Code mit dessen Kamera.',
+  },
+}
+
+/**
+ * Escapes a value of a `WIFI:` payload (backslash before `\ ; , : "`).
+ */
+function escapeWifiValue(value: string): string {
+  return value.replace(/([\\;,:"])/g, '\\$1')
+}
+
+/**
+ * Wi-Fi network configuration in the de facto `WIFI:` format understood by
+ * iOS and Android cameras: `WIFI:T:WPA;S:<ssid>;P:<password>;H:true;;`
+ */
+export function buildWifiQrPayload(wifi: WifiConfig): string {
+  const parts = [`T:${wifi.security}`, `S:${escapeWifiValue(wifi.ssid)}`]
+  if (wifi.security !== 'nopass' && wifi.password) parts.push(`P:${escapeWifiValue(wifi.password)}`)
+  if (wifi.hidden) parts.push('H:true')
+  return `WIFI:${parts.join(';')};;`
+}
+
+/**
+ * Join page of a Wi-Fi plate, served by `/p/:slug` instead of a redirect.
+ *
+ * Web pages cannot join a network themselves: the page shows the network
+ * name and password (with a copy button), plus a `WIFI:` QR code so guests
+ * can connect other devices. Self-contained like the fallback pages.
+ */
+export function buildWifiPageHtml(wifi: WifiConfig, locale: Locale): string {
+  const t = COPY[locale]
+
+  let qrImage = ''
+  try {
+    const png = renderQrPng(encodeQrCode(buildWifiQrPayload(wifi)), { scale: 5 })
+    qrImage = `
+      <img src="data:image/png;base64,${png.toString('base64')}" alt="" width="180" style="display:block; margin:16px auto 8px; width:180px; height:auto;" />
+      <p style="margin:0; font-size:12px; line-height:1.5; color:#666;">${escapeHtml(t.qr)}</p>`
+  } catch {
+    // Too long for the QR encoder: the credentials are still shown
+  }
+
+  const password =
+    wifi.security === 'nopass' || !wifi.password
+      ? `<p style="margin:12px 0 0; font-size:14px; color:#444;">${escapeHtml(t.openNetwork)}</p>`
+      : `
+      <div style="margin-top:14px; font-size:12px; color:#666;">${escapeHtml(t.password)}</div>
+      <div id="password" style="margin-top:4px; font-size:18px; font-family: monospace; color:#111827; word-break:break-all; user-select:all;">${escapeHtml(wifi.password)}</div>
+      <button type="button" id="copy" data-copied="${escapeHtml(t.copied)}" style="margin-top:12px; padding:10px 16px; border:0; border-radius:8px; background:#0b57d0; color:#ffffff; font-size:14px; font-weight:700;">${escapeHtml(t.copy)}</button>
+      <script>
+        document.getElementById('copy').addEventListener('click', function () {
+          var button = this
+          navigator.clipboard.writeText(document.getElementById('password').textContent).then(function () {
+            button.textContent = button.getAttribute('data-copied')
+          })
+        })
+      </script>`
+
+  return `<!doctype html>
+<html lang="${locale}">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <meta name="robots" content="noindex" />
+    <title>${escapeHtml(t.title)}</title>
+  </head>
+  <body style="margin:0; background:#f6f7f9; font-family: Arial, sans-serif;">
+    <div style="max-width:420px; margin:10vh auto 0; padding:24px; background:#ffffff; border:1px solid #e9e9e9; border-radius:12px; text-align:center;">
+      <div style="font-size:18px; font-weight:700; color:#111827;">${escapeHtml(t.title)}</div>
+      <div style="margin-top:16px; font-size:12px; color:#666;">${escapeHtml(t.network)}</div>
+      <div style="margin-top:4px; font-size:18px; font-weight:700; color:#111827; word-break:break-all;">${escapeHtml(wifi.ssid)}</div>
+      ${password}
+      <p style="margin:16px 0 0; font-size:14px; line-height:1.5; color:#444;">${escapeHtml(t.steps)}</p>
+      ${qrImage}
+    </div>
+  </body>
+</html>`
+}
@@ -0,0 +1,261 @@
+import type { Endpoint, Payload } from 'payload'
+
+import { recordPlateScan } from '../analytics/recordPlateScan'
+import { selectPlateDestination } from '../destinations/destinationRules'
+import { readPlateDestination } from '../destinations/plateDestination'
+import { resolveAcceptLanguage } from '../i18n/locales'
+import { toPlateStatus } from '../plates/lifecycle'
+import { isPlausiblePlateSlug, normalizeSlug } from '../plates/slug'
+import { consumeRedirectRateLimit, getClientKey, recordSlugMiss } from './abuseDetection'
+import { buildFallbackPageHtml, type FallbackKind } from './buildFallbackPageHtml'
+import { buildWifiPageHtml } from './buildWifiPageHtml'
+
+/**
+ * Public plate redirect — GET /p/:slug
+ *
+ * This is the URL encoded in every physical NFC plate.
+ *
+ * IMPORTANT CONSTRAINTS:
+ * - The slug is printed/encoded once and can never change on the tag.
+ * - The destination CAN change at any time (support fix, new business), even its type.
+ * - This route is public and unauthenticated.
+ * - It is the ONLY public access to plates: the `plates` collection itself is
+ *   not publicly readable, and only the fields needed here are loaded.
+ * - URL destinations (Google review, TripAdvisor, menu...) are redirected to;
+ *   Wi-Fi plates get a join page (see `buildWifiPageHtml`).
+ * - Destination rules (time windows, days, A/B splits) are evaluated on every
+ *   tap, in the plate's timezone (see `selectPlateDestination`).
+ * - A replaced plate set to forward serves its replacement's destination
+ *   (see `replacePlate`), even before the replacement tag is activated.
+ * - Every tap on a known plate is recorded in `plate-scans` (best effort).
+ * - Requests are rate limited per client, and clients hitting many unknown
+ *   slugs are reported in `abuse-events` (see `abuseDetection.ts`).
+ *
+ * CACHING:
+ * - Responses are never cached by shared caches (CDN) nor by the browser.
+ * - Otherwise, a destination change or an activation would stay invisible
+ *   until the cached 302 expires, and a tag would keep opening the old URL.
+ */
+
+const NO_CACHE_HEADERS = {
+  'Cache-Control': 'no-store, no-cache, must-revalidate, max-age=0',
+  'CDN-Cache-Control': 'no-store',
+  'X-Robots-Tag': 'noindex',
+}
+
+function fallback(kind: FallbackKind, status: number, headers: Record<string, string> = {}) {
+  return new Response(buildFallbackPageHtml(kind), {
+    status,
+    headers: {
+      ...NO_CACHE_HEADERS,
+      ...headers,
+      'Content-Type': 'text/html; charset=utf-8',
+    },
+  })
+}
+
+/**
+ * Fields loaded for the redirect: never the whole plate.
+ */
+const REDIRECT_SELECT = {
+  slug: true,
+  status: true,
+  destinationType: true,
+  googleReviewUrl: true,
+  destinationUrl: true,
+  wifi: true,
+  timeZone: true,
+  destinationRules: true,
+  replacedBy: true,
+  forwardToReplacement: true,
+  order: true,
+  shop: true,
+} as const
+
+/**
+ * A replacement can itself be replaced (and forward): chains are followed this far.
+ */
+const MAX_FORWARD_HOPS = 5
+
+/**
+ * Plate whose destination a replaced plate serves: its replacement, or the
+ * first live plate down the replacement chain. Null when forwarding is off or
+ * the chain ends on a plate that no longer serves (refunded, gone).
+ *
+ * The replacement is served directly rather than through `/p/:replacementSlug`:
+ * a pending replacement would show the "not activated" page, and a tap on the
+ * old tag must not activate the new one.
+ */
+async function findForwardTarget(payload: Payload, plate: any): Promise<any | null> {
+  let current = plate
+
+  for (let hop = 0; hop < MAX_FORWARD_HOPS; hop++) {
+    if (!current.forwardToReplacement || !current.replacedBy) return null
+
+    try {
+      current = await payload.findByID({
+        collection: 'plates',
+        id: String(current.replacedBy),
+        select: REDIRECT_SELECT,
+        depth: 0,
+        overrideAccess: true,
+      })
+    } catch {
+      return null
+    }
+    if (!current) return null
+
+    const status = toPlateStatus(current.status)
+    if (status && status !== 'disabled') return current
+  }
+
+  return null
+}
+
+export const plateRedirectEndpoint: Endpoint = {
+  path: '/p/:slug',
+  method: 'get',
+
+  handler: async (req) => {
+    const slug = normalizeSlug(String(req.routeParams?.slug ?? ''))
+    const clientKey = getClientKey(req)
+
+    /**
+     * Rate limit first, so a flood never reaches the database.
+     * A failing limiter store must not take the redirect down: the tap goes through.
+     */
+    try {
+      const limit = await consumeRedirectRateLimit(req.payload, req, clientKey, slug)
+      if (!limit.allowed) {
+        return fallback('rate-limited', 429, { 'Retry-After': String(limit.retryAfterSeconds) })
+      }
+    } catch (e) {
+      req.payload.logger?.error?.(e, 'Plate redirect rate limiter failed')
+    }
+
+    const unknownSlug = async () => {
+      await recordSlugMiss(req.payload, req, clientKey, slug).catch((e) => {
+        req.payload.logger?.error?.(e, 'Slug scanning detection failed')
+      })
+      return fallback('unknown', 404)
+    }
+
+    /**
+     * Slugs carry a check character (see `src/plates/slug.ts`): typos and
+     * guessed slugs are rejected here, without reaching the database.
+     * Legacy hex slugs have no check character and are looked up as before.
+     */
+    if (!isPlausiblePlateSlug(slug)) {
+      return unknownSlug()
+    }
+
+    let plate: any
+    try {
+      const result = await req.payload.find({
+        collection: 'plates',
+        where: { slug: { equals: slug } },
+        select: REDIRECT_SELECT,
+        limit: 1,
+        depth: 0,
+        overrideAccess: true,
+      })
+      plate = result.docs[0]
+    } catch (e) {
+      req.payload.logger?.error?.(e, 'Plate lookup failed')
+      return new Response(null, { status: 500, headers: NO_CACHE_HEADERS })
+    }
+
+    if (!plate) {
+      return unknownSlug()
+    }
+
+    /**
+     * First tap on a shipped / delivered plate: the customer has it in hand,
+     * so it is activated on the spot (see `src/plates/lifecycle.ts`).
+     */
+    if ((plate.status === 'shipped' || plate.status === 'delivered') && readPlateDestination(plate)) {
+      try {
+        plate = await req.payload.update({
+          collection: 'plates',
+          id: plate.id,
+          data: { status: 'activated' },
+          select: REDIRECT_SELECT,
+          depth: 0,
+          overrideAccess: true,
+          context: { actor: 'system:first-scan' },
+        })
+      } catch (e) {
+        // Never block the tap: it shows the pending page, the next tap retries
+        req.payload.logger?.error?.(e, `First-scan activation failed for plate ${slug}`)
+      }
+    }
+
+    /**
+     * Serves the destination of `source` (the plate itself, or its replacement);
+     * the scan is always recorded on the tapped plate. Scans are never awaited:
+     * the visitor is answered without waiting for the analytics writes.
+     */
+    const serve = (source: any, outcome: 'redirected' | 'forwarded') => {
+      /**
+       * Splits are seeded with the visitor's salted IP hash: a visitor keeps
+       * the same variant (visitors without a client IP share one).
+       */
+      const { destination } = selectPlateDestination(source, {
+        now: new Date(),
+        seed: `${clientKey}|${source.slug}`,
+      })
+      if (!destination) {
+        req.payload.logger?.error?.(`Plate ${source.slug} has no usable destination`)
+        void recordPlateScan(req.payload, req, plate, 'disabled')
+        return fallback('disabled', 410)
+      }
+
+      // `redirected` / `forwarded` = the destination was served, whatever its type
+      void recordPlateScan(req.payload, req, plate, outcome)
+
+      if (destination.type === 'wifi') {
+        const locale = resolveAcceptLanguage(req.headers?.get?.('accept-language'))
+        return new Response(buildWifiPageHtml(destination.wifi, locale), {
+          status: 200,
+          headers: {
+            ...NO_CACHE_HEADERS,
+            'Content-Type': 'text/html; charset=utf-8',
+            'Content-Language': locale,
+            'Referrer-Policy': 'no-referrer',
+          },
+        })
+      }
+
+      return new Response(null, {
+        status: 302,
+        headers: {
+          ...NO_CACHE_HEADERS,
+          Location: destination.url,
+          // The slug must not leak to the destination through the Referer header
+          'Referrer-Policy': 'no-referrer',
+        },
+      })
+    }
+
+    switch (toPlateStatus(plate.status)) {
+      case 'activated':
+        return serve(plate, 'redirected')
+
+      case 'created':
+      case 'encoded':
+      case 'shipped':
+      case 'delivered':
+        void recordPlateScan(req.payload, req, plate, 'pending')
+        return fallback('pending', 200)
+
+      default: {
+        // Any other status means the plate must no longer redirect, except to its replacement's destination.
+        const target = await findForwardTarget(req.payload, plate)
+        if (target) return serve(target, 'forwarded')
+
+        void recordPlateScan(req.payload, req, plate, 'disabled')
+        return fallback('disabled', 410)
+      }
+    }
+  },
+}
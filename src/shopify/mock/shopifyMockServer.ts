@@ -0,0 +1,180 @@
+import http from 'http'
+
+/**
+ * Local stand-in for the Shopify Admin REST API (development and tests).
+ *
+ * Point the client to it with:
+ *   SHOPIFY_ADMIN_API_BASE_URL=http://localhost:4010/admin/api/2024-10
+ *   SHOPIFY_ADMIN_API_TOKEN=mock
+ *
+ * Implemented endpoints (in-memory state):
+ * - GET  /admin/api/:version/orders/:id.json
+ * - GET  /admin/api/:version/orders/:id/fulfillment_orders.json
+ * - POST /admin/api/:version/fulfillments.json
+ *
+ * Mock control endpoints:
+ * - POST /__mock/orders        → seed an order `{ id, line_items: [{ id, quantity }] }`
+ *                                 (any other order field is returned as-is by GET orders/:id.json)
+ * - GET  /__mock/fulfillments  → fulfillments created so far
+ * - POST /__mock/reset         → clear the state
+ *
+ * Failure injection (options or env):
+ * - rateLimitEvery: every Nth API call answers 429 with `Retry-After: 1`
+ * - failEvery:      every Nth API call answers 503
+ */
+
+type MockOptions = {
+  port?: number
+  rateLimitEvery?: number
+  failEvery?: number
+}
+
+type MockFulfillmentOrder = {
+  id: number
+  order_id: number
+  status: 'open' | 'closed'
+  line_items: Array<{ id: number; line_item_id: number; quantity: number; fulfillable_quantity: number }>
+}
+
+function readJson(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve) => {
+    let raw = ''
+    req.on('data', (chunk) => (raw += chunk))
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : null)
+      } catch {
+        resolve(null)
+      }
+    })
+  })
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  res.end(JSON.stringify(body))
+}
+
+export function startShopifyMockServer(opts: MockOptions = {}): Promise<http.Server> {
+  const port = opts.port ?? 4010
+  const rateLimitEvery = opts.rateLimitEvery ?? 0
+  const failEvery = opts.failEvery ?? 0
+
+  let nextId = 1000
+  let calls = 0
+  const orders = new Map<number, any>()
+  const fulfillmentOrders: MockFulfillmentOrder[] = []
+  const fulfillments: any[] = []
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', `http://localhost:${port}`)
+    const path = url.pathname
+
+    /* ---------------------------- mock control ---------------------------- */
+
+    if (path === '/__mock/orders' && req.method === 'POST') {
+      const body = await readJson(req)
+      orders.set(Number(body?.id), body)
+      const fo: MockFulfillmentOrder = {
+        id: nextId++,
+        order_id: Number(body?.id),
+        status: 'open',
+        line_items: (body?.line_items ?? []).map((li: any) => ({
+          id: nextId++,
+          line_item_id: Number(li.id),
+          quantity: Number(li.quantity ?? 1),
+          fulfillable_quantity: Number(li.quantity ?? 1),
+        })),
+      }
+      fulfillmentOrders.push(fo)
+      return send(res, 201, { fulfillment_order: fo })
+    }
+    if (path === '/__mock/fulfillments' && req.method === 'GET') {
+      return send(res, 200, { fulfillments })
+    }
+    if (path === '/__mock/reset' && req.method === 'POST') {
+      orders.clear()
+      fulfillmentOrders.length = 0
+      fulfillments.length = 0
+      calls = 0
+      return send(res, 204, {})
+    }
+
+    /* ------------------------------ Admin API ----------------------------- */
+
+    if (!req.headers['x-shopify-access-token']) {
+      return send(res, 401, { errors: '[API] Invalid API key or access token' })
+    }
+
+    calls++
+    const callLimit = { 'X-Shopify-Shop-Api-Call-Limit': `${Math.min(calls, 40)}/40` }
+    if (rateLimitEvery && calls % rateLimitEvery === 0) {
+      return send(res, 429, { errors: 'Exceeded 2 calls per second for api client.' }, { 'Retry-After': '1.0' })
+    }
+    if (failEvery && calls % failEvery === 0) {
+      return send(res, 503, { errors: 'Service unavailable' })
+    }
+
+    const orderMatch = path.match(/^\/admin\/api\/[^/]+\/orders\/(\d+)\.json$/)
+    if (orderMatch && req.method === 'GET') {
+      const order = orders.get(Number(orderMatch[1]))
+      return order ? send(res, 200, { order }, callLimit) : send(res, 404, { errors: 'Not Found' })
+    }
+
+    const foMatch = path.match(/^\/admin\/api\/[^/]+\/orders\/(\d+)\/fulfillment_orders\.json$/)
+    if (foMatch && req.method === 'GET') {
+      const orderId = Number(foMatch[1])
+      return send(res, 200, { fulfillment_orders: fulfillmentOrders.filter((fo) => fo.order_id === orderId) }, callLimit)
+    }
+
+    if (/^\/admin\/api\/[^/]+\/fulfillments\.json$/.test(path) && req.method === 'POST') {
+      const body = await readJson(req)
+      const groups = body?.fulfillment?.line_items_by_fulfillment_order ?? []
+
+      for (const group of groups) {
+        const fo = fulfillmentOrders.find((f) => f.id === Number(group.fulfillment_order_id))
+        if (!fo) return send(res, 422, { errors: `Fulfillment order ${group.fulfillment_order_id} not found` })
+
+        for (const item of group.fulfillment_order_line_items ?? []) {
+          const li = fo.line_items.find((l) => l.id === Number(item.id))
+          if (!li || Number(item.quantity) > li.fulfillable_quantity) {
+            return send(res, 422, { errors: `Invalid fulfillment order line item ${item.id}` })
+          }
+        }
+      }
+
+      for (const group of groups) {
+        const fo = fulfillmentOrders.find((f) => f.id === Number(group.fulfillment_order_id))!
+        for (const item of group.fulfillment_order_line_items ?? []) {
+          fo.line_items.find((l) => l.id === Number(item.id))!.fulfillable_quantity -= Number(item.quantity)
+        }
+        if (fo.line_items.every((l) => l.fulfillable_quantity === 0)) fo.status = 'closed'
+      }
+
+      const fulfillment = {
+        id: nextId++,
+        status: 'success',
+        tracking_info: body?.fulfillment?.tracking_info ?? null,
+        line_items_by_fulfillment_order: groups,
+      }
+      fulfillments.push(fulfillment)
+      return send(res, 201, { fulfillment }, callLimit)
+    }
+
+    return send(res, 404, { errors: 'Not Found' })
+  })
+
+  return new Promise((resolve) => server.listen(port, () => resolve(server)))
+}
+
+// `npx tsx src/shopify/mock/shopifyMockServer.ts`
+if (process.argv[1]?.endsWith('shopifyMockServer.ts')) {
+  const port = Number(process.env.SHOPIFY_MOCK_PORT || 4010)
+  startShopifyMockServer({
+    port,
+    rateLimitEvery: Number(process.env.SHOPIFY_MOCK_RATE_LIMIT_EVERY || 0),
+    failEvery: Number(process.env.SHOPIFY_MOCK_FAIL_EVERY || 0),
+  }).then(() => {
+    console.log(`Shopify mock listening on http://localhost:${port}`)
+  })
+}
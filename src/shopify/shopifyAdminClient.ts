@@ -0,0 +1,209 @@
+import type { Payload } from 'payload'
+
+import type { ShopContext } from '../shops/resolveShop'
+
+/**
+ * Outbound Shopify Admin REST API client.
+ *
+ * - Retries 429 (honouring `Retry-After`), 5xx and network errors with exponential backoff
+ * - Slows down when the leaky bucket (`X-Shopify-Shop-Api-Call-Limit`) is almost full
+ * - Logs every HTTP attempt to `shopify-api-calls` (best effort)
+ *
+ * `SHOPIFY_ADMIN_API_BASE_URL` points the client to a local stand-in server
+ * (see `src/shopify/mock/shopifyMockServer.ts`) instead of the real store(s).
+ */
+
+export class ShopifyApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly body: unknown,
+  ) {
+    super(message)
+    this.name = 'ShopifyApiError'
+  }
+}
+
+export type ShopifyAdminConfig = {
+  /** e.g. https://my-store.myshopify.com/admin/api/2024-10 */
+  baseUrl: string
+  accessToken: string
+  /** Shop the calls are made for (null in the legacy single-shop setup). */
+  shopId?: string | number | null
+}
+
+type ClientOptions = {
+  /**
+   * Attempts per call (first try included).
+   * Default: 5.
+   */
+  maxAttempts?: number
+
+  /**
+   * Base delay of the exponential backoff (doubled at each attempt).
+   * Default: 1 second.
+   */
+  baseDelayMs?: number
+
+  /**
+   * Upper bound of the backoff delay.
+   * Default: 30 seconds.
+   */
+  maxDelayMs?: number
+
+  /**
+   * Per-attempt timeout.
+   * Default: 10 seconds.
+   */
+  timeoutMs?: number
+}
+
+type RequestOptions = {
+  body?: unknown
+  /** Stored on the log entry to find the calls of an order. */
+  orderNumber?: string
+}
+
+export type ShopifyAdminClient = {
+  request<T = any>(method: 'GET' | 'POST' | 'PUT' | 'DELETE', path: string, opts?: RequestOptions): Promise<T>
+}
+
+const DEFAULT_API_VERSION = '2024-10'
+const MAX_LOGGED_BODY_LENGTH = 10_000
+
+/**
+ * Reads the Admin API configuration of a shop (`shops.adminApiToken`),
+ * or from the environment for legacy orders without a shop.
+ * Returns null when outbound calls are not configured.
+ */
+export function getShopifyAdminConfig(shop: ShopContext | null = null): ShopifyAdminConfig | null {
+  const accessToken = shop ? shop.adminApiToken : process.env.SHOPIFY_ADMIN_API_TOKEN
+  const apiVersion = shop?.apiVersion || process.env.SHOPIFY_API_VERSION || DEFAULT_API_VERSION
+  const shopDomain = shop ? shop.shopDomain : process.env.SHOPIFY_SHOP_DOMAIN
+
+  const baseUrl =
+    process.env.SHOPIFY_ADMIN_API_BASE_URL || (shopDomain ? `https://${shopDomain}/admin/api/${apiVersion}` : '')
+
+  if (!accessToken || !baseUrl) return null
+  return { baseUrl: baseUrl.replace(/\/$/, ''), accessToken, shopId: shop?.id ?? null }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function truncate(value: string | null | undefined): string | undefined {
+  if (!value) return undefined
+  return value.length > MAX_LOGGED_BODY_LENGTH ? `${value.slice(0, MAX_LOGGED_BODY_LENGTH)}…` : value
+}
+
+/**
+ * `Retry-After` is in seconds (Shopify sends decimals, e.g. "2.0").
+ */
+function parseRetryAfter(value: string | null): number | null {
+  const seconds = Number(value)
+  return value && Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null
+}
+
+/**
+ * `X-Shopify-Shop-Api-Call-Limit: 38/40` → true when the bucket is almost full.
+ */
+function isBucketAlmostFull(value: string | null): boolean {
+  const [used, limit] = String(value ?? '').split('/').map(Number)
+  return Number.isFinite(used) && Number.isFinite(limit) && limit > 0 && used >= limit - 2
+}
+
+async function logCall(payload: Payload, data: Record<string, unknown>) {
+  try {
+    await payload.create({ collection: 'shopify-api-calls', data, overrideAccess: true })
+  } catch (e) {
+    // Observability only — the call itself must not fail because of the log
+    payload.logger?.error?.(e, 'Failed to log Shopify API call')
+  }
+}
+
+export function createShopifyAdminClient(
+  payload: Payload,
+  config: ShopifyAdminConfig,
+  opts: ClientOptions = {},
+): ShopifyAdminClient {
+  const maxAttempts = opts.maxAttempts ?? 5
+  const baseDelayMs = opts.baseDelayMs ?? 1000
+  const maxDelayMs = opts.maxDelayMs ?? 30 * 1000
+  const timeoutMs = opts.timeoutMs ?? 10 * 1000
+
+  const backoff = (attempt: number) => Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs)
+
+  return {
+    async request(method, path, { body, orderNumber } = {}) {
+      const url = `${config.baseUrl}${path}`
+      const requestBody = body === undefined ? undefined : JSON.stringify(body)
+
+      for (let attempt = 1; ; attempt++) {
+        const startedAt = Date.now()
+        let res: Response | null = null
+        let text = ''
+        let networkError: any = null
+
+        try {
+          res = await fetch(url, {
+            method,
+            headers: {
+              'X-Shopify-Access-Token': config.accessToken,
+              'Content-Type': 'application/json',
+              Accept: 'application/json',
+            },
+            body: requestBody,
+            signal: AbortSignal.timeout(timeoutMs),
+          })
+          text = await res.text()
+        } catch (err) {
+          networkError = err
+        }
+
+        const retryable = networkError !== null || res!.status === 429 || res!.status >= 500
+
+        await logCall(payload, {
+          shop: config.shopId ?? undefined,
+          method,
+          path,
+          status: res?.status ?? null,
+          ok: Boolean(res?.ok),
+          attempt,
+          durationMs: Date.now() - startedAt,
+          orderNumber,
+          requestBody: truncate(requestBody),
+          responseBody: truncate(text),
+          error: networkError ? String(networkError?.message ?? networkError) : undefined,
+        })
+
+        if (res?.ok) {
+          if (isBucketAlmostFull(res.headers.get('x-shopify-shop-api-call-limit'))) {
+            // The bucket leaks 2 calls/second on standard plans
+            await sleep(1000)
+          }
+          return (text ? JSON.parse(text) : null) as any
+        }
+
+        if (!retryable || attempt >= maxAttempts) {
+          let parsed: unknown = text
+          try {
+            parsed = JSON.parse(text)
+          } catch {
+            // keep the raw text
+          }
+          throw new ShopifyApiError(
+            networkError
+              ? `Shopify ${method} ${path} failed: ${networkError?.message ?? networkError}`
+              : `Shopify ${method} ${path} failed with HTTP ${res!.status}`,
+            res?.status ?? 0,
+            parsed,
+          )
+        }
+
+        const retryAfter = res?.status === 429 ? parseRetryAfter(res.headers.get('retry-after')) : null
+        await sleep(retryAfter ?? backoff(attempt))
+      }
+    },
+  }
+}
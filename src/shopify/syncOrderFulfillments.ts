@@ -0,0 +1,145 @@
+import type { Payload } from 'payload'
+
+import { parseSourceKey } from '../utils/parseSourceKey'
+import type { ShopifyAdminClient } from './shopifyAdminClient'
+
+/**
+ * Statuses reached once the plate has left the workshop.
+ */
+const SHIPPED_OR_LATER = ['shipped', 'delivered', 'activated']
+
+type FulfillmentOrder = {
+  id: number
+  status: string
+  line_items: Array<{ id: number; line_item_id: number; fulfillable_quantity: number }>
+}
+
+export type FulfillmentSyncResult = {
+  fulfillmentIds: string[]
+  syncedLineItemIds: string[]
+}
+
+/**
+ * Creates Shopify fulfillments for the line items whose plates are all shipped.
+ *
+ * Flow:
+ * 1. Group the live (not disabled) plates of the order by line item (`sourceKey`)
+ * 2. Keep the line items whose plates are all shipped, and not synced yet
+ * 3. Read the order's fulfillment orders to get fulfillable quantities
+ * 4. Create one fulfillment per tracking number (tracking info from the plates)
+ * 5. Mark the plates as synced (`shopifyFulfillmentId`, `fulfillmentSyncedAt`)
+ *
+ * Idempotency:
+ * - Plates are only marked after Shopify accepted the fulfillment
+ * - If marking fails, the next run finds nothing left to fulfill on Shopify's
+ *   side (`fulfillable_quantity = 0`) and only marks the plates
+ */
+export async function syncOrderFulfillments(
+  payload: Payload,
+  client: ShopifyAdminClient,
+  order: { id: string | number; orderNumber: string; shopifyOrderId?: string | null },
+): Promise<FulfillmentSyncResult> {
+  const result: FulfillmentSyncResult = { fulfillmentIds: [], syncedLineItemIds: [] }
+  if (!order.shopifyOrderId) return result
+
+  const plates = await payload.find({
+    collection: 'plates',
+    where: { and: [{ order: { equals: order.id } }, { status: { not_equals: 'disabled' } }] },
+    pagination: false,
+    depth: 0,
+    overrideAccess: true,
+  })
+
+  const byLineItem = new Map<string, any[]>()
+  for (const plate of plates.docs as any[]) {
+    const parsed = parseSourceKey(plate.sourceKey)
+    if (!parsed) continue
+    const list = byLineItem.get(parsed.lineItemId) ?? []
+    list.push(plate)
+    byLineItem.set(parsed.lineItemId, list)
+  }
+
+  const readyLines = [...byLineItem.entries()].filter(
+    ([, linePlates]) =>
+      linePlates.every((p) => SHIPPED_OR_LATER.includes(p.status)) &&
+      linePlates.some((p) => !p.fulfillmentSyncedAt),
+  )
+  if (!readyLines.length) return result
+
+  const { fulfillment_orders: fulfillmentOrders = [] } = await client.request<{
+    fulfillment_orders: FulfillmentOrder[]
+  }>('GET', `/orders/${order.shopifyOrderId}/fulfillment_orders.json`, { orderNumber: order.orderNumber })
+
+  const openFulfillmentOrders = fulfillmentOrders.filter((fo) => ['open', 'in_progress'].includes(fo.status))
+
+  /**
+   * Group ready lines by tracking number: Shopify takes one tracking info per fulfillment.
+   * A line shipped in several parcels uses the first tracking number (sorted).
+   */
+  const groups = new Map<string, { tracking: any; lines: Array<[string, any[]]> }>()
+  for (const [lineItemId, linePlates] of readyLines) {
+    const tracked = linePlates
+      .filter((p) => p.trackingNumber)
+      .sort((a, b) => String(a.trackingNumber).localeCompare(String(b.trackingNumber)))[0]
+    const key = tracked?.trackingNumber ?? ''
+    const group = groups.get(key) ?? {
+      tracking: tracked
+        ? { number: tracked.trackingNumber, company: tracked.trackingCompany, url: tracked.trackingUrl }
+        : null,
+      lines: [],
+    }
+    group.lines.push([lineItemId, linePlates])
+    groups.set(key, group)
+  }
+
+  for (const { tracking, lines } of groups.values()) {
+    const byFulfillmentOrder = new Map<number, Array<{ id: number; quantity: number }>>()
+
+    for (const [lineItemId] of lines) {
+      for (const fo of openFulfillmentOrders) {
+        for (const li of fo.line_items) {
+          if (String(li.line_item_id) !== lineItemId || li.fulfillable_quantity <= 0) continue
+          const list = byFulfillmentOrder.get(fo.id) ?? []
+          list.push({ id: li.id, quantity: li.fulfillable_quantity })
+          byFulfillmentOrder.set(fo.id, list)
+        }
+      }
+    }
+
+    let fulfillmentId: string | null = null
+
+    if (byFulfillmentOrder.size) {
+      const created = await client.request<{ fulfillment: { id: number } }>('POST', '/fulfillments.json', {
+        orderNumber: order.orderNumber,
+        body: {
+          fulfillment: {
+            line_items_by_fulfillment_order: [...byFulfillmentOrder.entries()].map(([foId, items]) => ({
+              fulfillment_order_id: foId,
+              fulfillment_order_line_items: items,
+            })),
+            ...(tracking ? { tracking_info: tracking } : {}),
+            notify_customer: true,
+          },
+        },
+      })
+      fulfillmentId = String(created.fulfillment.id)
+      result.fulfillmentIds.push(fulfillmentId)
+    }
+
+    // Nothing fulfillable left on Shopify (already fulfilled by hand): just mark as synced
+    const plateIds = lines.flatMap(([, linePlates]) => linePlates.map((p) => p.id))
+    await payload.update({
+      collection: 'plates',
+      where: { id: { in: plateIds } },
+      data: {
+        ...(fulfillmentId ? { shopifyFulfillmentId: fulfillmentId } : {}),
+        fulfillmentSyncedAt: new Date().toISOString(),
+      },
+      overrideAccess: true,
+    })
+
+    result.syncedLineItemIds.push(...lines.map(([lineItemId]) => lineItemId))
+  }
+
+  return result
+}
@@ -0,0 +1,65 @@
+import type { Payload, Where } from 'payload'
+
+/**
+ * The subset of a `shops` document passed around backend processes.
+ */
+export type ShopContext = {
+  id: string | number
+  shopDomain: string
+  webhookSecrets?: Array<{ label?: string | null; secret?: string | null; expiresAt?: string | null }> | null
+  adminApiToken?: string | null
+  apiVersion?: string | null
+  notificationEmail?: string | null
+  notificationLocale?: string | null
+  notificationTimeZone?: string | null
+  notificationDateStyle?: string | null
+}
+
+export function normalizeShopDomain(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase()
+}
+
+/**
+ * Finds the active shop matching a `x-shopify-shop-domain` header.
+ */
+export async function resolveShopByDomain(payload: Payload, shopDomain: string | null): Promise<ShopContext | null> {
+  const domain = normalizeShopDomain(shopDomain)
+  if (!domain) return null
+
+  const res = await payload.find({
+    collection: 'shops',
+    where: {
+      and: [{ shopDomain: { equals: domain } }, { active: { not_equals: false } }],
+    },
+    limit: 1,
+    depth: 0,
+    overrideAccess: true,
+  })
+
+  return (res.docs[0] as any) ?? null
+}
+
+/**
+ * Null only when the shop does not exist (deleted). Database errors are thrown,
+ * so the worker retries the event instead of failing it as `UNKNOWN_SHOP` for good.
+ */
+export async function findShopById(payload: Payload, id: string | number | null | undefined): Promise<ShopContext | null> {
+  if (id === null || id === undefined || id === '') return null
+  const shop = await payload.findByID({ collection: 'shops', id, depth: 0, overrideAccess: true, disableErrors: true })
+  return (shop as any) ?? null
+}
+
+/**
+ * Where clause restricting a query to one shop.
+ *
+ * Records created before multi-shop support have no shop: they belong to
+ * the legacy single-shop setup (`SHOPIFY_WEBHOOK_SECRET`).
+ */
+export function shopFilter(shopId: string | number | null | undefined): Where {
+  return shopId === null || shopId === undefined ? { shop: { exists: false } } : { shop: { equals: shopId } }
+}
+
+export function getShopId(value: unknown): string | number | null {
+  if (value && typeof value === 'object') return (value as any).id ?? null
+  return (value as any) ?? null
+}
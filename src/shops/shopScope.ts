@@ -0,0 +1,41 @@
+import type { Field } from 'payload'
+
+import { getShopId } from './resolveShop'
+
+/**
+ * Scope of the documents of the legacy single-shop setup (no `shop`).
+ */
+export const LEGACY_SHOP_SCOPE = 'legacy'
+
+/**
+ * Non-null key of a document's shop: the shop ID, or `legacy` without one.
+ */
+export function toShopScope(shop: unknown): string {
+  const id = getShopId(shop)
+  return id === null || id === undefined || id === '' ? LEGACY_SHOP_SCOPE : String(id)
+}
+
+/**
+ * `shopScope` field, copied from `shop` on every write.
+ *
+ * Compound unique indexes ("unique per shop") are built on it instead of `shop`:
+ * Postgres treats NULLs as distinct, so an index on a null `shop` would let
+ * legacy documents share a key (webhook id, order number, sourceKey).
+ */
+export const shopScopeField: Field = {
+  name: 'shopScope',
+  type: 'text',
+  required: true,
+  index: true,
+  admin: {
+    hidden: true,
+    readOnly: true,
+  },
+  hooks: {
+    beforeValidate: [
+      // Partial updates without `shop` keep the scope of the stored document
+      ({ siblingData, originalDoc }) =>
+        toShopScope(siblingData && 'shop' in siblingData ? siblingData.shop : originalDoc?.shop),
+    ],
+  },
+}
@@ -0,0 +1,72 @@
+import { checkShopifySignature } from '../utils/verifyShopifyHmac'
+import type { ShopContext } from './resolveShop'
+
+/**
+ * One secret accepted for webhook signatures.
+ *
+ * `label` is what gets recorded on `webhook-events.secretLabel`:
+ * the secret itself is never stored outside its configuration.
+ */
+export type WebhookSecret = {
+  label: string
+  secret: string
+  expiresAt?: string | null
+}
+
+/** Labels of the secrets read from the environment (legacy single-shop setup). */
+export const ENV_CURRENT_SECRET_LABEL = 'env:current'
+export const ENV_PREVIOUS_SECRET_LABEL = 'env:previous'
+
+/**
+ * Every configured secret, expired ones included (for usage metrics).
+ *
+ * - Shop: `shops.webhookSecrets`
+ * - Legacy setup: `SHOPIFY_WEBHOOK_SECRET`, plus `SHOPIFY_WEBHOOK_SECRET_PREVIOUS`
+ *   (optionally until `SHOPIFY_WEBHOOK_SECRET_PREVIOUS_EXPIRES_AT`) during a rotation
+ */
+export function getConfiguredWebhookSecrets(shop: ShopContext | null): WebhookSecret[] {
+  if (shop) {
+    return (shop.webhookSecrets ?? [])
+      .filter((s) => s?.secret && s?.label)
+      .map((s) => ({ label: String(s.label), secret: String(s.secret), expiresAt: s.expiresAt ?? null }))
+  }
+
+  const secrets: WebhookSecret[] = []
+  if (process.env.SHOPIFY_WEBHOOK_SECRET) {
+    secrets.push({ label: ENV_CURRENT_SECRET_LABEL, secret: process.env.SHOPIFY_WEBHOOK_SECRET })
+  }
+  if (process.env.SHOPIFY_WEBHOOK_SECRET_PREVIOUS) {
+    secrets.push({
+      label: ENV_PREVIOUS_SECRET_LABEL,
+      secret: process.env.SHOPIFY_WEBHOOK_SECRET_PREVIOUS,
+      expiresAt: process.env.SHOPIFY_WEBHOOK_SECRET_PREVIOUS_EXPIRES_AT || null,
+    })
+  }
+  return secrets
+}
+
+export function isSecretExpired(secret: WebhookSecret, now = new Date()): boolean {
+  if (!secret.expiresAt) return false
+  const expiresAt = new Date(secret.expiresAt)
+  return !Number.isNaN(expiresAt.getTime()) && expiresAt <= now
+}
+
+/**
+ * Secrets currently accepted for the shop (or the legacy setup).
+ */
+export function getActiveWebhookSecrets(shop: ShopContext | null, now = new Date()): WebhookSecret[] {
+  return getConfiguredWebhookSecrets(shop).filter((s) => !isSecretExpired(s, now))
+}
+
+/**
+ * Returns the label of the first secret validating the signature, or null.
+ *
+ * Order does not matter for security: every candidate is checked with a
+ * timing-safe comparison, and any match proves the sender knows that secret.
+ */
+export function matchWebhookSecret(rawBody: string, hmacHeader: string | null, secrets: WebhookSecret[]): string | null {
+  for (const s of secrets) {
+    if (checkShopifySignature(rawBody, hmacHeader, s.secret)) return s.label
+  }
+  return null
+}
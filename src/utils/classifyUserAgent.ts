@@ -0,0 +1,26 @@
+export type UserAgentClass = 'mobile' | 'tablet' | 'desktop' | 'bot' | 'unknown'
+
+/**
+ * Reduces a raw User-Agent header to a coarse device class.
+ *
+ * We intentionally do not store the full user-agent:
+ * - it is high-cardinality and close to a fingerprint
+ * - the class is all we need for tap analytics
+ *
+ * Bots matter here: messaging apps fetch links for previews, and those
+ * requests must not be counted as physical taps.
+ */
+export function classifyUserAgent(userAgent: string | null | undefined): UserAgentClass {
+  const ua = String(userAgent ?? '').toLowerCase()
+  if (!ua) return 'unknown'
+
+  if (/bot|crawl|spider|slurp|preview|facebookexternalhit|whatsapp|telegram|curl|wget|python|headless/.test(ua)) {
+    return 'bot'
+  }
+
+  if (/ipad|tablet|(android(?!.*mobile))/.test(ua)) return 'tablet'
+  if (/mobi|iphone|ipod|android/.test(ua)) return 'mobile'
+  if (/windows|macintosh|linux|cros/.test(ua)) return 'desktop'
+
+  return 'unknown'
+}
@@ -0,0 +1,14 @@
+/**
+ * Escapes a string for safe interpolation in HTML (text and attribute values).
+ *
+ * Used by every HTML template (emails, public pages): any value coming from
+ * Shopify, customers or the database must go through it.
+ */
+export function escapeHtml(str: string): string {
+  return str
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#039;')
+}
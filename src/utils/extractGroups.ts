@@ -1,30 +1,46 @@
+import { describeDestinationSource } from "../destinations/plateDestination";
+import { toDestinationType, type DestinationType } from "../destinations/destinationTypes";
+import type { DestinationInput } from "../destinations/normalizeDestination";
 import { getPackSize } from "./getPackSize";
 
+export type LineItemGroup = {
+  destination: DestinationInput;
+  sourceDestination: string;
+  units: number;
+  packSize: number | null;
+  lineItemId: string;
+};
+
 /**
- * Extracts Google-related line items from a Shopify order payload.
+ * Extracts NFC plate line items from a Shopify order payload.
  *
- * For each line_item containing a Google URL in its properties,
+ * For each line_item carrying a destination in its properties,
  * this function returns a group describing:
- * - reviewUrl: the raw Google Business URL provided by the customer
- * - quantity: number of NFC plates to generate
+ * - destination: the raw destination provided by the customer (validated by callers)
+ * - sourceDestination: a stable fingerprint of it (see `describeDestinationSource`)
+ * - units: number of NFC plates to generate
  * - lineItemId: a STABLE identifier used for idempotency
  *
  * IMPORTANT:
  * - This function MUST be deterministic.
  * - lineItemId MUST be stable across webhook retries.
+ *
+ * Pack size resolution is injected (`resolvePackSize`) so this function stays
+ * pure: callers load `pack-mappings` beforehand (see `loadPackSizeResolver`).
+ * Without a resolver, only the variant_title parsing is used.
+ *
+ * `quantity: "current"` counts the units still on the order after edits and
+ * removals (`current_quantity`, possibly 0) instead of the ordered quantity.
+ * Used by `orders/updated`; `orders/paid` keeps the ordered quantity.
  */
-export function extractGroups(body: any): Array<{
-  reviewUrl: string;
-  units: number;
-  lineItemId: string;
-}> {
+export function extractGroups(
+  body: any,
+  opts: { resolvePackSize?: (item: any) => number | null; quantity?: "ordered" | "current" } = {}
+): LineItemGroup[] {
   const lineItems = Array.isArray(body?.line_items) ? body.line_items : [];
+  const resolvePackSize = opts.resolvePackSize ?? ((item: any) => getPackSize(item));
 
-  const groups: Array<{
-    reviewUrl: string;
-    units: number;
-    lineItemId: string;
-  }> = [];
+  const groups: LineItemGroup[] = [];
 
   for (const item of lineItems) {
     /**
@@ -34,12 +50,12 @@ export function extractGroups(body: any): Array<{
 
     const props = item?.properties;
 
-    const reviewUrl = Array.isArray(props)
-      ? findReviewUrlInProperties(props)
+    const destination = Array.isArray(props)
+      ? findDestinationInProperties(props)
       : null;
 
-    // Ignore line items that are not related to Google/NFC
-    if (!reviewUrl) continue;
+    // Ignore line items that are not NFC plates
+    if (!destination) continue;
 
     /**
      * Quantity fallback logic:
@@ -48,15 +64,20 @@ export function extractGroups(body: any): Array<{
      * - default to 1 to avoid generating 0 plates
      */
     const quantityRaw = Number(item?.quantity ?? item?.current_quantity ?? 1);
-    const quantity =
+    const orderedQuantity =
       Number.isFinite(quantityRaw) && quantityRaw > 0 ? quantityRaw : 1;
 
-    const packSize = getPackSize(item);
+    /**
+     * Current quantity: 0 is meaningful here (line item removed by an edit).
+     * Payloads without `current_quantity` keep the ordered quantity.
+     */
+    const currentRaw = Number(item?.current_quantity);
+    const quantity =
+      opts.quantity === "current" && item?.current_quantity != null && Number.isFinite(currentRaw) && currentRaw >= 0
+        ? currentRaw
+        : orderedQuantity;
 
-    // For V1, better to fail than to generate the wrong number of plates.
-    if (!packSize) {
-      throw new Error("NO PACK SIZE");
-    }
+    const packSize = resolvePackSize(item);
 
     /**
      * line_item.id is guaranteed to be stable by Shopify
@@ -73,48 +94,111 @@ export function extractGroups(body: any): Array<{
 
     const lineItemId = String(item.id ?? item.admin_graphql_api_id);
 
-    const units = quantity * packSize;
-
-    groups.push({ reviewUrl, units, lineItemId });
+    /**
+     * Unknown pack size → units = 0.
+     * Better to fail than to generate the wrong number of plates:
+     * callers treat 0 units as a permanent business error (DEC-006).
+     */
+    const units = packSize ? quantity * packSize : 0;
+
+    groups.push({
+      destination,
+      sourceDestination: describeDestinationSource(destination),
+      units,
+      packSize: packSize || null,
+      lineItemId,
+    });
   }
 
   return groups;
 }
 
 /**
- * Attempts to extract a Google-related URL from Shopify line item properties.
+ * Line item property names per destination type, in order of preference.
+ * `destination_url` is accepted by every URL type.
+ */
+const URL_PROPERTIES: Record<Exclude<DestinationType, "wifi">, string[]> = {
+  google_review: ["google_business_url"],
+  tripadvisor: ["tripadvisor_url"],
+  trustpilot: ["trustpilot_url"],
+  instagram: ["instagram_url", "instagram"],
+  menu: ["menu_url", "menu_pdf"],
+};
+
+const WIFI_PROPERTIES = {
+  ssid: "wifi_ssid",
+  password: "wifi_password",
+  security: "wifi_security",
+  hidden: "wifi_hidden",
+};
+
+/**
+ * Reads property values by name.
+ *
+ * Names are case-insensitive, and a leading underscore is ignored:
+ * Shopify hides `_`-prefixed properties from the cart and order confirmation,
+ * which is how themes should send a Wi-Fi password.
+ */
+function readProperties(properties: any[]): Map<string, string> {
+  const values = new Map<string, string>();
+  for (const p of properties) {
+    const name = String(p?.name ?? "")
+      .trim()
+      .toLowerCase()
+      .replace(/^_/, "");
+    const value = p?.value == null ? "" : String(p.value).trim();
+    if (name && value && !values.has(name)) values.set(name, value);
+  }
+  return values;
+}
+
+/**
+ * Attempts to extract a plate destination from Shopify line item properties.
  *
  * Strategy:
- * 1. Look for an exact property name: "google_business_url"
- * 2. Fallback to any property containing "google" in its name
+ * 1. `destination_type` names the type explicitly (an unknown value is kept,
+ *    so the handler fails with a clear error instead of ignoring the line item)
+ * 2. Otherwise the type is inferred from its specific property
+ *    (`tripadvisor_url`, `wifi_ssid`...), Google first
+ * 3. Legacy fallback: any property containing "google" in its name
  *
  * This makes the system resilient to theme / form variations.
  */
-function findReviewUrlInProperties(properties: any[]): string | null {
+function findDestinationInProperties(properties: any[]): DestinationInput | null {
   if (!Array.isArray(properties)) return null;
 
-  // Preferred explicit property name
-  const exact = properties.find(
-    (p: any) =>
-      String(p?.name ?? "")
-        .trim()
-        .toLowerCase() === "google_business_url"
-  );
-
-  if (exact?.value) {
-    return String(exact.value).trim();
+  const values = readProperties(properties);
+  const explicitType = values.get("destination_type");
+  const type =
+    (explicitType ? toDestinationType(explicitType) ?? explicitType : null) ??
+    (Object.keys(URL_PROPERTIES) as Array<keyof typeof URL_PROPERTIES>).find((t) =>
+      URL_PROPERTIES[t].some((name) => values.has(name))
+    ) ??
+    (values.has(WIFI_PROPERTIES.ssid) ? "wifi" : null);
+
+  if (type === "wifi") {
+    return {
+      type,
+      wifi: {
+        ssid: values.get(WIFI_PROPERTIES.ssid) ?? null,
+        password: values.get(WIFI_PROPERTIES.password) ?? null,
+        security: values.get(WIFI_PROPERTIES.security) ?? null,
+        hidden: values.get(WIFI_PROPERTIES.hidden) ?? null,
+      },
+    };
   }
 
-  // Fallback for looser naming conventions
-  const loose = properties.find((p: any) =>
-    String(p?.name ?? "")
-      .toLowerCase()
-      .includes("google")
-  );
+  if (type) {
+    const names = URL_PROPERTIES[type as keyof typeof URL_PROPERTIES] ?? [];
+    const url = [...names, "destination_url"].map((name) => values.get(name)).find(Boolean) ?? null;
+    if (type !== "google_review" || url) return { type, url };
+  }
 
-  if (loose?.value) {
-    return String(loose.value).trim();
+  // Fallback for looser naming conventions (Google reviews only)
+  const loose = [...values.keys()].find((name) => name.includes("google"));
+  if (loose && (!type || type === "google_review")) {
+    return { type: "google_review", url: values.get(loose)! };
   }
 
-  return null;
+  return type ? { type, url: null } : null;
 }
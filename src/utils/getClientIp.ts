@@ -0,0 +1,42 @@
+import { getShopifyHeader } from './getShopifyHeader'
+
+/**
+ * Returns the client IP of a request, as seen behind our reverse proxy / CDN.
+ *
+ * Only values written by our own proxies are trusted: every other entry is
+ * client-controlled, and rotating it would give a scanner a fresh rate limit
+ * bucket on every request.
+ *
+ * - `CLIENT_IP_HEADER` set (e.g. `cf-connecting-ip`, `x-real-ip`): that header,
+ *   which the edge must overwrite on every request
+ * - otherwise `x-forwarded-for`, skipping the `TRUSTED_PROXY_COUNT` entries
+ *   appended by our proxies (default 1): each proxy appends the address it
+ *   received the request from, so the rightmost untrusted entry is the client
+ *   (`0`: no proxy, the header is ignored)
+ *
+ * Returns null when the header is missing: the value is used for analytics
+ * and abuse heuristics, never for authentication.
+ */
+export function getClientIp(req: any): string | null {
+  const header = process.env.CLIENT_IP_HEADER?.trim().toLowerCase()
+  if (header) {
+    const value = getShopifyHeader(req, header)
+    return value ? String(value).trim() || null : null
+  }
+
+  const trusted = Number(process.env.TRUSTED_PROXY_COUNT || 1)
+  const proxies = Number.isInteger(trusted) && trusted >= 0 ? trusted : 1
+
+  // No proxy in front of the app: every `x-forwarded-for` entry comes from the client
+  const forwarded = proxies > 0 ? getShopifyHeader(req, 'x-forwarded-for') : null
+  if (!forwarded) return null
+
+  const hops = String(forwarded)
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+  if (!hops.length) return null
+
+  // Fewer entries than proxies: the chain is shorter than configured, the first entry is the closest guess
+  return hops[Math.max(hops.length - proxies, 0)]
+}
@@ -11,11 +11,15 @@
  *   the wrong number of plates (critical business error).
  *
  * Business rules:
- * - Only the supported pack sizes are allowed (1, 2, 5)
+ * - Only the supported pack sizes are allowed (1, 2, 5 by default,
+ *   configurable in the `pack-settings` global)
  * - If the variant naming changes and we can't infer the size, we return null
  *   so the webhook can mark the event as failed and notify support.
+ *
+ * This is the FALLBACK strategy: explicit `pack-mappings` (variant_id / sku)
+ * are looked up first (see `loadPackSizeResolver`).
  */
-export function getPackSize(item: any): number | null {
+export function getPackSize(item: any, allowedSizes: number[] = [1, 2, 5]): number | null {
   const variant = String(item?.variant_title ?? '').toLowerCase()
   const name = String(item?.name ?? '').toLowerCase()
 
@@ -31,7 +35,7 @@ export function getPackSize(item: any): number | null {
   if (!Number.isFinite(n)) return null
 
   // Restrict to known pack sizes to avoid unexpected variants (e.g. "10 Plaques")
-  if (n === 1 || n === 2 || n === 5) return n
+  if (allowedSizes.includes(n)) return n
 
   return null
 }
@@ -0,0 +1,22 @@
+import crypto from 'crypto'
+
+/**
+ * Hashes a client IP with a server-side salt (HMAC SHA-256).
+ *
+ * Why a keyed hash:
+ * - A plain SHA-256 of an IPv4 address can be reversed by brute force in minutes.
+ * - With a secret salt, the stored value is only useful to compare visits
+ *   between them (unique visitors), not to recover the address.
+ *
+ * The salt comes from `SCAN_IP_HASH_SALT`, falling back to `PAYLOAD_SECRET`.
+ */
+export function hashIp(ip: string | null): string | null {
+  if (!ip) return null
+
+  const salt = process.env.SCAN_IP_HASH_SALT || process.env.PAYLOAD_SECRET
+  if (!salt) {
+    throw new Error('SCAN_IP_HASH_SALT missing')
+  }
+
+  return crypto.createHmac('sha256', salt).update(ip, 'utf8').digest('hex').slice(0, 32)
+}
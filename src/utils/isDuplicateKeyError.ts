@@ -22,3 +22,30 @@ export function isDuplicateKeyError(err: any): boolean {
     s.includes('has already been taken')
   )
 }
+
+/**
+ * Names of the unique key a duplicate key error is about, lowercased without
+ * separators (`sourceKey`, `source_key` → `sourcekey`), or null when the error does not say.
+ *
+ * Read from the error itself, because the failed write may have aborted the
+ * surrounding transaction (Postgres): nothing can be queried to find out.
+ * - Payload `ValidationError`: `data.errors[].path`
+ * - MongoDB: `keyPattern` / `keyValue`
+ * - Postgres: `constraint` name and `detail` (`Key (slug)=(…) already exists.`)
+ */
+export function getDuplicateKeyName(err: any): string | null {
+  const hints: string[] = []
+
+  for (let e = err, depth = 0; e && depth < 3; e = e.cause, depth++) {
+    for (const fieldError of e?.data?.errors ?? []) {
+      if (fieldError?.path) hints.push(String(fieldError.path))
+    }
+    hints.push(...Object.keys(e?.keyPattern ?? e?.keyValue ?? {}))
+    if (e?.constraint) hints.push(String(e.constraint))
+    const detail = /Key \(([^)]*)\)=/.exec(String(e?.detail ?? ''))
+    if (detail) hints.push(detail[1])
+  }
+
+  const name = hints.join(' ').toLowerCase().replace(/[^a-z0-9 ]/g, '')
+  return name.trim() ? name : null
+}
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+
+import {
+  type GoogleReviewLinkErrorCode,
+  normalizeGoogleReviewLink,
+  normalizeGoogleReviewLinkSync,
+  ShortLinkResolutionError,
+  type ShortLinkResolver,
+} from './normalizeGoogleReviewLink'
+
+const PLACE_ID = 'ChIJN1t_tDeuEmsRUsoyG83frY4'
+const WRITE_REVIEW = `https://search.google.com/local/writereview?placeid=${PLACE_ID}`
+
+/**
+ * Share links of the tests and where they redirect to: no network access.
+ */
+const SHARE_LINKS: Record<string, string> = {
+  'https://maps.app.goo.gl/placeid':
+    'https://www.google.com/maps/place/Chez+Paul/@48.85,2.35,17z/data=!4m7!3m6!1s0x47e66e1f06e2b70f:0x40b82c3688c9460' +
+    `!8m2!3d48.85!4d2.35!16s%2Fg%2F1tdvlb4n!19s${PLACE_ID}?entry=ttu`,
+  'https://maps.app.goo.gl/query':
+    `https://www.google.com/maps/search/?api=1&query=Chez+Paul&query_place_id=${PLACE_ID}`,
+  'https://maps.app.goo.gl/featureid':
+    'https://www.google.com/maps/place/Chez+Paul/@48.85,2.35,17z/data=!3m1!4b1!4m6!3m5' +
+    '!1s0x47e66e1f06e2b70f:0x40b82c3688c9460!8m2!3d48.85!4d2.35?entry=ttu',
+  'https://maps.app.goo.gl/cid': 'https://maps.google.com/?cid=290947236589552736&entry=gps',
+  'https://maps.app.goo.gl/chained': 'https://goo.gl/maps/placeid',
+  'https://goo.gl/maps/placeid': `https://maps.google.com/?q=place_id:${PLACE_ID}`,
+  'https://maps.app.goo.gl/loop1': 'https://maps.app.goo.gl/loop2',
+  'https://maps.app.goo.gl/loop2': 'https://maps.app.goo.gl/loop3',
+  'https://maps.app.goo.gl/loop3': 'https://maps.app.goo.gl/loop1',
+}
+
+const stubResolver: ShortLinkResolver = async (url) => SHARE_LINKS[url] ?? null
+
+type Case = { input: string | null; url?: string; code?: GoogleReviewLinkErrorCode }
+
+const CASES: Case[] = [
+  // g.page
+  { input: 'https://g.page/r/CVQhgt1nMf1VEBM/review', url: 'https://g.page/r/CVQhgt1nMf1VEBM/review' },
+  { input: 'https://g.page/r/CVQhgt1nMf1VEBM', url: 'https://g.page/r/CVQhgt1nMf1VEBM/review' },
+  { input: 'g.page/r/CVQhgt1nMf1VEBM/review?utm_source=share', url: 'https://g.page/r/CVQhgt1nMf1VEBM/review' },
+  { input: 'https://g.page/chez-paul/review', url: 'https://g.page/chez-paul/review' },
+  { input: 'https://g.page/chez-paul', url: 'https://g.page/chez-paul/review' },
+  { input: 'https://g.page/r/CVQhgt1nMf1VEBM/photos', code: 'MISSING_PLACE_ID' },
+
+  // writereview?placeid=
+  { input: WRITE_REVIEW, url: WRITE_REVIEW },
+  { input: ` ${WRITE_REVIEW}&hl=fr `, url: WRITE_REVIEW },
+  { input: 'https://search.google.com/local/writereview?placeid=short', code: 'MISSING_PLACE_ID' },
+  { input: `https://search.google.com/search?placeid=${PLACE_ID}`, code: 'MISSING_PLACE_ID' },
+
+  // Maps URLs
+  { input: `https://www.google.com/maps/search/?api=1&query=Chez+Paul&query_place_id=${PLACE_ID}`, url: WRITE_REVIEW },
+  { input: `https://www.google.fr/maps/place/?q=place_id:${PLACE_ID}`, url: WRITE_REVIEW },
+  { input: `https://maps.google.co.uk/?q=place_id:${PLACE_ID}`, url: WRITE_REVIEW },
+  { input: SHARE_LINKS['https://maps.app.goo.gl/placeid'], url: WRITE_REVIEW },
+  { input: SHARE_LINKS['https://maps.app.goo.gl/featureid'], code: 'FEATURE_ID_ONLY' },
+  { input: 'https://www.google.com/maps/@48.85,2.35,15z', code: 'MISSING_PLACE_ID' },
+  { input: 'https://www.google.com/search?q=chez+paul', code: 'UNSUPPORTED_HOST' },
+
+  // Share links, through the stub resolver
+  { input: 'https://maps.app.goo.gl/placeid', url: WRITE_REVIEW },
+  { input: 'maps.app.goo.gl/query', url: WRITE_REVIEW },
+  { input: 'https://maps.app.goo.gl/chained', url: WRITE_REVIEW },
+  { input: 'https://maps.app.goo.gl/featureid', code: 'FEATURE_ID_ONLY' },
+  { input: 'https://maps.app.goo.gl/cid', code: 'FEATURE_ID_ONLY' },
+  { input: 'https://maps.app.goo.gl/unknown', code: 'SHORT_LINK_UNRESOLVED' },
+  { input: 'https://maps.app.goo.gl/loop1', code: 'SHORT_LINK_UNRESOLVED' },
+
+  // Other typed errors
+  { input: null, code: 'EMPTY' },
+  { input: '   ', code: 'EMPTY' },
+  { input: 'https://exa mple.com', code: 'INVALID_URL' },
+  { input: 'ftp://g.page/r/CVQhgt1nMf1VEBM/review', code: 'UNSUPPORTED_PROTOCOL' },
+  { input: 'https://www.tripadvisor.fr/Restaurant_Review-g187147-d1234567', code: 'UNSUPPORTED_HOST' },
+]
+
+describe('normalizeGoogleReviewLink', () => {
+  for (const c of CASES) {
+    it(`${JSON.stringify(c.input)} → ${c.url ?? c.code}`, async () => {
+      const result = await normalizeGoogleReviewLink(c.input, { resolveShortLink: stubResolver })
+
+      const expected = c.url ? { url: c.url } : { code: c.code }
+      assert.deepEqual(result.ok ? { url: result.url } : { code: result.code }, expected)
+    })
+  }
+
+  it('rethrows resolver errors instead of rejecting the link', async () => {
+    await assert.rejects(
+      normalizeGoogleReviewLink('https://maps.app.goo.gl/placeid', {
+        resolveShortLink: async () => {
+          throw new ShortLinkResolutionError('timeout')
+        },
+      }),
+      ShortLinkResolutionError,
+    )
+  })
+
+  it('returns the place ID with the canonical URL', async () => {
+    const result = await normalizeGoogleReviewLink('https://maps.app.goo.gl/placeid', {
+      resolveShortLink: stubResolver,
+    })
+    assert.equal(result.ok && result.placeId, PLACE_ID)
+  })
+})
+
+describe('normalizeGoogleReviewLinkSync', () => {
+  it('rejects share links without resolving them', () => {
+    const result = normalizeGoogleReviewLinkSync('https://maps.app.goo.gl/placeid')
+    assert.equal(!result.ok && result.code, 'SHORT_LINK_UNRESOLVED')
+  })
+})
@@ -0,0 +1,278 @@
+/**
+ * Normalizes the Google review links customers paste into a canonical review URL.
+ *
+ * Accepted inputs:
+ * - g.page short links:            https://g.page/r/{id}/review (with or without `/review`)
+ * - Legacy g.page business names:  https://g.page/{name}/review
+ * - Write-review links:            https://search.google.com/local/writereview?placeid={placeId}
+ * - Maps URLs with a place ID:     ...google.{tld}/maps/...?query_place_id={placeId}
+ *                                  ...google.{tld}/maps/place/?q=place_id:{placeId}
+ *                                  ...google.{tld}/maps/place/{name}/@{lat},{lng}/data=...!19s{placeId}...
+ * - Maps share links:              https://maps.app.goo.gl/{code}, https://goo.gl/maps/{code}
+ *                                  (resolved through a pluggable resolver, then normalized again)
+ *
+ * Maps URLs that only carry the place's feature ID (`!1s0x…:0x…` in `data=`,
+ * `?cid=`, `?ftid=`) cannot be turned into a review link without the Places API:
+ * they are rejected with `FEATURE_ID_ONLY`, which tells the customer which link to use instead.
+ *
+ * Canonical outputs:
+ * - g.page links stay g.page links:      https://g.page/r/{id}/review
+ * - anything carrying a place ID becomes: https://search.google.com/local/writereview?placeid={placeId}
+ *
+ * Rejected inputs return a typed error, so callers can store a precise
+ * reason on `webhook-events` or show it to a customer. Only a share link that
+ * could not be resolved because of the network throws (`ShortLinkResolutionError`):
+ * that says nothing about the link, and the caller should retry.
+ */
+
+export type GoogleReviewLinkErrorCode =
+  | 'EMPTY'
+  | 'INVALID_URL'
+  | 'UNSUPPORTED_PROTOCOL'
+  | 'UNSUPPORTED_HOST'
+  | 'MISSING_PLACE_ID'
+  | 'FEATURE_ID_ONLY'
+  | 'SHORT_LINK_UNRESOLVED'
+
+export type GoogleReviewLinkResult =
+  | { ok: true; url: string; placeId: string | null }
+  | { ok: false; code: GoogleReviewLinkErrorCode; message: string }
+
+/**
+ * Resolves a share link (maps.app.goo.gl, goo.gl/maps) to the URL it redirects to.
+ * Returns null when the link redirects nowhere; throws on transport errors
+ * (DNS, timeout, 5xx), which are transient.
+ */
+export type ShortLinkResolver = (url: string) => Promise<string | null>
+
+export class ShortLinkResolutionError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = 'ShortLinkResolutionError'
+  }
+}
+
+/**
+ * Place IDs are opaque base64-like strings (usually starting with `ChIJ`).
+ * We only check the charset and a minimal length.
+ */
+const PLACE_ID_PATTERN = /^[A-Za-z0-9_-]{16,}$/
+
+/**
+ * `google.com`, `google.fr`, `google.co.uk`, `www.google.de`, `maps.google.com`...
+ */
+const GOOGLE_HOST_PATTERN = /^(?:www\.|maps\.)?google\.(?:[a-z]{2,3}|co\.[a-z]{2}|com\.[a-z]{2})$/
+
+/**
+ * In the `data=` blob of Maps place URLs: `!19s{placeId}` (place ID), `!1s0x{hex}:0x{hex}` (feature ID).
+ */
+const DATA_PLACE_ID_PATTERN = /!19s([A-Za-z0-9_-]{16,})/
+const DATA_FEATURE_ID_PATTERN = /!1s0x[0-9a-f]+:0x[0-9a-f]+/i
+
+const SHORT_LINK_HOSTS = new Set(['maps.app.goo.gl', 'goo.gl'])
+
+/**
+ * Maximum number of short-link resolutions for a single input
+ * (a share link resolving to another share link).
+ */
+const MAX_RESOLUTIONS = 2
+
+function fail(code: GoogleReviewLinkErrorCode, message: string): GoogleReviewLinkResult {
+  return { ok: false, code, message }
+}
+
+function fromPlaceId(placeId: string): GoogleReviewLinkResult {
+  return {
+    ok: true,
+    url: `https://search.google.com/local/writereview?placeid=${encodeURIComponent(placeId)}`,
+    placeId,
+  }
+}
+
+function parseUrl(input: string): URL | null {
+  const trimmed = input.trim()
+  // Customers often paste links without the protocol
+  const withProtocol = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+  try {
+    return new URL(withProtocol)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * `data=` of a Maps URL: a path segment (`/maps/place/{name}/@…/data=!4m…`) or a query parameter.
+ */
+function mapsData(u: URL): string {
+  const segment = u.pathname.split('/').find((s) => s.startsWith('data='))
+  const raw = segment ? segment.slice('data='.length) : (u.searchParams.get('data') ?? '')
+  try {
+    return decodeURIComponent(raw)
+  } catch {
+    return raw
+  }
+}
+
+/**
+ * Finds a place ID in the query string (or the `data=` blob) of a Google / Maps URL.
+ */
+function findPlaceId(u: URL): string | null {
+  const candidates = [
+    u.searchParams.get('placeid'),
+    u.searchParams.get('place_id'),
+    u.searchParams.get('query_place_id'),
+    u.searchParams.get('destination_place_id'),
+  ]
+
+  // ?q=place_id:ChIJ...
+  const q = u.searchParams.get('q') ?? u.searchParams.get('query')
+  if (q?.startsWith('place_id:')) candidates.push(q.slice('place_id:'.length))
+
+  candidates.push(DATA_PLACE_ID_PATTERN.exec(mapsData(u))?.[1] ?? null)
+
+  for (const c of candidates) {
+    const value = c?.trim()
+    if (value && PLACE_ID_PATTERN.test(value)) return value
+  }
+
+  return null
+}
+
+/**
+ * Whether a Maps URL identifies the place by its feature ID (CID) only.
+ */
+function hasFeatureId(u: URL): boolean {
+  return Boolean(u.searchParams.get('cid') || u.searchParams.get('ftid') || DATA_FEATURE_ID_PATTERN.test(mapsData(u)))
+}
+
+function normalizeGPage(u: URL): GoogleReviewLinkResult {
+  const segments = u.pathname.split('/').filter(Boolean)
+
+  // /r/{id} or /r/{id}/review
+  if (segments[0] === 'r' && segments[1] && (segments.length === 2 || segments[2] === 'review')) {
+    return { ok: true, url: `https://g.page/r/${segments[1]}/review`, placeId: null }
+  }
+
+  // Legacy business short names: /{name} or /{name}/review
+  if (segments[0] && segments[0] !== 'r' && (segments.length === 1 || segments[1] === 'review')) {
+    return { ok: true, url: `https://g.page/${segments[0]}/review`, placeId: null }
+  }
+
+  return fail('MISSING_PLACE_ID', 'g.page link does not point to a business review page')
+}
+
+/**
+ * Synchronous normalization, without short-link resolution.
+ * Share links (maps.app.goo.gl) are rejected with `SHORT_LINK_UNRESOLVED`.
+ */
+export function normalizeGoogleReviewLinkSync(input: string | null | undefined): GoogleReviewLinkResult {
+  if (!input || !String(input).trim()) {
+    return fail('EMPTY', 'No URL provided')
+  }
+
+  const u = parseUrl(String(input))
+  if (!u) return fail('INVALID_URL', 'Not a valid URL')
+
+  if (u.protocol !== 'https:' && u.protocol !== 'http:') {
+    return fail('UNSUPPORTED_PROTOCOL', `Unsupported protocol: ${u.protocol}`)
+  }
+
+  const host = u.hostname.toLowerCase()
+
+  if (host === 'g.page') return normalizeGPage(u)
+
+  if (SHORT_LINK_HOSTS.has(host)) {
+    return fail('SHORT_LINK_UNRESOLVED', 'Share links must be resolved before normalization')
+  }
+
+  if (host === 'search.google.com') {
+    if (!u.pathname.startsWith('/local/')) {
+      return fail('MISSING_PLACE_ID', 'search.google.com link is not a review link')
+    }
+    const placeId = findPlaceId(u)
+    return placeId ? fromPlaceId(placeId) : fail('MISSING_PLACE_ID', 'Review link without a valid placeid')
+  }
+
+  if (GOOGLE_HOST_PATTERN.test(host)) {
+    const isMaps = host.startsWith('maps.') || u.pathname.startsWith('/maps')
+    if (!isMaps) return fail('UNSUPPORTED_HOST', 'Google URL is not a Maps or review link')
+
+    const placeId = findPlaceId(u)
+    if (placeId) return fromPlaceId(placeId)
+
+    if (hasFeatureId(u)) {
+      return fail(
+        'FEATURE_ID_ONLY',
+        'Maps link without a place ID (use the "Ask for reviews" link of the Google Business Profile)',
+      )
+    }
+    return fail('MISSING_PLACE_ID', 'Maps URL without a place ID (use the "Ask for reviews" link)')
+  }
+
+  return fail('UNSUPPORTED_HOST', `Unsupported host: ${host}`)
+}
+
+/**
+ * Default resolver: follows HTTP redirects manually (HEAD, at most 5 hops)
+ * and returns the first URL that is no longer a share link.
+ *
+ * Network failures and 5xx responses throw `ShortLinkResolutionError`;
+ * any other response without a redirect means the link leads nowhere.
+ */
+export const fetchShortLinkResolver: ShortLinkResolver = async (url) => {
+  let current = url
+
+  for (let hop = 0; hop < 5; hop++) {
+    let res: Response
+    try {
+      res = await fetch(current, {
+        method: 'HEAD',
+        redirect: 'manual',
+        signal: AbortSignal.timeout(3000),
+      })
+    } catch (err) {
+      throw new ShortLinkResolutionError(`Share link resolution failed: ${current}`, { cause: err })
+    }
+    if (res.status >= 500) {
+      throw new ShortLinkResolutionError(`Share link resolution failed: HTTP ${res.status} on ${current}`)
+    }
+
+    const location = res.headers.get('location')
+    if (!location) return null
+
+    current = new URL(location, current).toString()
+    if (!SHORT_LINK_HOSTS.has(new URL(current).hostname.toLowerCase())) return current
+  }
+
+  return null
+}
+
+/**
+ * Full normalization, including share-link resolution.
+ *
+ * The resolver is injectable so callers (and tests) control network access.
+ * Its errors are rethrown, not reported as `SHORT_LINK_UNRESOLVED`: a network
+ * blip must not fail an order for good (the webhook worker retries thrown errors).
+ */
+export async function normalizeGoogleReviewLink(
+  input: string | null | undefined,
+  opts: { resolveShortLink?: ShortLinkResolver } = {},
+): Promise<GoogleReviewLinkResult> {
+  const resolve = opts.resolveShortLink ?? fetchShortLinkResolver
+
+  let current = input
+  for (let i = 0; i <= MAX_RESOLUTIONS; i++) {
+    const result = normalizeGoogleReviewLinkSync(current)
+    if (result.ok || result.code !== 'SHORT_LINK_UNRESOLVED') return result
+    if (i === MAX_RESOLUTIONS) break
+
+    const resolved = await resolve(parseUrl(String(current))!.toString())
+    if (!resolved) {
+      return fail('SHORT_LINK_UNRESOLVED', 'Unable to resolve the share link')
+    }
+
+    current = resolved
+  }
+
+  return fail('SHORT_LINK_UNRESOLVED', 'Too many share-link redirections')
+}
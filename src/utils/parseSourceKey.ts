@@ -0,0 +1,42 @@
+/**
+ * Parses a plate `sourceKey` back into its components.
+ *
+ * Format (see DEC-004 and DEC-024):
+ * sourceKey = `${orderNumber}|${lineItemId}|${index}`
+ * replacement = `${orderNumber}|${lineItemId}|${index}|r${n}` (n-th replacement of that unit)
+ *
+ * `replacement` is 0 for the plate created from the order.
+ *
+ * Returns null for malformed keys (e.g. plates created manually
+ * with a non-standard key) so callers can skip them explicitly.
+ */
+export function parseSourceKey(
+  sourceKey: string | null | undefined,
+): { orderNumber: string; lineItemId: string; index: number; replacement: number } | null {
+  const parts = String(sourceKey ?? '').split('|')
+  if (parts.length !== 3 && parts.length !== 4) return null
+
+  const [orderNumber, lineItemId, indexRaw, replacementRaw] = parts
+  const index = Number(indexRaw)
+
+  if (!orderNumber || !lineItemId || !Number.isInteger(index) || index < 0) return null
+
+  let replacement = 0
+  if (replacementRaw !== undefined) {
+    const match = /^r([1-9]\d*)$/.exec(replacementRaw)
+    if (!match) return null
+    replacement = Number(match[1])
+  }
+
+  return { orderNumber, lineItemId, index, replacement }
+}
+
+/**
+ * `sourceKey` of the n-th replacement of a unit (n >= 1).
+ */
+export function replacementSourceKey(
+  key: { orderNumber: string; lineItemId: string; index: number },
+  replacement: number,
+): string {
+  return `${key.orderNumber}|${key.lineItemId}|${key.index}|r${replacement}`
+}
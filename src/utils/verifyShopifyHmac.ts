@@ -1,20 +1,33 @@
 import crypto from 'crypto'
 
+/**
+ * Computes the `x-shopify-hmac-sha256` value Shopify would send for this body.
+ */
+export function computeShopifyHmac(rawBody: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest('base64')
+}
+
 /**
  * Verifies the authenticity of a Shopify webhook using HMAC SHA-256.
  *
  * Shopify signs the RAW request body with a shared secret.
  * We recompute the signature and compare it using a timing-safe check.
+ *
+ * `secret` defaults to `SHOPIFY_WEBHOOK_SECRET` (legacy single-shop setup);
+ * multi-shop deliveries pass the secret of the matching `shops` record.
  */
-export function checkShopifySignature(rawBody: string, hmacHeader: string | null): boolean {
+export function checkShopifySignature(
+  rawBody: string,
+  hmacHeader: string | null,
+  secret: string | null | undefined = process.env.SHOPIFY_WEBHOOK_SECRET,
+): boolean {
   if (!hmacHeader) return false
 
-  const secret = process.env.SHOPIFY_WEBHOOK_SECRET
   if (!secret) {
     throw new Error('SHOPIFY_WEBHOOK_SECRET missing')
   }
 
-  const digest = crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest('base64')
+  const digest = computeShopifyHmac(rawBody, secret)
 
   const a = Buffer.from(digest)
   const b = Buffer.from(hmacHeader)
@@ -0,0 +1,132 @@
+import type { DestinationType } from '../../destinations/destinationTypes'
+
+/**
+ * Minimal Shopify-like payloads for local development and staging.
+ *
+ * Only the fields read by the topic handlers are included. The same
+ * `orderNumber` / `lineItemId` can be reused across topics to pay, edit,
+ * refund and cancel one test order (`--quantity` on `orders/updated`
+ * simulates a quantity change, `--destination` picks the line item properties).
+ */
+
+export type SamplePayloadOptions = {
+  orderNumber: string
+  lineItemId?: string
+  quantity?: number
+  email?: string
+  reviewUrl?: string
+  destinationType?: DestinationType
+}
+
+const DEFAULT_REVIEW_URL = 'https://g.page/r/CdevSampleReview0/review'
+
+/**
+ * Line item properties per destination type, as a product form would send them.
+ */
+const SAMPLE_DESTINATION_PROPERTIES: Record<
+  Exclude<DestinationType, 'google_review'>,
+  Array<{ name: string; value: string }>
+> = {
+  tripadvisor: [
+    { name: 'destination_type', value: 'tripadvisor' },
+    {
+      name: 'tripadvisor_url',
+      value: 'https://www.tripadvisor.fr/Restaurant_Review-g187147-d1234567-Reviews-Dev_Sample.html',
+    },
+  ],
+  trustpilot: [
+    { name: 'destination_type', value: 'trustpilot' },
+    { name: 'trustpilot_url', value: 'https://fr.trustpilot.com/review/example.com' },
+  ],
+  instagram: [
+    { name: 'destination_type', value: 'instagram' },
+    { name: 'instagram', value: '@dev.sample' },
+  ],
+  menu: [
+    { name: 'destination_type', value: 'menu' },
+    { name: 'menu_url', value: 'https://example.com/menu.pdf' },
+  ],
+  wifi: [
+    { name: 'destination_type', value: 'wifi' },
+    { name: 'wifi_ssid', value: 'Dev Sample Guests' },
+    { name: '_wifi_password', value: 'dev-sample-password' },
+    { name: 'wifi_security', value: 'WPA' },
+  ],
+}
+
+function sampleProperties(opts: SamplePayloadOptions) {
+  if (opts.destinationType && opts.destinationType !== 'google_review') {
+    return SAMPLE_DESTINATION_PROPERTIES[opts.destinationType]
+  }
+  return [{ name: 'google_business_url', value: opts.reviewUrl ?? DEFAULT_REVIEW_URL }]
+}
+
+function sampleLineItem(opts: SamplePayloadOptions) {
+  const quantity = opts.quantity ?? 1
+  return {
+    id: Number(opts.lineItemId ?? `${opts.orderNumber}01`),
+    quantity,
+    sku: 'NFC-PACK-1',
+    variant_id: null,
+    variant_title: 'Blanc / 1 Plaque',
+    name: 'Plaque NFC Google - Blanc / 1 Plaque',
+    properties: sampleProperties(opts),
+  }
+}
+
+export function buildSampleWebhookPayload(topic: string, opts: SamplePayloadOptions): Record<string, unknown> {
+  const lineItem = sampleLineItem(opts)
+
+  switch (topic) {
+    case 'orders/paid':
+      return {
+        id: Number(`9${opts.orderNumber}`),
+        order_number: Number(opts.orderNumber),
+        name: `#${opts.orderNumber}`,
+        email: opts.email ?? 'dev-customer@example.com',
+        financial_status: 'paid',
+        line_items: [lineItem],
+      }
+
+    case 'orders/updated':
+      return {
+        id: Number(`9${opts.orderNumber}`),
+        order_number: Number(opts.orderNumber),
+        name: `#${opts.orderNumber}`,
+        email: opts.email ?? 'dev-customer@example.com',
+        financial_status: 'paid',
+        updated_at: new Date().toISOString(),
+        line_items: [{ ...lineItem, current_quantity: lineItem.quantity }],
+      }
+
+    case 'orders/edited':
+      return {
+        order_edit: {
+          id: Number(`7${opts.orderNumber}`),
+          order_id: Number(`9${opts.orderNumber}`),
+          created_at: new Date().toISOString(),
+          line_items: { additions: [{ id: lineItem.id, delta: lineItem.quantity }], removals: [] },
+        },
+      }
+
+    case 'orders/cancelled':
+      return {
+        id: Number(`9${opts.orderNumber}`),
+        order_number: Number(opts.orderNumber),
+        name: `#${opts.orderNumber}`,
+        cancel_reason: 'customer',
+        cancelled_at: new Date().toISOString(),
+        line_items: [lineItem],
+      }
+
+    case 'refunds/create':
+      return {
+        id: Number(`8${opts.orderNumber}`),
+        order_id: Number(`9${opts.orderNumber}`),
+        refund_line_items: [{ line_item_id: lineItem.id, quantity: lineItem.quantity, line_item: lineItem }],
+      }
+
+    default:
+      throw new Error(`No sample payload for topic ${topic}`)
+  }
+}
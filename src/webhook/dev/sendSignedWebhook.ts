@@ -0,0 +1,119 @@
+import crypto from 'crypto'
+import fs from 'fs'
+
+import { toDestinationType, type DestinationType } from '../../destinations/destinationTypes'
+import { computeShopifyHmac } from '../../utils/verifyShopifyHmac'
+import { buildSampleWebhookPayload } from './sampleWebhookPayloads'
+
+/**
+ * Sends a correctly signed Shopify webhook to a local or staging instance,
+ * so signature verification never needs to be turned off.
+ *
+ *   npx tsx src/webhook/dev/sendSignedWebhook.ts <topic> [--file payload.json] [--order 1001] [--quantity 2] [--destination wifi]
+ *
+ * Environment:
+ * - WEBHOOK_DEV_URL: target endpoint (default http://localhost:3000/api/shopify/webhook)
+ * - SHOPIFY_WEBHOOK_DEV_SECRET: signing secret (default SHOPIFY_WEBHOOK_SECRET),
+ *   must be one of the target shop's active secrets
+ * - SHOPIFY_DEV_SHOP_DOMAIN: sent as `x-shopify-shop-domain` (optional)
+ *
+ * Without `--file`, a sample payload is built (see `sampleWebhookPayloads.ts`).
+ * Each run uses a new `x-shopify-webhook-id`; pass `--webhook-id` to test replays.
+ *
+ * Refuses to run with NODE_ENV=production: dev secrets must never sign real traffic.
+ */
+
+type CliArgs = {
+  topic: string
+  file?: string
+  order?: string
+  quantity?: number
+  destinationType?: DestinationType
+  webhookId?: string
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const [topic, ...rest] = argv
+  if (!topic || topic.startsWith('--')) {
+    throw new Error(
+      'Usage: sendSignedWebhook.ts <topic> [--file payload.json] [--order 1001] [--quantity 2] [--destination type] [--webhook-id id]',
+    )
+  }
+
+  const args: CliArgs = { topic }
+  for (let i = 0; i < rest.length; i += 2) {
+    const value = rest[i + 1]
+    switch (rest[i]) {
+      case '--file':
+        args.file = value
+        break
+      case '--order':
+        args.order = value
+        break
+      case '--quantity':
+        args.quantity = Number(value)
+        break
+      case '--destination': {
+        const destinationType = toDestinationType(value)
+        if (!destinationType) throw new Error(`Unknown destination type ${value}`)
+        args.destinationType = destinationType
+        break
+      }
+      case '--webhook-id':
+        args.webhookId = value
+        break
+      default:
+        throw new Error(`Unknown option ${rest[i]}`)
+    }
+  }
+  return args
+}
+
+export async function sendSignedWebhook(args: CliArgs): Promise<{ status: number; webhookId: string }> {
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('sendSignedWebhook is a development tool: refusing to run with NODE_ENV=production')
+  }
+
+  const secret = process.env.SHOPIFY_WEBHOOK_DEV_SECRET || process.env.SHOPIFY_WEBHOOK_SECRET
+  if (!secret) {
+    throw new Error('Set SHOPIFY_WEBHOOK_DEV_SECRET (or SHOPIFY_WEBHOOK_SECRET) to sign the payload')
+  }
+
+  const url = process.env.WEBHOOK_DEV_URL || 'http://localhost:3000/api/shopify/webhook'
+  const rawBody = args.file
+    ? fs.readFileSync(args.file, 'utf8')
+    : JSON.stringify(
+        buildSampleWebhookPayload(args.topic, {
+          orderNumber: args.order ?? String(Date.now()).slice(-6),
+          quantity: args.quantity,
+          destinationType: args.destinationType,
+        }),
+      )
+
+  const webhookId = args.webhookId ?? crypto.randomUUID()
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'x-shopify-topic': args.topic,
+    'x-shopify-webhook-id': webhookId,
+    'x-shopify-hmac-sha256': computeShopifyHmac(rawBody, secret),
+  }
+  if (process.env.SHOPIFY_DEV_SHOP_DOMAIN) {
+    headers['x-shopify-shop-domain'] = process.env.SHOPIFY_DEV_SHOP_DOMAIN
+  }
+
+  const res = await fetch(url, { method: 'POST', headers, body: rawBody })
+  return { status: res.status, webhookId }
+}
+
+// `npx tsx src/webhook/dev/sendSignedWebhook.ts orders/paid`
+if (process.argv[1]?.endsWith('sendSignedWebhook.ts')) {
+  sendSignedWebhook(parseArgs(process.argv.slice(2)))
+    .then(({ status, webhookId }) => {
+      console.log(`HTTP ${status} (x-shopify-webhook-id: ${webhookId})`)
+      process.exitCode = status === 200 ? 0 : 1
+    })
+    .catch((err) => {
+      console.error(err?.message ?? err)
+      process.exitCode = 1
+    })
+}
@@ -0,0 +1,84 @@
+import type { Payload } from 'payload'
+
+import { getShopId } from '../shops/resolveShop'
+import type { WebhookErrorCode } from './pipeline/errorCodes'
+
+/**
+ * Failed `webhook-events` sharing an error code, with the orders they concern.
+ */
+export type WebhookFailureGroup = {
+  /** null for events that failed before error codes existed. */
+  errorCode: WebhookErrorCode | null
+  count: number
+  lastFailedAt: string | null
+  topics: string[]
+  /** Detail of the most recent failure. */
+  latestError: string | null
+  /** Affected orders that exist on our side (failures before the order was created have none). */
+  orders: Array<{ id: string | number; orderNumber: string }>
+  /** Order numbers without an order document. */
+  unknownOrderNumbers: string[]
+  eventIds: Array<string | number>
+}
+
+const MAX_EVENT_IDS_PER_GROUP = 100
+
+/**
+ * Groups failed events by `errorCode`, most frequent code first.
+ *
+ * Shared by the failure alerts and the admin failure view. Order numbers are
+ * only unique per shop, so orders are matched on shop + order number.
+ */
+export async function groupWebhookFailures(payload: Payload, events: any[]): Promise<WebhookFailureGroup[]> {
+  const orderKey = (shop: unknown, orderNumber: unknown) => `${getShopId(shop) ?? ''}|${orderNumber}`
+
+  const orderNumbers = [...new Set(events.map((e) => e.orderNumber).filter(Boolean).map(String))]
+  const orders = orderNumbers.length
+    ? await payload.find({
+        collection: 'orders',
+        where: { orderNumber: { in: orderNumbers } },
+        select: { orderNumber: true, shop: true },
+        pagination: false,
+        depth: 0,
+        overrideAccess: true,
+      })
+    : { docs: [] }
+  const orderIds = new Map(orders.docs.map((o: any) => [orderKey(o.shop, o.orderNumber), o.id]))
+
+  const groups = new Map<string, WebhookFailureGroup>()
+  const seenOrders = new Set<string>()
+
+  // Newest first: the first event of a group gives its latest failure (`failedAt` is missing on older events)
+  const failedAt = (e: any): string => e.failedAt ?? e.updatedAt ?? ''
+  const sorted = [...events].sort((a, b) => failedAt(b).localeCompare(failedAt(a)))
+
+  for (const event of sorted) {
+    const code = event.errorCode ?? null
+    const group: WebhookFailureGroup = groups.get(String(code)) ?? {
+      errorCode: code,
+      count: 0,
+      lastFailedAt: failedAt(event) || null,
+      topics: [],
+      latestError: event.error ?? null,
+      orders: [],
+      unknownOrderNumbers: [],
+      eventIds: [],
+    }
+    groups.set(String(code), group)
+
+    group.count++
+    if (!group.topics.includes(event.topic)) group.topics.push(event.topic)
+    if (group.eventIds.length < MAX_EVENT_IDS_PER_GROUP) group.eventIds.push(event.id)
+
+    if (!event.orderNumber) continue
+    const key = orderKey(event.shop, event.orderNumber)
+    if (seenOrders.has(`${code}|${key}`)) continue
+    seenOrders.add(`${code}|${key}`)
+
+    const id = orderIds.get(key)
+    if (id !== undefined) group.orders.push({ id, orderNumber: String(event.orderNumber) })
+    else group.unknownOrderNumbers.push(String(event.orderNumber))
+  }
+
+  return [...groups.values()].sort((a, b) => b.count - a.count)
+}
@@ -0,0 +1,11 @@
+import { createShopifyWebhookEndpoint } from './pipeline/createShopifyWebhookEndpoint'
+
+/**
+ * Shopify Webhook — orders/cancelled
+ *
+ * Kept on its historical path for existing Shopify subscriptions.
+ */
+export const shopifyOrdersCancelledWebhook = createShopifyWebhookEndpoint({
+  path: '/shopify/webhook/orders-cancelled',
+  topics: ['orders/cancelled'],
+})
@@ -0,0 +1,169 @@
+import type { Endpoint } from 'payload'
+
+import { resolveShopByDomain } from '../../shops/resolveShop'
+import { getActiveWebhookSecrets, matchWebhookSecret } from '../../shops/webhookSecrets'
+import { getShopifyHeader } from '../../utils/getShopifyHeader'
+import { isDuplicateKeyError } from '../../utils/isDuplicateKeyError'
+import { encodeRawBody } from './rawBodyCodec'
+import { assertSignatureBypassAllowed, isSignatureBypassEnabled } from './signatureBypass'
+
+/**
+ * Builds a Shopify webhook endpoint accepting the given topics.
+ *
+ * IMPORTANT CONSTRAINTS:
+ * - Shopify webhooks can be retried multiple times.
+ * - Shopify only cares about the HTTP status code (2xx = success).
+ * - Shopify times out after 5 seconds and then retries.
+ *
+ * The endpoint only owns the shared gates, ONCE:
+ * 1. Topic gate (only the configured topics are accepted)
+ * 2. webhookId gate (anti-replay requires it)
+ * 3. Shop resolution from `x-shopify-shop-domain` (multi-shop)
+ * 4. HMAC verification on the raw body, with the shop's active secrets
+ *    (several during a rotation; the matching one is recorded)
+ * 5. `webhook-events` creation with the verified raw body
+ *    (unique shop + webhookId → duplicates return 200)
+ *
+ * Then it answers 200 immediately. Business logic runs asynchronously in the
+ * webhook events worker (`startWebhookEventsWorker`), which dispatches each
+ * event to its topic handler. A slow database or a large order can no longer
+ * make Shopify time out and retry.
+ *
+ * Building an endpoint fails when the signature bypass is set in production,
+ * so a misconfigured deployment refuses to start.
+ */
+export function createShopifyWebhookEndpoint(config: { path: string; topics: string[] }): Endpoint {
+  const { path, topics } = config
+
+  assertSignatureBypassAllowed()
+
+  return {
+    path,
+    method: 'post',
+
+    handler: async (req) => {
+      // Mark this request as internal (trusted backend process)
+      ;(req as any).isInternal = true
+      const webReq = req as unknown as Request
+
+      /**
+       * We must read the RAW body as text.
+       * Shopify HMAC verification depends on the exact raw payload
+       * (any JSON parsing or mutation would invalidate the signature).
+       */
+      const rawBody = await webReq.text()
+
+      const topic = getShopifyHeader(req, 'x-shopify-topic')
+      const webhookId = getShopifyHeader(req, 'x-shopify-webhook-id')
+      const hmac = getShopifyHeader(req, 'x-shopify-hmac-sha256')
+      const shopDomain = getShopifyHeader(req, 'x-shopify-shop-domain')
+
+      /* ---------------------------------------------------------------- */
+      /* 1) SECURITY & VALIDATION GATES                                    */
+      /* ---------------------------------------------------------------- */
+
+      // Topic gate: only topics configured on this endpoint are accepted.
+      if (!topic || !topics.includes(topic)) {
+        return new Response(null, { status: 401 })
+      }
+
+      // webhookId is mandatory for anti-replay.
+      if (!webhookId) {
+        return new Response(null, { status: 401 })
+      }
+
+      /**
+       * Shop gate: the delivery must come from a known, active shop.
+       *
+       * Unknown domains are only accepted in the legacy single-shop setup
+       * (`SHOPIFY_WEBHOOK_SECRET` set): the event then has no shop.
+       */
+      let shop: Awaited<ReturnType<typeof resolveShopByDomain>>
+      try {
+        shop = await resolveShopByDomain(req.payload, shopDomain)
+      } catch {
+        return new Response(null, { status: 500 })
+      }
+
+      if (!shop && !process.env.SHOPIFY_WEBHOOK_SECRET) {
+        return new Response(null, { status: 401 })
+      }
+
+      /**
+       * HMAC verification: the request truly comes from Shopify (and from this shop).
+       *
+       * Every active (non-expired) secret is accepted, so rotating a secret
+       * never rejects valid deliveries signed with the other one.
+       *
+       * With the development bypass, deliveries failing verification are
+       * accepted anyway and flagged `unsigned`.
+       */
+      const bypass = isSignatureBypassEnabled()
+      const secrets = getActiveWebhookSecrets(shop)
+      let secretLabel: string | null = null
+
+      if (!secrets.length && !bypass) {
+        // Misconfiguration (no secret, or all of them expired): Shopify retries later
+        return new Response(null, { status: 500 })
+      }
+
+      try {
+        secretLabel = matchWebhookSecret(rawBody, hmac, secrets)
+      } catch {
+        // Crypto error
+        return new Response(null, { status: 500 })
+      }
+      if (!secretLabel && !bypass) {
+        return new Response(null, { status: 401 })
+      }
+
+      const unsigned = !secretLabel
+      if (unsigned) {
+        req.payload.logger?.warn?.(`Unsigned Shopify webhook accepted (signature bypass): ${topic} ${webhookId}`)
+      }
+
+      /* ---------------------------------------------------------------- */
+      /* 2) PERSIST (ANTI-REPLAY + DURABLE QUEUE)                          */
+      /* ---------------------------------------------------------------- */
+
+      /**
+       * The event is created with the verified raw body in a single write:
+       * once this insert succeeds, the delivery can no longer be lost,
+       * even if the process crashes right after answering Shopify.
+       *
+       * The body may be redacted / compressed for storage (see rawBodyCodec).
+       */
+      try {
+        await req.payload.create({
+          collection: 'webhook-events',
+          data: {
+            provider: 'shopify',
+            shop: shop?.id,
+            shopDomain: shopDomain ? shopDomain.toLowerCase() : undefined,
+            webhookId,
+            topic,
+            secretLabel: secretLabel ?? undefined,
+            unsigned,
+            status: 'received',
+            ...encodeRawBody(rawBody),
+            attempts: 0,
+            nextAttemptAt: new Date().toISOString(),
+          },
+        })
+      } catch (err: any) {
+        /**
+         * Duplicate (shopScope, webhookId) means Shopify retried an already
+         * received webhook. We MUST return 200 so Shopify stops retrying.
+         */
+        if (isDuplicateKeyError(err)) {
+          return new Response(null, { status: 200 })
+        }
+        return new Response(null, { status: 500 })
+      }
+
+      // Shopify only checks the HTTP status code.
+      // 200 tells Shopify the delivery is safely stored; processing is async.
+      return new Response(null, { status: 200 })
+    },
+  }
+}
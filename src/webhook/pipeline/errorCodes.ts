@@ -0,0 +1,78 @@
+/**
+ * Why a webhook event ended up `failed` (`webhook-events.errorCode`).
+ *
+ * Codes are what alerts and the admin failure view group by; `error` keeps
+ * the detail (which line item, which variant...).
+ *
+ * - UNKNOWN_TOPIC:           no handler registered for the topic
+ * - UNDECODABLE_BODY:        stored raw body could not be decoded
+ * - MISSING_BODY:            no stored raw body
+ * - INVALID_JSON:            raw body is not JSON
+ * - UNKNOWN_SHOP:            the event's shop no longer exists
+ * - MISSING_ORDER_DATA:      order number, customer email or order id missing from the payload
+ * - NO_DESTINATION:          no line item carries a plate destination
+ * - PACK_SIZE_UNKNOWN:       no pack mapping and no usable variant title
+ * - MISSING_LINE_ITEM_ID:    line item without id (no idempotency key possible)
+ * - INVALID_DESTINATION:     destination rejected by `normalizeDestination`
+ * - SHOPIFY_ORDER_NOT_FOUND: the Admin API does not know the edited order
+ * - RETRIES_EXHAUSTED:       transient errors until the worker gave up
+ */
+export const WEBHOOK_ERROR_CODES = [
+  'UNKNOWN_TOPIC',
+  'UNDECODABLE_BODY',
+  'MISSING_BODY',
+  'INVALID_JSON',
+  'UNKNOWN_SHOP',
+  'MISSING_ORDER_DATA',
+  'NO_DESTINATION',
+  'PACK_SIZE_UNKNOWN',
+  'MISSING_LINE_ITEM_ID',
+  'INVALID_DESTINATION',
+  'SHOPIFY_ORDER_NOT_FOUND',
+  'RETRIES_EXHAUSTED',
+] as const
+
+export type WebhookErrorCode = (typeof WEBHOOK_ERROR_CODES)[number]
+
+export const WEBHOOK_ERROR_CODE_LABELS: Record<WebhookErrorCode, { fr: string; en: string; de: string }> = {
+  UNKNOWN_TOPIC: { fr: 'Topic inconnu', en: 'Unknown topic', de: 'Unbekanntes Topic' },
+  UNDECODABLE_BODY: { fr: 'Corps illisible', en: 'Undecodable body', de: 'Nicht dekodierbarer Inhalt' },
+  MISSING_BODY: { fr: 'Corps manquant', en: 'Missing body', de: 'Fehlender Inhalt' },
+  INVALID_JSON: { fr: 'JSON invalide', en: 'Invalid JSON', de: 'Ungültiges JSON' },
+  UNKNOWN_SHOP: { fr: 'Boutique inconnue', en: 'Unknown shop', de: 'Unbekannter Shop' },
+  MISSING_ORDER_DATA: {
+    fr: 'Données de commande manquantes',
+    en: 'Missing order data',
+    de: 'Fehlende Bestelldaten',
+  },
+  NO_DESTINATION: { fr: 'Aucune destination', en: 'No destination', de: 'Kein Ziel' },
+  PACK_SIZE_UNKNOWN: {
+    fr: 'Taille de pack inconnue',
+    en: 'Unknown pack size',
+    de: 'Unbekannte Packungsgröße',
+  },
+  MISSING_LINE_ITEM_ID: {
+    fr: 'Ligne de commande sans id',
+    en: 'Line item without id',
+    de: 'Bestellposition ohne ID',
+  },
+  INVALID_DESTINATION: { fr: 'Destination invalide', en: 'Invalid destination', de: 'Ungültiges Ziel' },
+  SHOPIFY_ORDER_NOT_FOUND: {
+    fr: 'Commande introuvable sur Shopify',
+    en: 'Order not found on Shopify',
+    de: 'Bestellung in Shopify nicht gefunden',
+  },
+  RETRIES_EXHAUSTED: {
+    fr: 'Tentatives épuisées',
+    en: 'Retries exhausted',
+    de: 'Wiederholungen ausgeschöpft',
+  },
+}
+
+/**
+ * Options for `select` fields storing an error code.
+ */
+export const WEBHOOK_ERROR_CODE_OPTIONS = WEBHOOK_ERROR_CODES.map((code) => ({
+  label: WEBHOOK_ERROR_CODE_LABELS[code],
+  value: code,
+}))
@@ -0,0 +1,64 @@
+import type { Payload } from 'payload'
+
+import { findShopById, getShopId } from '../../shops/resolveShop'
+import { shopifyTopicHandlers } from '../topics'
+import { decodeRawBody, type RawBodyEncoding } from './rawBodyCodec'
+import type { ShopifyTopicResult } from './types'
+
+/**
+ * Runs the business logic of one stored webhook event.
+ *
+ * - Decodes and parses the stored raw body (already verified by the endpoint)
+ * - Loads the shop the event belongs to (if any)
+ * - Dispatches to the topic handler registered in `shopifyTopicHandlers`
+ *
+ * Permanent errors (invalid JSON, unknown topic, business errors) are returned
+ * as `failed` results. Transient errors are thrown, so the caller can retry.
+ */
+export async function processWebhookEvent(
+  payload: Payload,
+  event: {
+    topic: string
+    webhookId: string
+    shop?: unknown
+    rawBody?: string | null
+    rawBodyEncoding?: RawBodyEncoding | null
+  },
+): Promise<ShopifyTopicResult> {
+  const topicHandler = shopifyTopicHandlers[event.topic]
+  if (!topicHandler) {
+    return { status: 'failed', errorCode: 'UNKNOWN_TOPIC', error: `No handler registered for topic ${event.topic}` }
+  }
+
+  let rawBody: string | null
+  try {
+    rawBody = decodeRawBody(event)
+  } catch {
+    return { status: 'failed', errorCode: 'UNDECODABLE_BODY', error: 'Unable to decode stored raw body' }
+  }
+
+  if (!rawBody) {
+    return { status: 'failed', errorCode: 'MISSING_BODY', error: 'Missing raw body' }
+  }
+
+  let body: any
+  try {
+    body = JSON.parse(rawBody)
+  } catch {
+    return { status: 'failed', errorCode: 'INVALID_JSON', error: 'Invalid JSON body' }
+  }
+
+  const shopId = getShopId(event.shop)
+  const shop = shopId === null ? null : await findShopById(payload, shopId)
+  if (shopId !== null && !shop) {
+    return { status: 'failed', errorCode: 'UNKNOWN_SHOP', error: `Shop ${shopId} not found` }
+  }
+
+  return topicHandler({
+    payload,
+    topic: event.topic,
+    webhookId: event.webhookId,
+    body,
+    shop,
+  })
+}
@@ -0,0 +1,97 @@
+import zlib from 'zlib'
+
+/**
+ * Storage codec for the raw webhook bodies kept on `webhook-events`.
+ *
+ * Two optional transformations, both applied AFTER HMAC verification
+ * (the stored body is never used to verify a signature again):
+ *
+ * - Redaction (`WEBHOOK_EVENTS_BODY_REDACT=true`):
+ *   removes personal data that plate generation never needs
+ *   (addresses, phone numbers, names, client IP...).
+ *   The customer email is kept: it is required to create the order.
+ *
+ * - Compression (`WEBHOOK_EVENTS_BODY_COMPRESS=true`):
+ *   gzip + base64. Shopify order payloads are verbose JSON and compress ~10×.
+ */
+
+export type RawBodyEncoding = 'plain' | 'gzip-base64'
+
+/**
+ * Keys removed at any depth of the payload when redaction is enabled.
+ */
+const REDACTED_KEYS = new Set([
+  'billing_address',
+  'shipping_address',
+  'default_address',
+  'addresses',
+  'client_details',
+  'browser_ip',
+  'phone',
+  'first_name',
+  'last_name',
+  'payment_details',
+])
+
+function redact(value: any): any {
+  if (Array.isArray(value)) return value.map(redact)
+  if (!value || typeof value !== 'object') return value
+
+  const out: Record<string, any> = {}
+  for (const [key, v] of Object.entries(value)) {
+    if (REDACTED_KEYS.has(key)) continue
+    out[key] = redact(v)
+  }
+  return out
+}
+
+/**
+ * Prepares a verified raw body for storage.
+ *
+ * Invalid JSON is stored unredacted on purpose: it will fail processing
+ * anyway, and support needs the exact bytes to understand why.
+ */
+export function encodeRawBody(rawBody: string): {
+  rawBody: string
+  rawBodyEncoding: RawBodyEncoding
+  rawBodyRedacted: boolean
+} {
+  let body = rawBody
+  let redacted = false
+
+  if (process.env.WEBHOOK_EVENTS_BODY_REDACT === 'true') {
+    try {
+      body = JSON.stringify(redact(JSON.parse(rawBody)))
+      redacted = true
+    } catch {
+      // Not JSON → keep as-is (see above)
+    }
+  }
+
+  if (process.env.WEBHOOK_EVENTS_BODY_COMPRESS === 'true') {
+    return {
+      rawBody: zlib.gzipSync(Buffer.from(body, 'utf8')).toString('base64'),
+      rawBodyEncoding: 'gzip-base64',
+      rawBodyRedacted: redacted,
+    }
+  }
+
+  return { rawBody: body, rawBodyEncoding: 'plain', rawBodyRedacted: redacted }
+}
+
+/**
+ * Restores the stored body as JSON text, whatever its encoding.
+ * Events stored before the encoding field existed are plain text.
+ */
+export function decodeRawBody(event: {
+  rawBody?: string | null
+  rawBodyEncoding?: RawBodyEncoding | null
+}): string | null {
+  if (!event.rawBody) return null
+
+  if (event.rawBodyEncoding === 'gzip-base64') {
+    return zlib.gunzipSync(Buffer.from(event.rawBody, 'base64')).toString('utf8')
+  }
+
+  return event.rawBody
+}
@@ -0,0 +1,25 @@
+/**
+ * `SHOPIFY_WEBHOOK_VERIFY_SIGNATURE=false` lets unsigned deliveries through.
+ *
+ * Development only:
+ * - It is ignored (and refused at boot) when `NODE_ENV=production`
+ * - Signed requests are still verified; only unsigned / invalid ones are let through,
+ *   and flagged `unsigned` on their `webhook-events` record
+ *
+ * Prefer signing test payloads instead (`src/webhook/dev/sendSignedWebhook.ts`).
+ */
+export function isSignatureBypassEnabled(): boolean {
+  return process.env.SHOPIFY_WEBHOOK_VERIFY_SIGNATURE === 'false' && process.env.NODE_ENV !== 'production'
+}
+
+/**
+ * Throws when the bypass is requested in production, so the app refuses to start
+ * instead of silently accepting forged orders.
+ */
+export function assertSignatureBypassAllowed(): void {
+  if (process.env.SHOPIFY_WEBHOOK_VERIFY_SIGNATURE === 'false' && process.env.NODE_ENV === 'production') {
+    throw new Error(
+      'SHOPIFY_WEBHOOK_VERIFY_SIGNATURE=false is not allowed in production: webhook signatures must be verified.',
+    )
+  }
+}
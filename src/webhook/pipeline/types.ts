@@ -0,0 +1,61 @@
+import type { Payload } from 'payload'
+
+import type { ShopContext } from '../../shops/resolveShop'
+import type { WebhookErrorCode } from './errorCodes'
+
+/**
+ * Everything a topic handler needs, and nothing more.
+ *
+ * By the time a handler runs:
+ * - the endpoint has checked the topic and the webhookId
+ * - the endpoint has verified the HMAC signature on the raw body
+ * - the endpoint has persisted the `webhook-events` record (anti-replay)
+ * - the worker has claimed the event and parsed the JSON body
+ *
+ * `shop` is the shop that sent the delivery, or null for events received
+ * in the legacy single-shop setup. Handlers MUST scope every lookup with it
+ * (see `shopFilter`): order numbers are only unique within a shop.
+ */
+export type ShopifyTopicContext = {
+  payload: Payload
+  topic: string
+  webhookId: string
+  body: any
+  shop: ShopContext | null
+}
+
+/**
+ * Outcome of a topic handler, written as-is on the `webhook-events` record.
+ *
+ * - processed: business logic completed (possibly with nothing to do)
+ * - failed:    permanent business error (DEC-006), Shopify must NOT retry;
+ *              `errorCode` classifies it, `error` gives the detail
+ *
+ * Transient errors (database down, etc.) are NOT results: handlers simply
+ * throw, and the worker retries the event with exponential backoff.
+ *
+ * Handlers may run more than once for the same event (retry after a crash),
+ * so they MUST stay idempotent.
+ */
+export type ShopifyTopicResult =
+  | {
+      status: 'processed'
+      orderNumber?: string | null
+      createdPlatesCount?: number
+      disabledPlatesCount?: number
+      updatedPlatesCount?: number
+      flaggedPlatesCount?: number
+    }
+  | {
+      status: 'failed'
+      errorCode: WebhookErrorCode
+      error: string
+      orderNumber?: string | null
+    }
+
+export type ShopifyTopicHandler = (ctx: ShopifyTopicContext) => Promise<ShopifyTopicResult>
+
+/**
+ * Topic → handler registry, e.g. `{ 'orders/paid': handleOrdersPaid }`.
+ */
+export type ShopifyTopicHandlers = Record<string, ShopifyTopicHandler>
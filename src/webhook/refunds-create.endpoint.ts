@@ -0,0 +1,11 @@
+import { createShopifyWebhookEndpoint } from './pipeline/createShopifyWebhookEndpoint'
+
+/**
+ * Shopify Webhook — refunds/create
+ *
+ * Kept on its historical path for existing Shopify subscriptions.
+ */
+export const shopifyRefundsCreateWebhook = createShopifyWebhookEndpoint({
+  path: '/shopify/webhook/refunds-create',
+  topics: ['refunds/create'],
+})
@@ -0,0 +1,89 @@
+import type { Endpoint } from 'payload'
+
+import { isAdmin } from '../payload/access'
+
+/**
+ * Admin action — POST /api/webhook-events/:id/reprocess
+ *
+ * Puts a `failed` webhook event back in the queue so the worker processes
+ * its stored raw body again, through the exact same topic handler.
+ *
+ * Why this is safe:
+ * - Orders are upserted by shop + `orderNumber`
+ * - Plates are created "if missing" by deterministic shop + `sourceKey`
+ * So reprocessing after a fix (variant name, pack mapping, review URL)
+ * only creates what is missing, never duplicates.
+ *
+ * Admin only (shop admins: events of their shops). Only `failed` events can be reprocessed: `processed` ones
+ * have nothing left to do, and `received` / `processing` ones are already queued.
+ */
+export const reprocessWebhookEventEndpoint: Endpoint = {
+  path: '/:id/reprocess',
+  method: 'post',
+
+  handler: async (req) => {
+    if (!isAdmin(req)) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const id = String(req.routeParams?.id ?? '')
+
+    let event: any
+    try {
+      // Access rules apply: a shop admin cannot reach another shop's event
+      event = await req.payload.findByID({
+        collection: 'webhook-events',
+        id,
+        depth: 0,
+        overrideAccess: false,
+        user: req.user,
+      })
+    } catch {
+      event = null
+    }
+    if (!event) {
+      return Response.json({ error: 'Webhook event not found' }, { status: 404 })
+    }
+
+    if (!event.rawBody) {
+      return Response.json(
+        { error: 'No stored raw body for this event (received before payloads were stored)' },
+        { status: 409 },
+      )
+    }
+
+    /**
+     * Conditional update: two admins clicking at the same time
+     * must not queue the event twice.
+     */
+    const res = await req.payload.update({
+      collection: 'webhook-events',
+      where: {
+        and: [{ id: { equals: event.id } }, { status: { equals: 'failed' } }],
+      },
+      data: {
+        status: 'received',
+        attempts: 0,
+        nextAttemptAt: new Date().toISOString(),
+        lockedAt: null,
+        error: null,
+        errorCode: null,
+        failedAt: null,
+        alertedAt: null,
+        reprocessCount: (event.reprocessCount ?? 0) + 1,
+        lastReprocessedAt: new Date().toISOString(),
+        lastReprocessedBy: String(req.user?.email ?? req.user?.id),
+      },
+      overrideAccess: true,
+    })
+
+    if (!res.docs.length) {
+      return Response.json(
+        { error: `Only failed events can be reprocessed (current status: ${event.status})` },
+        { status: 409 },
+      )
+    }
+
+    return Response.json({ id: event.id, status: 'received' })
+  },
+}
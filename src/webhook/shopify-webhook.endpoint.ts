@@ -0,0 +1,14 @@
+import { createShopifyWebhookEndpoint } from './pipeline/createShopifyWebhookEndpoint'
+import { shopifyTopicHandlers } from './topics'
+
+/**
+ * Shopify Webhook — single entry point for every supported topic.
+ *
+ * The `x-shopify-topic` header selects the handler; unknown topics are
+ * rejected by the pipeline topic gate. New subscriptions should target
+ * this path rather than adding a per-topic endpoint.
+ */
+export const shopifyWebhook = createShopifyWebhookEndpoint({
+  path: '/shopify/webhook',
+  topics: Object.keys(shopifyTopicHandlers),
+})
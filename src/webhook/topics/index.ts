@@ -0,0 +1,22 @@
+import type { ShopifyTopicHandlers } from '../pipeline/types'
+import { handleOrdersCancelled } from './orders-cancelled'
+import { handleOrdersEdited } from './orders-edited'
+import { handleOrdersPaid } from './orders-paid'
+import { handleOrdersUpdated } from './orders-updated'
+import { handleRefundsCreate } from './refunds-create'
+
+/**
+ * Every Shopify topic supported by the backend.
+ *
+ * To support a new topic:
+ * 1. Write a `ShopifyTopicHandler` in this folder
+ * 2. Register it here
+ * 3. Subscribe the topic in Shopify to `/shopify/webhook`
+ */
+export const shopifyTopicHandlers: ShopifyTopicHandlers = {
+  'orders/paid': handleOrdersPaid,
+  'orders/cancelled': handleOrdersCancelled,
+  'refunds/create': handleRefundsCreate,
+  'orders/updated': handleOrdersUpdated,
+  'orders/edited': handleOrdersEdited,
+}
@@ -0,0 +1,59 @@
+import { disablePlates } from '../../plates/disablePlates'
+import { shopFilter } from '../../shops/resolveShop'
+import type { ShopifyTopicHandler } from '../pipeline/types'
+
+/**
+ * Topic handler — orders/cancelled
+ *
+ * When an order is cancelled in Shopify, its plates must stop redirecting:
+ * - Set `orders.status` to `cancelled`
+ * - Move every plate of the order to `disabled` (never delete them)
+ */
+export const handleOrdersCancelled: ShopifyTopicHandler = async ({ payload, body, shop }) => {
+  const orderNumber = String(body?.order_number ?? body?.name ?? '')
+
+  if (!orderNumber) {
+    return { status: 'failed', errorCode: 'MISSING_ORDER_DATA', error: 'Missing orderNumber' }
+  }
+
+  const existing = await payload.find({
+    collection: 'orders',
+    where: { and: [{ orderNumber: { equals: orderNumber } }, shopFilter(shop?.id)] },
+    limit: 1,
+  })
+
+  const order = existing.docs[0]
+
+  /**
+   * An order cancelled before payment never reached `orders/paid`:
+   * there is nothing to disable. This is not a failure.
+   */
+  if (!order) {
+    return { status: 'processed', orderNumber, disabledPlatesCount: 0 }
+  }
+
+  const plates = await payload.find({
+    collection: 'plates',
+    where: { order: { equals: order.id } },
+    limit: 500,
+    depth: 0,
+  })
+
+  const disabledCount = await disablePlates(
+    payload,
+    plates.docs as any[],
+    `Shopify order cancelled (${body?.cancel_reason ?? 'no reason'})`,
+    'webhook:orders/cancelled',
+  )
+
+  await payload.update({
+    collection: 'orders',
+    id: order.id,
+    data: {
+      status: 'cancelled',
+      cancelledAt: body?.cancelled_at ?? new Date().toISOString(),
+    },
+  })
+
+  return { status: 'processed', orderNumber, disabledPlatesCount: disabledCount }
+}
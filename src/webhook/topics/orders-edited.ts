@@ -0,0 +1,61 @@
+import { createShopifyAdminClient, getShopifyAdminConfig } from '../../shopify/shopifyAdminClient'
+import { shopFilter } from '../../shops/resolveShop'
+import type { ShopifyTopicHandler } from '../pipeline/types'
+import { applyOrderSnapshot } from './orders-updated'
+
+/**
+ * Topic handler — orders/edited
+ *
+ * The payload only describes the edit (`order_edit.line_items.additions /
+ * removals`), not the resulting order, and removals carry no properties.
+ * The current order is read from the Admin API, then applied exactly like
+ * an `orders/updated` snapshot.
+ *
+ * Without Admin API access for the shop, the event is a no-op: Shopify also
+ * sends `orders/updated` after every edit, which carries the full order.
+ * Admin API errors are thrown so the worker retries the event.
+ */
+export const handleOrdersEdited: ShopifyTopicHandler = async ({ payload, body, shop }) => {
+  const shopifyOrderId = String(body?.order_edit?.order_id ?? '')
+
+  if (!shopifyOrderId) {
+    return { status: 'failed', errorCode: 'MISSING_ORDER_DATA', error: 'Missing order_edit.order_id' }
+  }
+
+  const known = await payload.find({
+    collection: 'orders',
+    where: { and: [{ shopifyOrderId: { equals: shopifyOrderId } }, shopFilter(shop?.id)] },
+    limit: 1,
+    depth: 0,
+  })
+  const order: any = known.docs[0]
+
+  // Never paid on our side: orders/paid will create it from the current state
+  if (!order) {
+    return { status: 'processed', createdPlatesCount: 0 }
+  }
+
+  const config = getShopifyAdminConfig(shop)
+  if (!config) {
+    payload.logger?.info?.(
+      `orders/edited for order ${order.orderNumber} ignored: no Admin API access, relying on orders/updated`,
+    )
+    return { status: 'processed', orderNumber: order.orderNumber, createdPlatesCount: 0 }
+  }
+
+  const client = createShopifyAdminClient(payload, config)
+  const res = await client.request<{ order: any }>('GET', `/orders/${encodeURIComponent(shopifyOrderId)}.json`, {
+    orderNumber: order.orderNumber,
+  })
+
+  if (!res?.order) {
+    return {
+      status: 'failed',
+      orderNumber: order.orderNumber,
+      errorCode: 'SHOPIFY_ORDER_NOT_FOUND',
+      error: `Shopify order ${shopifyOrderId} not found`,
+    }
+  }
+
+  return applyOrderSnapshot({ payload, shop }, res.order, 'webhook:orders/edited')
+}
@@ -0,0 +1,274 @@
+import { normalizeDestination } from '../../destinations/normalizeDestination'
+import { destinationToPlateData } from '../../destinations/plateDestination'
+import { resolveLocale } from '../../i18n/locales'
+import { notifyNewPlates } from '../../orders/notifyNewPlates'
+import { sendCustomerOrderEmail } from '../../orders/sendCustomerOrderEmail'
+import { createPlateWithUniqueSlug } from '../../plates/createPlateWithUniqueSlug'
+import { loadPackSizeResolver } from '../../plates/loadPackSizeResolver'
+import { shopFilter } from '../../shops/resolveShop'
+import { extractGroups } from '../../utils/extractGroups'
+import type { ShopifyTopicHandler } from '../pipeline/types'
+
+/**
+ * Topic handler — orders/paid
+ *
+ * GOALS:
+ * - Create exactly one order and the correct number of plates
+ * - Never create duplicates, even under retries or concurrency
+ *
+ * Security gates and `webhook-events` bookkeeping are owned by the pipeline
+ * (see `createShopifyWebhookEndpoint`).
+ */
+export const handleOrdersPaid: ShopifyTopicHandler = async ({ payload, body, shop }) => {
+  /* ------------------------------------------------------------------ */
+  /* 1) BASIC DATA                                                       */
+  /* ------------------------------------------------------------------ */
+
+  /**
+   * orderNumber is our business-level unique identifier (within a shop).
+   * Together with the shop, it is the idempotency key for orders.
+   */
+  const orderNumber = String(body?.order_number ?? body?.name ?? '')
+  const customerEmail = String(body?.email ?? body?.customer?.email ?? '')
+  const shopifyOrderId = body?.id ? String(body.id) : undefined
+
+  /**
+   * Language of the checkout (e.g. `de-CH`), reduced to a supported locale.
+   * Drives every customer-facing email of the order.
+   */
+  const customerLocale = resolveLocale(body?.customer_locale)
+
+  if (!orderNumber || !customerEmail) {
+    return { status: 'failed', errorCode: 'MISSING_ORDER_DATA', error: 'Missing orderNumber or customerEmail' }
+  }
+
+  /* ------------------------------------------------------------------ */
+  /* 2) LINE ITEM GROUP EXTRACTION                                       */
+  /* ------------------------------------------------------------------ */
+
+  /**
+   * Each group represents a line_item carrying a destination
+   * (Google review, TripAdvisor, Wi-Fi...) and a quantity (number of plates to generate).
+   *
+   * Pack sizes come from `pack-mappings` first (variant_id / sku),
+   * then from variant_title parsing if allowed by `pack-settings`.
+   */
+  const groups = extractGroups(body, { resolvePackSize: await loadPackSizeResolver(payload) })
+
+  if (!groups.length) {
+    return {
+      status: 'failed',
+      orderNumber,
+      errorCode: 'NO_DESTINATION',
+      error: 'No plate destination found in line_items',
+    }
+  }
+
+  if (groups.some((g) => !g.units || g.units <= 0)) {
+    return {
+      status: 'failed',
+      orderNumber,
+      errorCode: 'PACK_SIZE_UNKNOWN',
+      error:
+        'Unable to infer pack size: no pack-mapping for variant_id/sku, and variant_title fallback failed or is disabled.',
+    }
+  }
+
+  /* ------------------------------------------------------------------ */
+  /* 3) UPSERT ORDER (IDEMPOTENT)                                        */
+  /* ------------------------------------------------------------------ */
+
+  /**
+   * Orders are upserted to guarantee idempotency:
+   * processing the same Shopify order multiple times
+   * must always result in a single consistent order record.
+   */
+  const existing = await payload.find({
+    collection: 'orders',
+    where: { and: [{ orderNumber: { equals: orderNumber } }, shopFilter(shop?.id)] },
+    limit: 1,
+  })
+
+  const order = existing.docs[0]
+    ? await payload.update({
+        collection: 'orders',
+        id: existing.docs[0].id,
+        data: {
+          customerEmail,
+          customerLocale,
+          shopifyOrderId,
+          status: 'paid',
+        },
+      })
+    : await payload.create({
+        collection: 'orders',
+        data: {
+          shop: shop?.id,
+          orderNumber,
+          shopifyOrderId,
+          customerEmail,
+          customerLocale,
+          status: 'paid',
+          activated: false,
+        },
+      })
+
+  /* ------------------------------------------------------------------ */
+  /* 4) PLATE CREATION (STRICTLY IDEMPOTENT)                             */
+  /* ------------------------------------------------------------------ */
+
+  /**
+   * We fetch existing plates to build a set of already-used sourceKeys.
+   * This avoids recreating plates during retries.
+   */
+  const existingPlates = await payload.find({
+    collection: 'plates',
+    where: { order: { equals: order.id } },
+    limit: 500,
+  })
+
+  const existingSourceKeys = new Set(
+    existingPlates.docs.map((p: any) => String(p.sourceKey)).filter(Boolean),
+  )
+
+  /**
+   * This array only contains plates created during THIS execution.
+   * Used for notifications.
+   */
+  const createdPlates: Array<{
+    slug: string
+    destinationType: string
+    publicUrl: string
+  }> = []
+
+  /**
+   * We generate plates idempotently using a deterministic `sourceKey`.
+   *
+   * sourceKey = `${orderNumber}|${lineItemId}|${index}`
+   *
+   * Why this works:
+   * - orderNumber → identifies the Shopify order
+   * - lineItemId  → identifies the product line (stable)
+   * - index       → identifies the unit within the quantity
+   *
+   * A UNIQUE index on `plates.(shopScope, sourceKey)` enforces this at DB level.
+   *
+   * Slugs are random (see `src/plates/slug.ts`): a slug collision is retried
+   * with a new slug, it never drops the plate.
+   */
+  for (const g of groups) {
+    if (!g.lineItemId) {
+      return {
+        status: 'failed',
+        orderNumber,
+        errorCode: 'MISSING_LINE_ITEM_ID',
+        error: 'Missing lineItemId (idempotence impossible)',
+      }
+    }
+
+    /**
+     * Validated per destination type (see `normalizeDestination`).
+     * Google share links (maps.app.goo.gl) are resolved over the network here:
+     * handlers run in the worker, outside of Shopify's delivery timeout.
+     * A network failure throws (`ShortLinkResolutionError`) and the worker retries
+     * the event: only a destination that is actually invalid fails the order.
+     */
+    const normalized = await normalizeDestination(g.destination)
+    if (!normalized.ok) {
+      return {
+        status: 'failed',
+        orderNumber,
+        errorCode: 'INVALID_DESTINATION',
+        error:
+          `Invalid ${g.destination.type} destination (${normalized.code}: ${normalized.message})` +
+          ` on line item ${g.lineItemId}`,
+      }
+    }
+    const { destination } = normalized
+
+    for (let i = 0; i < g.units; i++) {
+      const sourceKey = `${orderNumber}|${g.lineItemId}|${i}`
+      if (existingSourceKeys.has(sourceKey)) continue
+
+      const plate = await createPlateWithUniqueSlug(
+        payload,
+        {
+          shop: shop?.id,
+          order: order.id,
+          sourceKey,
+          ...destinationToPlateData(destination),
+          sourceDestination: g.sourceDestination, // raw properties, compared by orders/updated
+          status: 'created', // moved along the lifecycle by the workshop / carrier / first tap
+        },
+        { context: { actor: 'webhook:orders/paid' } },
+      )
+
+      existingSourceKeys.add(sourceKey)
+
+      /**
+       * null: another concurrent process created the same plate
+       * between our checks (the unique sourceKey index rejected ours).
+       */
+      if (!plate) continue
+
+      createdPlates.push({
+        slug: plate.slug,
+        destinationType: destination.type,
+        publicUrl: `/p/${plate.slug}`,
+      })
+    }
+  }
+
+  /* ------------------------------------------------------------------ */
+  /* 5) FINALIZATION                                                     */
+  /* ------------------------------------------------------------------ */
+
+  /**
+   * Re-fetch plates to ensure we have the authoritative final state,
+   * even in case of concurrent executions.
+   */
+  const finalPlates = await payload.find({
+    collection: 'plates',
+    where: { order: { equals: order.id } },
+    limit: 500,
+  })
+
+  /**
+   * `activated` is NOT set here: it is derived from the plates lifecycle
+   * (see `syncOrderActivation`).
+   */
+  await payload.update({
+    collection: 'orders',
+    id: order.id,
+    data: {
+      plates: finalPlates.docs.map((p: any) => p.id),
+    },
+  })
+
+  /* ------------------------------------------------------------------ */
+  /* 6) OPTIONAL ADMIN NOTIFICATION                                      */
+  /* ------------------------------------------------------------------ */
+
+  await notifyNewPlates(payload, { shop, orderNumber, customerEmail, createdPlates })
+
+  /* ------------------------------------------------------------------ */
+  /* 7) CUSTOMER CONFIRMATION (AT MOST ONCE)                             */
+  /* ------------------------------------------------------------------ */
+
+  /**
+   * Lists every plate of the order (not only the ones created now),
+   * so a retry after a partial run still sends a complete email.
+   * Send state is tracked on the order: retries never send it twice.
+   */
+  await sendCustomerOrderEmail(
+    payload,
+    { id: order.id, orderNumber, customerEmail, customerLocale },
+    finalPlates.docs as any[],
+  )
+
+  return {
+    status: 'processed',
+    orderNumber,
+    createdPlatesCount: createdPlates.length,
+  }
+}
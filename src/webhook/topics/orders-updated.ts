@@ -0,0 +1,86 @@
+import { notifyNewPlates } from '../../orders/notifyNewPlates'
+import { syncOrderLineItems } from '../../orders/syncOrderLineItems'
+import { shopFilter } from '../../shops/resolveShop'
+import type { ShopifyTopicContext, ShopifyTopicHandler, ShopifyTopicResult } from '../pipeline/types'
+
+/**
+ * Applies a full Shopify order snapshot to an order we already know.
+ * Shared by `orders/updated` (snapshot in the webhook) and `orders/edited`
+ * (snapshot read from the Admin API).
+ *
+ * Skipped, as `processed`:
+ * - orders we never saw paid (`orders/paid` creates them; not an error)
+ * - cancelled orders (their plates are disabled for good)
+ * - snapshots older than the last one applied (`updated_at`): deliveries
+ *   are not ordered, a late retry must not revert a newer edit
+ */
+export async function applyOrderSnapshot(
+  ctx: Pick<ShopifyTopicContext, 'payload' | 'shop'>,
+  body: any,
+  actor: string,
+): Promise<ShopifyTopicResult> {
+  const { payload, shop } = ctx
+  const orderNumber = String(body?.order_number ?? body?.name ?? '')
+
+  if (!orderNumber) {
+    return { status: 'failed', errorCode: 'MISSING_ORDER_DATA', error: 'Missing orderNumber' }
+  }
+
+  const existing = await payload.find({
+    collection: 'orders',
+    where: { and: [{ orderNumber: { equals: orderNumber } }, shopFilter(shop?.id)] },
+    limit: 1,
+    depth: 0,
+  })
+
+  const order: any = existing.docs[0]
+  if (!order || order.status !== 'paid') {
+    return { status: 'processed', orderNumber, createdPlatesCount: 0 }
+  }
+
+  const updatedAt = body?.updated_at ? new Date(body.updated_at) : null
+  if (updatedAt && order.shopifyUpdatedAt && updatedAt.getTime() <= new Date(order.shopifyUpdatedAt).getTime()) {
+    return { status: 'processed', orderNumber, createdPlatesCount: 0 }
+  }
+
+  const sync = await syncOrderLineItems(payload, { order, shop, body, actor })
+  if (!sync.ok) {
+    return { status: 'failed', orderNumber, errorCode: sync.errorCode, error: sync.error }
+  }
+
+  if (updatedAt) {
+    await payload.update({
+      collection: 'orders',
+      id: order.id,
+      data: { shopifyUpdatedAt: updatedAt.toISOString() },
+    })
+  }
+
+  await notifyNewPlates(payload, {
+    shop,
+    orderNumber,
+    customerEmail: order.customerEmail,
+    createdPlates: sync.createdPlates,
+  })
+
+  return {
+    status: 'processed',
+    orderNumber,
+    createdPlatesCount: sync.createdPlates.length,
+    updatedPlatesCount: sync.updatedPlatesCount,
+    flaggedPlatesCount: sync.flaggedPlatesCount,
+  }
+}
+
+/**
+ * Topic handler — orders/updated
+ *
+ * Shopify sends it for any change to an order, including the line item
+ * edits made by support (added pack, quantity change, fixed review URL
+ * property). The payload is the full order: plates are reconciled with its
+ * current line items (see `syncOrderLineItems`).
+ *
+ * Most deliveries change nothing we care about and are no-ops.
+ */
+export const handleOrdersUpdated: ShopifyTopicHandler = async ({ payload, body, shop }) =>
+  applyOrderSnapshot({ payload, shop }, body, 'webhook:orders/updated')
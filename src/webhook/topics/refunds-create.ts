@@ -0,0 +1,129 @@
+import { disablePlates } from '../../plates/disablePlates'
+import { loadPackSizeResolver } from '../../plates/loadPackSizeResolver'
+import { shopFilter } from '../../shops/resolveShop'
+import { parseSourceKey } from '../../utils/parseSourceKey'
+import type { ShopifyTopicHandler } from '../pipeline/types'
+
+/**
+ * Topic handler — refunds/create
+ *
+ * A refund can be total or partial. Only the plates tied to the refunded
+ * line items must stop redirecting.
+ *
+ * HOW PLATES ARE MATCHED:
+ * - The refund payload references line items (`line_item_id`), not plates.
+ * - Plates embed their line item in `sourceKey` (`orderNumber|lineItemId|index`),
+ *   so we find them through it, without relying on any extra mapping.
+ * - Lookups are restricted to the shop that sent the refund.
+ * - For a partial quantity refund, `quantity × packSize` plates are disabled,
+ *   starting from the highest index. Successive partial refunds therefore
+ *   never disable the same plate twice.
+ */
+export const handleRefundsCreate: ShopifyTopicHandler = async ({ payload, body, shop }) => {
+  const refundLineItems = Array.isArray(body?.refund_line_items) ? body.refund_line_items : []
+
+  /**
+   * Refunds without line items (shipping, goodwill amount, etc.)
+   * do not affect plates.
+   */
+  if (!refundLineItems.length) {
+    return { status: 'processed', disabledPlatesCount: 0 }
+  }
+
+  /* ------------------------------------------------------------------ */
+  /* 1) RESOLVE PLATES TO DISABLE                                        */
+  /* ------------------------------------------------------------------ */
+
+  const resolvePackSize = await loadPackSizeResolver(payload)
+  const toDisable: any[] = []
+  let orderNumber: string | null = null
+  let orderId: string | number | null = null
+
+  for (const rli of refundLineItems) {
+    const lineItemId = String(rli?.line_item_id ?? rli?.line_item?.id ?? '')
+    const refundedQty = Number(rli?.quantity ?? 0)
+
+    if (!lineItemId || !Number.isFinite(refundedQty) || refundedQty <= 0) continue
+
+    const candidates = await payload.find({
+      collection: 'plates',
+      where: { and: [{ sourceKey: { contains: `|${lineItemId}|` } }, shopFilter(shop?.id)] },
+      limit: 500,
+      depth: 0,
+    })
+
+    const plates = candidates.docs
+      .map((p: any) => ({ plate: p, key: parseSourceKey(p.sourceKey) }))
+      .filter(({ key }) => key?.lineItemId === lineItemId)
+
+    // Line item without plates (not an NFC product) → nothing to do
+    if (!plates.length) continue
+
+    orderNumber = orderNumber ?? plates[0].key!.orderNumber
+    orderId = orderId ?? plates[0].plate.order
+
+    const active = plates
+      .filter(({ plate }) => plate.status !== 'disabled')
+      .sort((a, b) => b.key!.index - a.key!.index)
+      .map(({ plate }) => plate)
+
+    /**
+     * Full line item refund: every plate goes, pack size is irrelevant.
+     * Partial refund: we need the pack size to know how many plates
+     * one refunded unit represents.
+     */
+    const lineQuantity = Number(rli?.line_item?.quantity ?? NaN)
+    if (Number.isFinite(lineQuantity) && refundedQty >= lineQuantity) {
+      toDisable.push(...active)
+      continue
+    }
+
+    const packSize = resolvePackSize(rli?.line_item)
+    if (!packSize) {
+      return {
+        status: 'failed',
+        orderNumber,
+        errorCode: 'PACK_SIZE_UNKNOWN',
+        error: `Unable to infer pack size for refunded line item ${lineItemId}`,
+      }
+    }
+
+    toDisable.push(...active.slice(0, refundedQty * packSize))
+  }
+
+  /* ------------------------------------------------------------------ */
+  /* 2) DISABLE PLATES & UPDATE ORDER                                    */
+  /* ------------------------------------------------------------------ */
+
+  const disabledCount = await disablePlates(
+    payload,
+    toDisable,
+    `Shopify refund ${body?.id ?? ''}`.trim(),
+    'webhook:refunds/create',
+  )
+
+  /**
+   * When nothing is left active, the order is effectively cancelled.
+   */
+  if (orderId) {
+    const remaining = await payload.count({
+      collection: 'plates',
+      where: {
+        and: [{ order: { equals: orderId } }, { status: { not_equals: 'disabled' } }],
+      },
+    })
+
+    if (remaining.totalDocs === 0) {
+      await payload.update({
+        collection: 'orders',
+        id: orderId,
+        data: {
+          status: 'cancelled',
+          cancelledAt: new Date().toISOString(),
+        },
+      })
+    }
+  }
+
+  return { status: 'processed', orderNumber, disabledPlatesCount: disabledCount }
+}
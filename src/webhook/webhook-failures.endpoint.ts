@@ -0,0 +1,62 @@
+import type { Endpoint } from 'payload'
+
+import { isAdmin } from '../payload/access'
+import { groupWebhookFailures } from './groupWebhookFailures'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 90
+const MAX_EVENTS = 5000
+
+const FAILURE_SELECT = {
+  errorCode: true,
+  error: true,
+  topic: true,
+  orderNumber: true,
+  shop: true,
+  failedAt: true,
+  updatedAt: true,
+} as const
+
+/**
+ * Failures by error code — GET /api/webhook-events/failures?days=30
+ *
+ * Failed events of the window grouped by `errorCode`, with the affected
+ * orders, for the failure view above the webhook events list.
+ * Reprocessed events leave the list once they succeed.
+ *
+ * Admin only (shop admins: events of their shops).
+ */
+export const webhookFailuresEndpoint: Endpoint = {
+  path: '/failures',
+  method: 'get',
+
+  handler: async (req) => {
+    if (!isAdmin(req)) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const daysRaw = Number(req.searchParams?.get('days') ?? DEFAULT_DAYS)
+    const days =
+      Number.isFinite(daysRaw) && daysRaw > 0 ? Math.min(Math.floor(daysRaw), MAX_DAYS) : DEFAULT_DAYS
+    const since = new Date(Date.now() - days * DAY_MS).toISOString()
+
+    const events = await req.payload.find({
+      collection: 'webhook-events',
+      where: { and: [{ status: { equals: 'failed' } }, { updatedAt: { greater_than_equal: since } }] },
+      select: FAILURE_SELECT,
+      sort: '-updatedAt',
+      limit: MAX_EVENTS,
+      depth: 0,
+      overrideAccess: false,
+      user: req.user,
+    })
+
+    return Response.json({
+      days,
+      total: events.totalDocs,
+      truncated: events.totalDocs > events.docs.length,
+      groups: await groupWebhookFailures(req.payload, events.docs),
+    })
+  },
+}
@@ -0,0 +1,86 @@
+import type { Endpoint, Where } from 'payload'
+
+import { WEBHOOK_EVENTS_KEEP_DAYS } from '../jobs/purgeWebhookEvents'
+import { isSuperAdmin } from '../payload/access'
+import { findShopById, shopFilter } from '../shops/resolveShop'
+import { getConfiguredWebhookSecrets, isSecretExpired } from '../shops/webhookSecrets'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_DAYS = 7
+/**
+ * Longer windows would count purged events as "unused": capped at the retention.
+ */
+const MAX_DAYS = WEBHOOK_EVENTS_KEEP_DAYS
+
+/**
+ * Webhook secret usage — GET /api/webhook-events/secret-usage?shop=:id&days=7
+ *
+ * For every configured secret of a shop (or of the legacy setup when `shop`
+ * is omitted): how many deliveries it validated over the window, and when
+ * it was last used. Counts come from `webhook-events.secretLabel`, so the
+ * window is capped at the webhook events retention (`windowDays` in the response).
+ *
+ * A retiring secret can be removed once it shows `unusedInWindow: true`
+ * while the new one is receiving deliveries.
+ *
+ * Super admin only (secrets are managed by super admins).
+ */
+export const webhookSecretUsageEndpoint: Endpoint = {
+  path: '/secret-usage',
+  method: 'get',
+
+  handler: async (req) => {
+    if (!isSuperAdmin(req)) {
+      return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const daysRaw = Number(req.searchParams?.get('days') ?? DEFAULT_DAYS)
+    const days =
+      Number.isFinite(daysRaw) && daysRaw > 0 ? Math.min(Math.floor(daysRaw), MAX_DAYS) : DEFAULT_DAYS
+    const since = new Date(Date.now() - days * DAY_MS).toISOString()
+
+    const shopId = req.searchParams?.get('shop') || null
+    const shop = shopId ? await findShopById(req.payload, shopId) : null
+    if (shopId && !shop) {
+      return Response.json({ error: 'Shop not found' }, { status: 404 })
+    }
+
+    const now = new Date()
+    const secrets = []
+
+    for (const secret of getConfiguredWebhookSecrets(shop)) {
+      const bySecret: Where = { and: [shopFilter(shop?.id), { secretLabel: { equals: secret.label } }] }
+
+      const inWindow = await req.payload.count({
+        collection: 'webhook-events',
+        where: { and: [bySecret, { createdAt: { greater_than_equal: since } }] },
+        overrideAccess: true,
+      })
+
+      const last = await req.payload.find({
+        collection: 'webhook-events',
+        where: bySecret,
+        sort: '-createdAt',
+        limit: 1,
+        depth: 0,
+        overrideAccess: true,
+      })
+
+      secrets.push({
+        label: secret.label,
+        expiresAt: secret.expiresAt ?? null,
+        expired: isSecretExpired(secret, now),
+        matchesInWindow: inWindow.totalDocs,
+        lastMatchedAt: (last.docs[0] as any)?.createdAt ?? null,
+        unusedInWindow: inWindow.totalDocs === 0,
+      })
+    }
+
+    return Response.json({
+      shop: shop ? { id: shop.id, shopDomain: shop.shopDomain } : null,
+      windowDays: days,
+      since,
+      secrets,
+    })
+  },
+}